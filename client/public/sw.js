@@ -0,0 +1,57 @@
+// Service worker for Web Push: shows pill and reminder notifications while the app is closed.
+// Pushes are sent by server/push.ts; the payload is a PushPayload (shared/schema.ts).
+
+self.addEventListener("install", () => self.skipWaiting());
+self.addEventListener("activate", (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener("push", (event) => {
+  if (!event.data) return;
+  const payload = event.data.json();
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title, {
+      body: payload.body,
+      tag: payload.tag,
+      renotify: true,
+      data: { url: payload.url, actionToken: payload.actionToken },
+      actions: payload.actionToken
+        ? [
+            { action: "taken", title: "Taken" },
+            { action: "snooze", title: "Snooze" },
+          ]
+        : [],
+    }),
+  );
+});
+
+async function openApp(url) {
+  const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+  const existing = windows.find((client) => new URL(client.url).origin === self.location.origin);
+  if (existing) {
+    await existing.focus();
+    return existing.navigate(url);
+  }
+  return self.clients.openWindow(url);
+}
+
+self.addEventListener("notificationclick", (event) => {
+  const { url = "/", actionToken } = event.notification.data || {};
+  event.notification.close();
+
+  if (event.action && actionToken) {
+    // "Taken" / "Snooze": the token authorizes the change, so this works without a session.
+    // If it fails (expired, snoozed too often), open the planner to deal with it there.
+    event.waitUntil(
+      fetch("/api/push/actions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token: actionToken, action: event.action }),
+      })
+        .then((res) => (res.ok ? undefined : openApp(url)))
+        .catch(() => openApp(url)),
+    );
+    return;
+  }
+
+  event.waitUntil(openApp(url));
+});
@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
-import { Switch, Route } from "wouter";
-import { queryClient } from "./lib/queryClient";
+import { Switch, Route, Redirect, useLocation } from "wouter";
+import { queryClient, getQueryFn, apiRequest, LOGIN_PATH } from "./lib/queryClient";
 import { QueryClientProvider, useQuery } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
@@ -9,6 +9,8 @@ import { ThemeToggle } from "@/components/theme-toggle";
 import { AppSidebar } from "@/components/app-sidebar";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { HealthProfileModal } from "@/components/health-profile-modal";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useNotifications } from "@/hooks/use-notifications";
 import NotFound from "@/pages/not-found";
 import Dashboard from "@/pages/dashboard";
 import PillPlanner from "@/pages/pill-planner";
@@ -19,7 +21,8 @@ import Recommendations from "@/pages/recommendations";
 import Reminders from "@/pages/reminders";
 import Interactions from "@/pages/interactions";
 import Profile from "@/pages/profile";
-import type { User } from "@shared/schema";
+import AuthPage from "@/pages/auth";
+import type { PublicUser } from "@shared/schema";
 
 function Router() {
   return (
@@ -38,7 +41,7 @@ function Router() {
   );
 }
 
-function shouldShowHealthOnboarding(user: User | undefined): boolean {
+function shouldShowHealthOnboarding(user: PublicUser | undefined): boolean {
   if (!user) return false;
   const status = user.healthProfileStatus || { isComplete: false };
   if (status.isComplete) return false;
@@ -46,18 +49,26 @@ function shouldShowHealthOnboarding(user: User | undefined): boolean {
   return true;
 }
 
-function AppContent() {
+function AuthenticatedApp({ user }: { user: PublicUser }) {
   const [showOnboarding, setShowOnboarding] = useState(false);
-  
-  const { data: user, isLoading } = useQuery<User>({
-    queryKey: ["/api/me"],
-  });
 
   useEffect(() => {
-    if (!isLoading && user && shouldShowHealthOnboarding(user)) {
+    if (shouldShowHealthOnboarding(user)) {
       setShowOnboarding(true);
     }
-  }, [user, isLoading]);
+  }, [user]);
+
+  // Missed doses are worked out on the server in the user's time zone; start from this device's
+  useEffect(() => {
+    if (user.preferences?.timeZone) return;
+    const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    apiRequest("PATCH", "/api/me/preferences", { timeZone })
+      .then(() => queryClient.invalidateQueries({ queryKey: ["/api/me"] }))
+      .catch((error) => console.error("Failed to save time zone:", error));
+  }, [user.preferences?.timeZone]);
+
+  // Pill and reminder notifications come from the server, on every page
+  useNotifications();
 
   const style = {
     "--sidebar-width": "16rem",
@@ -88,6 +99,34 @@ function AppContent() {
   );
 }
 
+function AppContent() {
+  const [location] = useLocation();
+
+  // "returnNull" so a logged-out visitor gets the login page instead of a redirect loop.
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ["/api/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <Skeleton className="h-12 w-48" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return location === LOGIN_PATH ? <AuthPage /> : <Redirect to={LOGIN_PATH} />;
+  }
+
+  if (location === LOGIN_PATH) {
+    return <Redirect to="/" />;
+  }
+
+  return <AuthenticatedApp user={user} />;
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
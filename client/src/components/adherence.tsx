@@ -0,0 +1,173 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import type { AdherenceRate, AdherenceReport } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { ArrowRight, Flame, Lightbulb, Target } from "lucide-react";
+
+const weekdayLabels = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const percent = (rate: number | null) => (rate === null ? "–" : `${Math.round(rate * 100)}%`);
+
+function formatLateness(minutes: number | null): string {
+  if (minutes === null) return "";
+  if (Math.abs(minutes) < 5) return "on time";
+  return minutes > 0 ? `${minutes} min late` : `${-minutes} min early`;
+}
+
+/**
+ * The last 30 days of adherence, with takenAt read in the browser's time zone.
+ */
+export function useAdherence() {
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return useQuery<AdherenceReport>({
+    queryKey: ["/api/adherence", timeZone],
+    queryFn: async () => {
+      const res = await fetch(`/api/adherence?timeZone=${encodeURIComponent(timeZone)}`);
+      if (!res.ok) throw new Error("Failed to fetch adherence");
+      return res.json();
+    },
+  });
+}
+
+function RateRow({ label, row, detail, testId }: { label: string; row: AdherenceRate; detail?: string; testId: string }) {
+  return (
+    <div className="space-y-1" data-testid={testId}>
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <span>{label}</span>
+        <span className="text-muted-foreground">
+          {detail && `${detail} · `}
+          {row.due > 0 ? `${row.taken}/${row.due} · ${percent(row.rate)}` : "nothing due"}
+        </span>
+      </div>
+      <Progress value={row.rate === null ? 0 : row.rate * 100} className="h-1.5" />
+    </div>
+  );
+}
+
+/**
+ * Dashboard summary: 30-day adherence, streaks and the top insight.
+ */
+export function AdherenceCard() {
+  const { data: report } = useAdherence();
+
+  return (
+    <Card data-testid="card-adherence">
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Target className="h-5 w-5 text-primary" />
+            Adherence
+          </CardTitle>
+          <CardDescription>Doses taken over the last 30 days</CardDescription>
+        </div>
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/planner">
+            Planner
+            <ArrowRight className="ml-1 h-4 w-4" />
+          </Link>
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!report || report.overall.due === 0 ? (
+          <p className="text-sm text-muted-foreground">No doses tracked yet. Mark doses as taken in the planner.</p>
+        ) : (
+          <>
+            <div className="flex items-end justify-between gap-2">
+              <span className="text-3xl font-bold" data-testid="text-adherence-rate">
+                {percent(report.overall.rate)}
+              </span>
+              <span className="flex items-center gap-1 text-sm text-muted-foreground" data-testid="text-adherence-streak">
+                <Flame className="h-4 w-4 text-orange-500" />
+                {report.streaks.current} day streak · best {report.streaks.longest}
+              </span>
+            </div>
+            <Progress value={(report.overall.rate ?? 0) * 100} />
+            {report.insights[0] && (
+              <p className="flex items-start gap-2 text-sm text-muted-foreground" data-testid="text-adherence-insight">
+                <Lightbulb className="mt-0.5 h-4 w-4 shrink-0 text-amber-500" />
+                {report.insights[0]}
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Planner section: adherence per time block and weekday, lateness and every insight. Renders
+ * nothing until some dose has been due.
+ */
+export function AdherenceInsights() {
+  const { data: report } = useAdherence();
+  if (!report || report.overall.due === 0) return null;
+
+  return (
+    <Card data-testid="card-adherence-insights">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Target className="h-4 w-4" />
+          Insights
+        </CardTitle>
+        <CardDescription>
+          Last 30 days: {percent(report.overall.rate)} taken
+          {report.lateness.averageMinutes !== null && `, ${formatLateness(report.lateness.averageMinutes)} on average`}
+          {` · ${report.streaks.current} day streak (best ${report.streaks.longest})`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {report.insights.length > 0 && (
+          <ul className="space-y-1" data-testid="list-adherence-insights">
+            {report.insights.map((insight) => (
+              <li key={insight} className="flex items-start gap-2 text-sm">
+                <Lightbulb className="mt-0.5 h-4 w-4 shrink-0 text-amber-500" />
+                {insight}
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="grid gap-6 md:grid-cols-2">
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">By time of day</h4>
+            {report.byTimeBlock.map((row) => (
+              <RateRow
+                key={row.timeBlock}
+                label={row.timeBlock.charAt(0).toUpperCase() + row.timeBlock.slice(1)}
+                row={row}
+                detail={formatLateness(row.averageMinutes)}
+                testId={`row-adherence-block-${row.timeBlock}`}
+              />
+            ))}
+          </div>
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">By weekday</h4>
+            {report.byWeekday.map((row) => (
+              <RateRow
+                key={row.weekday}
+                label={weekdayLabels[row.weekday]}
+                row={row}
+                testId={`row-adherence-weekday-${row.weekday}`}
+              />
+            ))}
+          </div>
+        </div>
+        {report.byPill.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">By pill</h4>
+            {report.byPill.map((row) => (
+              <RateRow
+                key={`${row.pill.type}-${row.pill.id}`}
+                label={row.name}
+                row={row}
+                testId={`row-adherence-pill-${row.pill.type}-${row.pill.id}`}
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
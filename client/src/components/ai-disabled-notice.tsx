@@ -0,0 +1,33 @@
+import { useQuery } from "@tanstack/react-query";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Sparkles } from "lucide-react";
+import type { AiStatus } from "@shared/schema";
+
+/**
+ * Whether the server has an AI provider configured. Treated as enabled until the status loads.
+ */
+export function useAiEnabled(): boolean {
+  const { data } = useQuery<AiStatus>({
+    queryKey: ["/api/ai/status"],
+    staleTime: Infinity,
+  });
+  return data?.enabled ?? true;
+}
+
+/**
+ * Banner explaining which features are unavailable while AI is disabled; renders nothing otherwise.
+ *
+ * @param children - What the user can't do on this page, e.g. "Interaction checks are unavailable."
+ */
+export function AiDisabledNotice({ children }: { children: React.ReactNode }) {
+  const enabled = useAiEnabled();
+  if (enabled) return null;
+
+  return (
+    <Alert data-testid="alert-ai-disabled">
+      <Sparkles className="h-4 w-4" />
+      <AlertTitle>AI features are turned off</AlertTitle>
+      <AlertDescription>{children}</AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { addDays, daysBetween } from "@shared/pill-schedule";
+import type { PillCourse } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+type CourseMode = "ongoing" | "until" | "days";
+
+const courseModes: { id: CourseMode; label: string }[] = [
+  { id: "ongoing", label: "Ongoing" },
+  { id: "until", label: "Until a date" },
+  { id: "days", label: "For a number of days" },
+];
+
+const today = () => new Date().toLocaleDateString("en-CA");
+
+/**
+ * Editor for a pill's treatment course, used inside the medication and supplement forms.
+ * A duration is stored as the matching end date (start + days - 1).
+ */
+export function CourseField({
+  value,
+  onChange,
+  testIdPrefix,
+}: {
+  value: PillCourse;
+  onChange: (course: { courseStartDate: string | null; courseEndDate: string | null }) => void;
+  testIdPrefix: string;
+}) {
+  const [mode, setMode] = useState<CourseMode>(value.courseEndDate ? "until" : "ongoing");
+  const startDate = value.courseStartDate ?? today();
+  const endDate = value.courseEndDate ?? addDays(startDate, 9);
+  const days = daysBetween(startDate, endDate) + 1;
+
+  const changeMode = (next: CourseMode) => {
+    setMode(next);
+    onChange(
+      next === "ongoing"
+        ? { courseStartDate: null, courseEndDate: null }
+        : { courseStartDate: startDate, courseEndDate: endDate },
+    );
+  };
+
+  const changeStart = (courseStartDate: string) => {
+    // A duration keeps its length when the start moves; an end date stays put
+    const courseEndDate = mode === "days" ? addDays(courseStartDate, days - 1) : endDate;
+    onChange({ courseStartDate, courseEndDate });
+  };
+
+  return (
+    <div className="space-y-3">
+      <Select value={mode} onValueChange={(next) => changeMode(next as CourseMode)}>
+        <SelectTrigger data-testid={`select-${testIdPrefix}-course-mode`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {courseModes.map((m) => (
+            <SelectItem key={m.id} value={m.id}>
+              {m.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {mode !== "ongoing" && (
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Starting</Label>
+            <Input
+              type="date"
+              value={startDate}
+              onChange={(e) => e.target.value && changeStart(e.target.value)}
+              data-testid={`input-${testIdPrefix}-course-start`}
+            />
+          </div>
+          {mode === "until" ? (
+            <div className="space-y-1">
+              <Label className="text-xs">Last day</Label>
+              <Input
+                type="date"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => e.target.value && onChange({ courseStartDate: startDate, courseEndDate: e.target.value })}
+                data-testid={`input-${testIdPrefix}-course-end`}
+              />
+            </div>
+          ) : (
+            <div className="space-y-1">
+              <Label className="text-xs">Days</Label>
+              <Input
+                type="number"
+                min={1}
+                value={days}
+                onChange={(e) => {
+                  const n = parseInt(e.target.value, 10);
+                  if (!Number.isNaN(n) && n >= 1) {
+                    onChange({ courseStartDate: startDate, courseEndDate: addDays(startDate, n - 1) });
+                  }
+                }}
+                data-testid={`input-${testIdPrefix}-course-days`}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { useQuery } from "@tanstack/react-query";
+import type { PillHistoryEntry, PillType } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { History } from "lucide-react";
+
+const formatDay = (date: string | null) =>
+  date
+    ? new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" })
+    : "?";
+
+/**
+ * Treatment courses of one kind of pill that have finished, newest first. Renders nothing when there are none.
+ */
+export function CourseHistory({ pillType }: { pillType: PillType }) {
+  const { data: history } = useQuery<PillHistoryEntry[]>({
+    queryKey: ["/api/pill-history"],
+  });
+
+  const finished = (history ?? []).filter((entry) => entry.pillType === pillType && entry.event === "course_completed");
+  if (finished.length === 0) return null;
+
+  return (
+    <Card data-testid={`card-course-history-${pillType}`}>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <History className="h-4 w-4" />
+          Finished courses
+        </CardTitle>
+        <CardDescription>Deactivated automatically when their last day passed</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {finished.map((entry) => (
+          <div
+            key={entry.id}
+            className="flex items-center justify-between gap-2 text-sm"
+            data-testid={`row-course-history-${entry.id}`}
+          >
+            <span>
+              <span className="font-medium">{entry.name}</span>{" "}
+              <span className="text-muted-foreground">{entry.dosage}</span>
+            </span>
+            <span className="text-muted-foreground">
+              {formatDay(entry.courseStartDate)} – {formatDay(entry.courseEndDate)}
+            </span>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,128 @@
+import { blockForTime } from "@shared/pill-schedule";
+import { timeBlocks, type DoseSlot, type FoodRule, type TimeBlock } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, X } from "lucide-react";
+
+const MAX_SLOTS = 8;
+
+const blockLabel = (block: string) => block.charAt(0).toUpperCase() + block.slice(1);
+
+/**
+ * An id not used by any of the slots; existing ids never change, so dose history stays attached.
+ */
+function nextSlotId(slots: DoseSlot[]): string {
+  const used = new Set(slots.map((s) => s.id));
+  let n = slots.length + 1;
+  while (used.has(String(n))) n += 1;
+  return String(n);
+}
+
+/**
+ * Editor for a pill's dose slots: when each of the day's doses is taken, how much, and its food rule.
+ */
+export function DoseSlotsField({
+  value,
+  onChange,
+  defaultAmount,
+  testIdPrefix,
+}: {
+  value: DoseSlot[];
+  onChange: (slots: DoseSlot[]) => void;
+  defaultAmount: string; // the pill's dosage, shown when a slot has no amount of its own
+  testIdPrefix: string;
+}) {
+  const update = (id: string, change: Partial<DoseSlot>) =>
+    onChange(value.map((slot) => (slot.id === id ? { ...slot, ...change } : slot)));
+
+  const addSlot = () => {
+    // Default to the first block no dose uses yet
+    const used = new Set(value.map((s) => s.timeBlock));
+    const timeBlock: TimeBlock = timeBlocks.find((b) => !used.has(b)) ?? "evening";
+    onChange([...value, { id: nextSlotId(value), timeBlock, scheduledTime: null, amount: null, foodRule: null }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.map((slot, index) => (
+        <div
+          key={slot.id}
+          className="grid gap-2 grid-cols-2 sm:grid-cols-[1fr_7rem_1fr_1fr_auto] items-center"
+          data-testid={`row-${testIdPrefix}-dose-${index + 1}`}
+        >
+          <Select value={slot.timeBlock} onValueChange={(timeBlock) => update(slot.id, { timeBlock: timeBlock as TimeBlock, scheduledTime: null })}>
+            <SelectTrigger data-testid={`select-${testIdPrefix}-dose-${index + 1}-block`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {timeBlocks.map((block) => (
+                <SelectItem key={block} value={block}>
+                  {blockLabel(block)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="time"
+            value={slot.scheduledTime ?? ""}
+            onChange={(e) =>
+              update(
+                slot.id,
+                e.target.value
+                  ? { scheduledTime: e.target.value, timeBlock: blockForTime(e.target.value) }
+                  : { scheduledTime: null },
+              )
+            }
+            aria-label="Exact time (optional)"
+            data-testid={`input-${testIdPrefix}-dose-${index + 1}-time`}
+          />
+          <Input
+            placeholder={defaultAmount || "Amount"}
+            value={slot.amount ?? ""}
+            onChange={(e) => update(slot.id, { amount: e.target.value || null })}
+            aria-label="Amount"
+            data-testid={`input-${testIdPrefix}-dose-${index + 1}-amount`}
+          />
+          <Select
+            value={slot.foodRule ?? "default"}
+            onValueChange={(rule) => update(slot.id, { foodRule: rule === "default" ? null : (rule as FoodRule) })}
+          >
+            <SelectTrigger data-testid={`select-${testIdPrefix}-dose-${index + 1}-food`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="default">Usual food rule</SelectItem>
+              <SelectItem value="with_food">With food</SelectItem>
+              <SelectItem value="empty_stomach">Empty stomach</SelectItem>
+              <SelectItem value="either">Either</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(value.filter((s) => s.id !== slot.id))}
+            disabled={value.length === 1}
+            aria-label="Remove dose"
+            data-testid={`button-${testIdPrefix}-dose-${index + 1}-remove`}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      {value.length < MAX_SLOTS && (
+        <Button type="button" variant="outline" size="sm" onClick={addSlot} data-testid={`button-${testIdPrefix}-add-dose`}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add dose
+        </Button>
+      )}
+    </div>
+  );
+}
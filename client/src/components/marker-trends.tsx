@@ -0,0 +1,167 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Area, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { LineChart as LineChartIcon } from "lucide-react";
+import type { HealthMarker, MarkerDefinition, MarkerHistory } from "@shared/schema";
+
+type TrendDatum = {
+  date: string;
+  value: number | null;
+  band?: [number, number];
+};
+
+/**
+ * Format a YYYY-MM-DD as a short local date without shifting it a day.
+ */
+function formatShortDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "2-digit" });
+}
+
+function MarkerTrendChart({ history }: { history: MarkerHistory }) {
+  // Only readings in the shared unit are comparable; the rest are counted, not plotted.
+  const plotted = history.points.filter((p) => p.unit === history.unit && p.value != null);
+  const hiddenCount = history.points.length - plotted.length;
+
+  const data: TrendDatum[] = plotted.map((p) => ({
+    date: p.date,
+    value: p.value,
+    band: p.normalMin != null && p.normalMax != null ? [p.normalMin, p.normalMax] : undefined,
+  }));
+
+  const chartConfig: ChartConfig = {
+    value: { label: history.displayName, color: "hsl(var(--chart-1))" },
+    band: { label: "Reference range", color: "hsl(var(--chart-2))" },
+  };
+
+  if (data.length === 0) {
+    return (
+      <p className="py-8 text-center text-sm text-muted-foreground">
+        No readings for {history.displayName} yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto" data-testid="chart-marker-trend">
+        <ComposedChart data={data} margin={{ left: 4, right: 12, top: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="date" tickFormatter={formatShortDate} tickLine={false} axisLine={false} />
+          <YAxis
+            width={48}
+            tickLine={false}
+            axisLine={false}
+            domain={["auto", "auto"]}
+            label={
+              history.unit
+                ? { value: history.unit, angle: -90, position: "insideLeft", className: "fill-muted-foreground" }
+                : undefined
+            }
+          />
+          <ChartTooltip
+            content={<ChartTooltipContent labelFormatter={(label) => formatShortDate(String(label))} />}
+          />
+          <Area
+            dataKey="band"
+            type="stepAfter"
+            stroke="none"
+            fill="var(--color-band)"
+            fillOpacity={0.15}
+            tooltipType="none"
+            isAnimationActive={false}
+          />
+          <Line
+            dataKey="value"
+            type="monotone"
+            stroke="var(--color-value)"
+            strokeWidth={2}
+            dot={{ r: 4 }}
+            isAnimationActive={false}
+          />
+        </ComposedChart>
+      </ChartContainer>
+      <p className="text-xs text-muted-foreground">
+        Shaded area is the reference range reported by each lab.
+        {hiddenCount > 0 && ` ${hiddenCount} reading(s) in other units are not plotted.`}
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Trend view for one canonical marker at a time, across every lab result.
+ *
+ * @param markers - The user's markers; only those with a canonical code can be charted.
+ */
+export function MarkerTrends({ markers }: { markers: HealthMarker[] }) {
+  const { data: definitions } = useQuery<MarkerDefinition[]>({
+    queryKey: ["/api/marker-definitions"],
+    staleTime: Infinity,
+  });
+
+  // Offer markers with the most readings first, since those make the most useful trends.
+  const options = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const m of markers) {
+      if (m.canonicalCode) counts.set(m.canonicalCode, (counts.get(m.canonicalCode) ?? 0) + 1);
+    }
+    return (definitions ?? [])
+      .filter((d) => counts.has(d.code))
+      .map((d) => ({ code: d.code, displayName: d.displayName, count: counts.get(d.code) ?? 0 }))
+      .sort((a, b) => b.count - a.count || a.displayName.localeCompare(b.displayName));
+  }, [definitions, markers]);
+
+  const [selected, setSelected] = useState<string>();
+  const code = selected ?? options[0]?.code;
+
+  const { data: history, isLoading } = useQuery<MarkerHistory>({
+    queryKey: [`/api/health-markers/history?marker=${encodeURIComponent(code ?? "")}`],
+    enabled: !!code,
+  });
+
+  if (options.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <LineChartIcon className="h-5 w-5 text-primary" />
+            Trends
+          </CardTitle>
+          <CardDescription>How a marker changed across your lab results</CardDescription>
+        </div>
+        <Select value={code} onValueChange={setSelected}>
+          <SelectTrigger className="w-56" data-testid="select-trend-marker">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map((o) => (
+              <SelectItem key={o.code} value={o.code}>
+                {o.displayName} ({o.count})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !history ? <Skeleton className="h-64" /> : <MarkerTrendChart history={history} />}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,302 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import type { Medication, PillConflictReport, ScheduleSlot, Supplement } from "@shared/schema";
+import { blockForTime, doseSlotsOf } from "@shared/pill-schedule";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AlertTriangle, ArrowRight, Clock, Wand2 } from "lucide-react";
+
+type Resolution = "choose" | "together" | null;
+
+const blockLabel = (block: string) => block.charAt(0).toUpperCase() + block.slice(1);
+
+const formatSlot = (slot: ScheduleSlot) => `${blockLabel(slot.timeBlock)} ${slot.scheduledTime}`;
+
+function invalidatePills() {
+  queryClient.invalidateQueries({ queryKey: ["/api/medications"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/supplements"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/interactions"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/pill-doses"] });
+}
+
+/**
+ * Shown after saving a medication or supplement whose schedule conflicts with another pill.
+ * Offers the auto-fixed schedule, new times for the clashing doses, or recording that the pills
+ * are taken together on purpose.
+ */
+export function PillConflictDialog({
+  pill,
+  report,
+  onClose,
+}: {
+  pill: Medication | Supplement | null; // as saved, so its dose slots are current
+  report: PillConflictReport | null;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [current, setCurrent] = useState<PillConflictReport | null>(report);
+  const [resolution, setResolution] = useState<Resolution>(null);
+  const [times, setTimes] = useState<Record<string, string>>({}); // slot id -> new HH:MM
+  const [confirmed, setConfirmed] = useState(false);
+  const [note, setNote] = useState("");
+
+  // The pill's doses that clash with something, each listed once
+  const clashingSlots = pill
+    ? doseSlotsOf(pill).filter((slot) => (current?.conflicts ?? []).some((c) => c.slotId === slot.id))
+    : [];
+
+  useEffect(() => {
+    setCurrent(report);
+    setResolution(null);
+    setTimes(Object.fromEntries((report?.conflicts ?? []).map((c) => [c.slotId, c.slot.scheduledTime])));
+    setConfirmed(false);
+    setNote("");
+  }, [report]);
+
+  const done = (title: string) => {
+    invalidatePills();
+    toast({ title });
+    onClose();
+  };
+
+  const onError = () => {
+    toast({
+      title: "Update failed",
+      description: "Could not update the schedule. Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const autoFixMutation = useMutation({
+    mutationFn: async (r: PillConflictReport) => {
+      const res = await apiRequest("POST", "/api/planner/auto-schedule/apply", {
+        changes: (r.autoFix ?? []).map(({ pill, slotId, to }) => ({ pill, slotId, to })),
+        fromDate: new Date().toLocaleDateString("en-CA"), // today, in local time
+      });
+      return res.json() as Promise<{ moved: number }>;
+    },
+    onSuccess: () => done("Schedule updated"),
+    onError,
+  });
+
+  const rescheduleMutation = useMutation({
+    mutationFn: async ({ r, item }: { r: PillConflictReport; item: Medication | Supplement }) => {
+      const path = r.pill.type === "medication" ? "medications" : "supplements";
+      const doseSlots = doseSlotsOf(item).map((slot) =>
+        times[slot.id] ? { ...slot, timeBlock: blockForTime(times[slot.id]), scheduledTime: times[slot.id] } : slot,
+      );
+      const res = await apiRequest("PATCH", `/api/${path}/${r.pill.id}`, { doseSlots });
+      return res.json() as Promise<{ conflictReport: PillConflictReport }>;
+    },
+    onSuccess: ({ conflictReport }) => {
+      if (conflictReport.conflicts.length === 0) {
+        done("Schedule updated");
+        return;
+      }
+      // Still clashing: keep the dialog open with the fresh report
+      invalidatePills();
+      setCurrent(conflictReport);
+      toast({
+        title: "Still conflicting",
+        description: "That time is still too close to another pill.",
+        variant: "destructive",
+      });
+    },
+    onError,
+  });
+
+  const togetherMutation = useMutation({
+    mutationFn: async (r: PillConflictReport) => {
+      return apiRequest("POST", "/api/planner/allow-together", {
+        pill: r.pill,
+        with: r.conflicts.map((c) => c.with),
+        note: note.trim() || undefined,
+      });
+    },
+    onSuccess: () => done("Noted: taken together on purpose"),
+    onError,
+  });
+
+  const isPending = autoFixMutation.isPending || rescheduleMutation.isPending || togetherMutation.isPending;
+  const conflicts = current?.conflicts ?? [];
+  const hasAvoid = conflicts.some((c) => c.kind === "avoid");
+
+  return (
+    <Dialog open={report !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            Schedule conflict
+          </DialogTitle>
+          <DialogDescription>
+            {pill?.name} clashes with {conflicts.length === 1 ? "another pill" : `${conflicts.length} other doses`}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2" data-testid="list-pill-conflicts">
+          {conflicts.map((conflict, index) => (
+            <div
+              key={index}
+              className="rounded-md border p-3 space-y-1"
+              data-testid={`row-conflict-${conflict.with.type}-${conflict.with.id}`}
+            >
+              <div className="flex items-center gap-2 flex-wrap text-sm">
+                <span className="text-muted-foreground">{formatSlot(conflict.slot)}</span>
+                <span>with</span>
+                <span className="font-medium">{conflict.withName}</span>
+                <span className="text-muted-foreground">{formatSlot(conflict.withSlot)}</span>
+                {conflict.severity && (
+                  <Badge variant={conflict.severity === "severe" ? "destructive" : "secondary"}>
+                    {conflict.severity}
+                  </Badge>
+                )}
+              </div>
+              <p className="text-sm">
+                {conflict.kind === "avoid"
+                  ? "Avoid taking these together"
+                  : `Keep at least ${conflict.minutesApart} minutes apart`}
+              </p>
+              <p className="text-xs text-muted-foreground">{conflict.reason}</p>
+            </div>
+          ))}
+        </div>
+
+        {current?.autoFix && resolution === null && (
+          <div className="space-y-2 rounded-md bg-muted/50 p-3" data-testid="section-auto-fix">
+            <h4 className="text-sm font-medium flex items-center gap-1">
+              <Wand2 className="h-4 w-4" />
+              Suggested fix
+            </h4>
+            {current.autoFix.map((change) => (
+              <div key={`${change.pill.type}-${change.pill.id}-${change.slotId}`} className="flex items-center gap-2 text-sm flex-wrap">
+                <span className="font-medium">{change.name}</span>
+                <span className="text-muted-foreground">{formatSlot(change.from)}</span>
+                <ArrowRight className="h-3.5 w-3.5 text-muted-foreground" />
+                <span className="font-medium">{formatSlot(change.to)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {resolution === "choose" && (
+          <div className="space-y-3">
+            {clashingSlots.map((slot, index) => (
+              <div key={slot.id} className="space-y-1">
+                <Label htmlFor={`conflict-time-${slot.id}`}>
+                  New time for {pill?.name}
+                  {clashingSlots.length > 1 && ` (dose ${index + 1})`}
+                </Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    id={`conflict-time-${slot.id}`}
+                    type="time"
+                    value={times[slot.id] ?? ""}
+                    onChange={(e) => setTimes({ ...times, [slot.id]: e.target.value })}
+                    className="w-36"
+                    data-testid={`input-conflict-time-${slot.id}`}
+                  />
+                  {times[slot.id] && (
+                    <span className="text-sm text-muted-foreground">{blockLabel(blockForTime(times[slot.id]))}</span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {resolution === "together" && (
+          <div className="space-y-3">
+            <label className="flex items-start gap-2 text-sm cursor-pointer">
+              <Checkbox
+                checked={confirmed}
+                onCheckedChange={(checked) => setConfirmed(checked === true)}
+                className="mt-0.5"
+                data-testid="checkbox-confirm-together"
+              />
+              <span>
+                I take these together on purpose
+                {hasAvoid && " and understand the interaction risk (e.g. my doctor prescribed it this way)"}.
+              </span>
+            </label>
+            <Textarea
+              placeholder="Optional note, e.g. who advised it"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              data-testid="input-together-note"
+            />
+          </div>
+        )}
+
+        <DialogFooter className="flex-col gap-2 sm:flex-row">
+          {resolution === null ? (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => setResolution("together")}
+                data-testid="button-resolve-together"
+              >
+                Taking together on purpose
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setResolution("choose")}
+                data-testid="button-resolve-choose"
+              >
+                <Clock className="h-4 w-4 mr-2" />
+                Choose a time
+              </Button>
+              {current?.autoFix && (
+                <Button
+                  onClick={() => autoFixMutation.mutate(current)}
+                  disabled={isPending}
+                  data-testid="button-resolve-auto-fix"
+                >
+                  <Wand2 className="h-4 w-4 mr-2" />
+                  Auto-fix
+                </Button>
+              )}
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => setResolution(null)} disabled={isPending}>
+                Back
+              </Button>
+              {resolution === "choose" ? (
+                <Button
+                  onClick={() => current && pill && rescheduleMutation.mutate({ r: current, item: pill })}
+                  disabled={isPending || clashingSlots.some((slot) => !times[slot.id])}
+                  data-testid="button-save-conflict-time"
+                >
+                  {rescheduleMutation.isPending ? "Saving..." : "Save times"}
+                </Button>
+              ) : (
+                <Button
+                  onClick={() => current && togetherMutation.mutate(current)}
+                  disabled={isPending || !confirmed}
+                  data-testid="button-confirm-together"
+                >
+                  {togetherMutation.isPending ? "Saving..." : "Confirm"}
+                </Button>
+              )}
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
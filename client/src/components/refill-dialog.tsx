@@ -0,0 +1,189 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { Medication, PillDose, PillRefill, PillType, Supplement } from "@shared/schema";
+import { daysOfSupply, needsRefill, settledDoseCount } from "@shared/pill-schedule";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Package } from "lucide-react";
+
+const today = () => new Date().toLocaleDateString("en-CA");
+
+/**
+ * "32 left · 16 days", amber once the pill is below its refill threshold. Renders nothing for
+ * pills whose inventory isn't tracked.
+ */
+export function SupplyBadge({
+  pillType,
+  item,
+  testId,
+}: {
+  pillType: PillType;
+  item: Medication | Supplement;
+  testId: string;
+}) {
+  // Today's doses already taken (or skipped) don't need pills any more
+  const { data: todaysDoses = [] } = useQuery<PillDose[]>({
+    queryKey: ["/api/pill-doses", today()],
+    queryFn: async () => {
+      const res = await fetch(`/api/pill-doses?date=${today()}`);
+      if (!res.ok) throw new Error("Failed to fetch doses");
+      return res.json();
+    },
+    enabled: item.pillsOnHand !== null,
+  });
+  if (item.pillsOnHand === null) return null;
+
+  const settled = settledDoseCount(todaysDoses, { type: pillType, id: item.id });
+  const supply = daysOfSupply(item, today(), settled);
+  const low = needsRefill(item, today(), settled);
+  return (
+    <Badge
+      variant="outline"
+      className={`gap-1 ${low ? "border-amber-500 text-amber-600 dark:text-amber-400" : ""}`}
+      data-testid={testId}
+    >
+      <Package className="h-3 w-3" />
+      {item.pillsOnHand} left
+      {supply && ` · ${supply.days} day${supply.days === 1 ? "" : "s"}`}
+    </Badge>
+  );
+}
+
+/**
+ * Record a restock of a medication or supplement, with its refill log.
+ */
+export function RefillDialog({
+  pillType,
+  item,
+  onClose,
+}: {
+  pillType: PillType;
+  item: Medication | Supplement | null; // open while set
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [quantity, setQuantity] = useState("");
+  const [note, setNote] = useState("");
+
+  useEffect(() => {
+    setQuantity("");
+    setNote("");
+  }, [item]);
+
+  const { data: refills = [] } = useQuery<PillRefill[]>({
+    queryKey: ["/api/pill-refills", pillType, item?.id],
+    queryFn: async () => {
+      const res = await fetch(`/api/pill-refills?pillType=${pillType}&pillId=${item!.id}`);
+      if (!res.ok) throw new Error("Failed to fetch refills");
+      return res.json();
+    },
+    enabled: item !== null,
+  });
+
+  const refillMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/pill-refills", {
+        pill: { type: pillType, id: item!.id },
+        quantity: parseInt(quantity, 10),
+        note: note.trim() || undefined,
+      });
+      return res.json() as Promise<PillRefill>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [pillType === "medication" ? "/api/medications" : "/api/supplements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pill-refills"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
+      toast({ title: "Refill recorded" });
+      onClose();
+    },
+    onError: () => {
+      toast({
+        title: "Refill failed",
+        description: "Could not record the refill. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const count = parseInt(quantity, 10);
+  const valid = !Number.isNaN(count) && count >= 1;
+
+  return (
+    <Dialog open={item !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Refill {item?.name}</DialogTitle>
+          <DialogDescription>
+            {item?.pillsOnHand === null
+              ? "Inventory isn't tracked yet; this refill starts the count."
+              : `${item?.pillsOnHand} pills on hand.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="refill-quantity">Pills added</Label>
+            <Input
+              id="refill-quantity"
+              type="number"
+              min={1}
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              data-testid="input-refill-quantity"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="refill-note">Note</Label>
+            <Input
+              id="refill-note"
+              placeholder="Optional, e.g. pharmacy"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              data-testid="input-refill-note"
+            />
+          </div>
+        </div>
+
+        {refills.length > 0 && (
+          <div className="space-y-1" data-testid="list-refill-log">
+            <h4 className="text-sm font-medium">Refill log</h4>
+            {refills.map((refill) => (
+              <div key={refill.id} className="flex justify-between gap-2 text-sm text-muted-foreground">
+                <span>
+                  {new Date(refill.createdAt).toLocaleDateString()}
+                  {refill.note && ` · ${refill.note}`}
+                </span>
+                <span>+{refill.quantity}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => refillMutation.mutate()}
+            disabled={!valid || refillMutation.isPending}
+            data-testid="button-save-refill"
+          >
+            {refillMutation.isPending ? "Saving..." : "Add to inventory"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
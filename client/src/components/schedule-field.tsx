@@ -0,0 +1,161 @@
+import type { PillSchedule, PillScheduleKind } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const scheduleKinds: { id: PillScheduleKind; label: string }[] = [
+  { id: "daily", label: "Every day" },
+  { id: "weekdays", label: "Specific days of the week" },
+  { id: "interval", label: "Every few days" },
+  { id: "cyclic", label: "Cycle (days on / days off)" },
+  { id: "as_needed", label: "As needed" },
+];
+
+// Monday first, as in the planner; values are Date.getDay() numbers
+const weekdays = [
+  { day: 1, label: "Mon" },
+  { day: 2, label: "Tue" },
+  { day: 3, label: "Wed" },
+  { day: 4, label: "Thu" },
+  { day: 5, label: "Fri" },
+  { day: 6, label: "Sat" },
+  { day: 0, label: "Sun" },
+];
+
+const today = () => new Date().toLocaleDateString("en-CA");
+
+/**
+ * A schedule of the given kind, keeping whatever carries over from the current one.
+ */
+function withKind(current: PillSchedule, kind: PillScheduleKind): PillSchedule {
+  const startDate = current.kind === "interval" || current.kind === "cyclic" ? current.startDate : today();
+  switch (kind) {
+    case "daily":
+      return { kind };
+    case "weekdays":
+      return { kind, days: current.kind === "weekdays" ? current.days : [1, 3, 5] };
+    case "interval":
+      return { kind, everyDays: 2, startDate };
+    case "cyclic":
+      return { kind, onDays: 5, offDays: 2, startDate };
+    case "as_needed":
+      return { kind };
+  }
+}
+
+/**
+ * Parse a day count input, falling back to the previous value while the field is being edited.
+ */
+function dayCount(input: string, previous: number): number {
+  const value = parseInt(input, 10);
+  return Number.isNaN(value) || value < 1 ? previous : value;
+}
+
+/**
+ * Editor for which days a medication or supplement is taken, used inside their forms.
+ */
+export function ScheduleField({
+  value,
+  onChange,
+  testIdPrefix,
+}: {
+  value: PillSchedule;
+  onChange: (schedule: PillSchedule) => void;
+  testIdPrefix: string;
+}) {
+  return (
+    <div className="space-y-3">
+      <Select value={value.kind} onValueChange={(kind) => onChange(withKind(value, kind as PillScheduleKind))}>
+        <SelectTrigger data-testid={`select-${testIdPrefix}-schedule-kind`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {scheduleKinds.map((kind) => (
+            <SelectItem key={kind.id} value={kind.id}>
+              {kind.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {value.kind === "weekdays" && (
+        <div className="flex flex-wrap gap-1">
+          {weekdays.map(({ day, label }) => {
+            const selected = value.days.includes(day);
+            return (
+              <Button
+                key={day}
+                type="button"
+                size="sm"
+                variant={selected ? "default" : "outline"}
+                onClick={() => {
+                  const days = selected ? value.days.filter((d) => d !== day) : [...value.days, day];
+                  if (days.length > 0) onChange({ ...value, days });
+                }}
+                data-testid={`button-${testIdPrefix}-weekday-${label.toLowerCase()}`}
+              >
+                {label}
+              </Button>
+            );
+          })}
+        </div>
+      )}
+
+      {(value.kind === "interval" || value.kind === "cyclic") && (
+        <div className="grid gap-3 sm:grid-cols-3">
+          {value.kind === "interval" ? (
+            <div className="space-y-1">
+              <Label className="text-xs">Every (days)</Label>
+              <Input
+                type="number"
+                min={2}
+                value={value.everyDays}
+                onChange={(e) => onChange({ ...value, everyDays: Math.max(2, dayCount(e.target.value, value.everyDays)) })}
+                data-testid={`input-${testIdPrefix}-every-days`}
+              />
+            </div>
+          ) : (
+            <>
+              <div className="space-y-1">
+                <Label className="text-xs">Days on</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={value.onDays}
+                  onChange={(e) => onChange({ ...value, onDays: dayCount(e.target.value, value.onDays) })}
+                  data-testid={`input-${testIdPrefix}-on-days`}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Days off</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={value.offDays}
+                  onChange={(e) => onChange({ ...value, offDays: dayCount(e.target.value, value.offDays) })}
+                  data-testid={`input-${testIdPrefix}-off-days`}
+                />
+              </div>
+            </>
+          )}
+          <div className="space-y-1">
+            <Label className="text-xs">Starting</Label>
+            <Input
+              type="date"
+              value={value.startDate}
+              onChange={(e) => e.target.value && onChange({ ...value, startDate: e.target.value })}
+              data-testid={`input-${testIdPrefix}-start-date`}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
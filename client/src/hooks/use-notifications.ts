@@ -0,0 +1,62 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { NotificationLogEntry } from "@shared/schema";
+import { usePush } from "@/hooks/use-push";
+
+// The last log entry this browser has seen; shared by its tabs, so only one of them shows each
+const CURSOR_KEY = "lab2life-notifications-seen";
+
+// How often open tabs check the log
+const POLL_MS = 30 * 1000;
+
+// Entries older than this (a laptop waking up, a tab opened later) are marked seen without showing
+const STALE_MS = 5 * 60 * 1000;
+
+const readCursor = () => {
+  const value = Number.parseInt(localStorage.getItem(CURSOR_KEY) ?? "", 10);
+  return Number.isNaN(value) ? undefined : value;
+};
+
+/**
+ * Show the server's pill and reminder notifications while the app is open. The server scheduler
+ * decides what is due and logs each notification once; this only displays new log entries.
+ */
+export function useNotifications() {
+  // With push on, the service worker shows them instead (with Taken/Snooze buttons)
+  const { subscribed } = usePush();
+
+  const { data: entries } = useQuery<NotificationLogEntry[]>({
+    queryKey: ["/api/notifications"],
+    queryFn: async () => {
+      const cursor = readCursor();
+      const res = await fetch(cursor === undefined ? "/api/notifications" : `/api/notifications?after=${cursor}`);
+      if (!res.ok) throw new Error("Failed to fetch notifications");
+      return res.json();
+    },
+    refetchInterval: POLL_MS,
+  });
+
+  useEffect(() => {
+    if ("Notification" in window && Notification.permission === "default") {
+      Notification.requestPermission();
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!entries || entries.length === 0) return;
+
+    // Another tab may have shown these already
+    const cursor = readCursor() ?? 0;
+    const unseen = entries.filter((entry) => entry.id > cursor);
+    if (unseen.length === 0) return;
+    localStorage.setItem(CURSOR_KEY, String(unseen[unseen.length - 1].id));
+
+    if (subscribed || !("Notification" in window) || Notification.permission !== "granted") return;
+    unseen
+      .filter((entry) => Date.now() - new Date(entry.dueAt).getTime() < STALE_MS)
+      .forEach((entry) => {
+        // The tag makes a second tab racing this one replace the notification rather than repeat it
+        new Notification(entry.title, { body: entry.body, tag: entry.idempotencyKey });
+      });
+  }, [entries, subscribed]);
+}
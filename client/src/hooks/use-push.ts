@@ -0,0 +1,107 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import type { PushStatus } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+const SUBSCRIPTION_KEY = ["push-subscription"];
+
+const pushSupported = () => "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+
+// The VAPID public key arrives base64url-encoded; PushManager.subscribe wants the raw bytes
+function urlBase64ToUint8Array(base64: string): Uint8Array {
+  const padded = (base64 + "=".repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(padded), (c) => c.charCodeAt(0));
+}
+
+async function currentSubscription(): Promise<PushSubscription | null> {
+  if (!pushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration();
+  return (await registration?.pushManager.getSubscription()) ?? null;
+}
+
+/**
+ * Register the service worker that shows push notifications (client/public/sw.js).
+ */
+export function registerServiceWorker() {
+  if (!("serviceWorker" in navigator)) return;
+  navigator.serviceWorker.register("/sw.js").catch((error) => {
+    console.error("Error registering service worker:", error);
+  });
+}
+
+/**
+ * Unsubscribe this browser and clear the notifications it is showing, for logging out: the next
+ * person on the device mustn't get this user's notifications.
+ *
+ * @returns The endpoint it was subscribed with, for the server to delete (even if unsubscribing
+ *   failed); undefined if it wasn't subscribed.
+ */
+export async function unsubscribeFromPush(): Promise<string | undefined> {
+  const subscription = await currentSubscription();
+  if (!subscription) return undefined;
+
+  try {
+    const registration = await navigator.serviceWorker.getRegistration();
+    (await registration?.getNotifications())?.forEach((notification) => notification.close());
+    await subscription.unsubscribe();
+  } catch (error) {
+    // The server still deletes the subscription, so the push service has nowhere to deliver
+    console.error("Error unsubscribing from push notifications:", error);
+  }
+  return subscription.endpoint;
+}
+
+/**
+ * Push notifications for this browser: whether the server and browser support them, whether
+ * this browser is subscribed, and turning them on or off.
+ */
+export function usePush() {
+  const queryClient = useQueryClient();
+  const supported = pushSupported();
+
+  const { data: config } = useQuery<PushStatus>({ queryKey: ["/api/push/config"] });
+  const { data: subscribed = false } = useQuery({
+    queryKey: SUBSCRIPTION_KEY,
+    queryFn: async () => (await currentSubscription()) !== null,
+  });
+
+  /**
+   * Ask for permission, subscribe this browser and save the subscription on the server.
+   * @throws Error if permission is denied or push isn't configured.
+   */
+  const enable = async () => {
+    if (!config?.enabled || !config.publicKey) throw new Error("Push notifications aren't set up on this server");
+    if ((await Notification.requestPermission()) !== "granted") {
+      throw new Error("Notifications are blocked for this site in your browser settings");
+    }
+
+    const registration = await navigator.serviceWorker.ready;
+    const subscription =
+      (await registration.pushManager.getSubscription()) ??
+      (await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(config.publicKey),
+      }));
+    await apiRequest("POST", "/api/push/subscriptions", subscription.toJSON());
+    queryClient.setQueryData(SUBSCRIPTION_KEY, true);
+  };
+
+  /**
+   * Unsubscribe this browser and forget the subscription on the server.
+   */
+  const disable = async () => {
+    const subscription = await currentSubscription();
+    if (subscription) {
+      await apiRequest("DELETE", "/api/push/subscriptions", { endpoint: subscription.endpoint });
+      await subscription.unsubscribe();
+    }
+    queryClient.setQueryData(SUBSCRIPTION_KEY, false);
+  };
+
+  return {
+    supported,
+    configured: config?.enabled ?? false,
+    subscribed,
+    enable,
+    disable,
+  };
+}
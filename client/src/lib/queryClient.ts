@@ -1,5 +1,16 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+export const LOGIN_PATH = "/login";
+
+/**
+ * Send the browser to the login page (no-op if we're already there).
+ */
+function redirectToLogin() {
+  if (window.location.pathname !== LOGIN_PATH) {
+    window.location.assign(LOGIN_PATH);
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
@@ -20,11 +31,33 @@ export async function apiRequest(
     cache: "no-store", 
   });
 
+  // A 401 from /api/auth/* is a wrong password, not an expired session.
+  if (res.status === 401 && !url.startsWith("/api/auth/")) {
+    redirectToLogin();
+  }
+
   await throwIfResNotOk(res);
   return res;
 }
 
-type UnauthorizedBehavior = "returnNull" | "throw";
+/**
+ * Pull a readable message out of an apiRequest error ("401: {"error":"..."}").
+ *
+ * @param error - Error thrown by apiRequest.
+ * @param fallback - Message to use when the body has no string error.
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (!(error instanceof Error)) return fallback;
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    const parsed = JSON.parse(body) as { error?: unknown };
+    return typeof parsed.error === "string" ? parsed.error : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+type UnauthorizedBehavior = "returnNull" | "throw" | "redirect";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
@@ -39,6 +72,10 @@ export const getQueryFn: <T>(options: {
         return null;
     }
 
+    if (unauthorizedBehavior === "redirect" && res.status === 401) {
+      redirectToLogin();
+    }
+
     await throwIfResNotOk(res);
     return await res.json();
   };
@@ -46,7 +83,7 @@ export const getQueryFn: <T>(options: {
 export const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
-      queryFn: getQueryFn({ on401: "throw" }),
+      queryFn: getQueryFn({ on401: "redirect" }),
       refetchInterval: false,
       refetchOnWindowFocus: true, 
       staleTime: 0,               
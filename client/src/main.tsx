@@ -1,5 +1,8 @@
 import { createRoot } from "react-dom/client";
 import App from "./App";
+import { registerServiceWorker } from "./hooks/use-push";
 import "./index.css";
 
 createRoot(document.getElementById("root")!).render(<App />);
+
+registerServiceWorker();
@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useLocation } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage, queryClient } from "@/lib/queryClient";
+import { Pill, LogIn, UserPlus } from "lucide-react";
+import { loginSchema, signupSchema, type PublicUser } from "@shared/schema";
+
+type LoginFormValues = z.infer<typeof loginSchema>;
+type SignupFormValues = z.infer<typeof signupSchema>;
+
+function LoginForm({ onAuthenticated }: { onAuthenticated: (user: PublicUser) => void }) {
+  const { toast } = useToast();
+  const form = useForm<LoginFormValues>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (values: LoginFormValues) => {
+      const res = await apiRequest("POST", "/api/auth/login", values);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: onAuthenticated,
+    onError: (error) => {
+      toast({
+        title: "Login failed",
+        description: getErrorMessage(error, "Please check your username and password."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((values) => loginMutation.mutate(values))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username</FormLabel>
+              <FormControl>
+                <Input autoComplete="username" {...field} data-testid="input-login-username" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input
+                  type="password"
+                  autoComplete="current-password"
+                  {...field}
+                  data-testid="input-login-password"
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={loginMutation.isPending} data-testid="button-login">
+          <LogIn className="h-4 w-4 mr-2" />
+          {loginMutation.isPending ? "Signing in..." : "Sign In"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+function SignupForm({ onAuthenticated }: { onAuthenticated: (user: PublicUser) => void }) {
+  const { toast } = useToast();
+  const form = useForm<SignupFormValues>({
+    resolver: zodResolver(signupSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  const signupMutation = useMutation({
+    mutationFn: async (values: SignupFormValues) => {
+      const res = await apiRequest("POST", "/api/auth/signup", values);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: onAuthenticated,
+    onError: (error) => {
+      toast({
+        title: "Sign up failed",
+        description: getErrorMessage(error, "Could not create your account. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((values) => signupMutation.mutate(values))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username</FormLabel>
+              <FormControl>
+                <Input autoComplete="username" {...field} data-testid="input-signup-username" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input
+                  type="password"
+                  autoComplete="new-password"
+                  {...field}
+                  data-testid="input-signup-password"
+                />
+              </FormControl>
+              <FormDescription>At least 8 characters</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={signupMutation.isPending} data-testid="button-signup">
+          <UserPlus className="h-4 w-4 mr-2" />
+          {signupMutation.isPending ? "Creating account..." : "Create Account"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export default function AuthPage() {
+  const [, setLocation] = useLocation();
+  const [tab, setTab] = useState<"login" | "signup">("login");
+
+  const handleAuthenticated = (user: PublicUser) => {
+    // Drop anything cached for a previous session before loading this user's data.
+    queryClient.clear();
+    queryClient.setQueryData(["/api/me"], user);
+    setLocation("/");
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-muted/30 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2 flex h-12 w-12 items-center justify-center rounded-md bg-primary">
+            <Pill className="h-6 w-6 text-primary-foreground" />
+          </div>
+          <CardTitle data-testid="text-auth-title">Lab2Life</CardTitle>
+          <CardDescription>Sign in to manage your health data</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs value={tab} onValueChange={(v) => setTab(v as "login" | "signup")}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="login" data-testid="tab-login">Sign In</TabsTrigger>
+              <TabsTrigger value="signup" data-testid="tab-signup">Create Account</TabsTrigger>
+            </TabsList>
+            <TabsContent value="login" className="mt-4">
+              <LoginForm onAuthenticated={handleAuthenticated} />
+            </TabsContent>
+            <TabsContent value="signup" className="mt-4">
+              <SignupForm onAuthenticated={handleAuthenticated} />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
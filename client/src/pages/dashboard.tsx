@@ -18,7 +18,8 @@ import {
   Clock,
   Calendar,
 } from "lucide-react";
-import type { LabResult, HealthMarker, Medication, Supplement, Recommendation, Reminder } from "@shared/schema";
+import { AdherenceCard } from "@/components/adherence";
+import type { LabResult, NormalizedHealthMarker, Medication, Supplement, Recommendation, Reminder } from "@shared/schema";
 
 function StatCard({
   title,
@@ -76,7 +77,7 @@ function MarkerStatusBadge({ status }: { status: string }) {
   return <Badge variant={config.variant}>{config.label}</Badge>;
 }
 
-function RecentMarkersCard({ markers }: { markers: HealthMarker[] }) {
+function RecentMarkersCard({ markers }: { markers: NormalizedHealthMarker[] }) {
   const abnormalMarkers = markers.filter((m) => m.status !== "normal").slice(0, 5);
   
   if (abnormalMarkers.length === 0) {
@@ -121,9 +122,9 @@ function RecentMarkersCard({ markers }: { markers: HealthMarker[] }) {
                   <MarkerStatusBadge status={marker.status} />
                 </div>
                 <p className="text-sm text-muted-foreground">
-                  {marker.value} {marker.unit} 
+                  {marker.displayValue} {marker.displayUnit}
                   <span className="ml-1 text-xs">
-                    (normal: {marker.normalMin}-{marker.normalMax} {marker.unit})
+                    (normal: {marker.displayNormalMin}-{marker.displayNormalMax} {marker.displayUnit})
                   </span>
                 </p>
               </div>
@@ -288,7 +289,7 @@ export default function Dashboard() {
     queryKey: ["/api/lab-results"],
   });
 
-  const { data: markers, isLoading: loadingMarkers } = useQuery<HealthMarker[]>({
+  const { data: markers, isLoading: loadingMarkers } = useQuery<NormalizedHealthMarker[]>({
     queryKey: ["/api/health-markers"],
   });
 
@@ -308,7 +309,7 @@ export default function Dashboard() {
     queryKey: ["/api/reminders"],
   });
 
-  const { data: interactions, isLoading: loadingInteractions } = useQuery<{ id: number }[]>({
+  const { data: interactions, isLoading: loadingInteractions } = useQuery<{ id: number; status: string }[]>({
     queryKey: ["/api/interactions"],
   });
 
@@ -317,6 +318,8 @@ export default function Dashboard() {
   const activeMeds = medications?.filter((m) => m.active) || [];
   const activeSupps = supplements?.filter((s) => s.active) || [];
   const abnormalMarkers = markers?.filter((m) => m.status !== "normal") || [];
+  // Dismissed and resolved interactions don't need attention
+  const openInteractions = interactions?.filter((i) => i.status === "new" || i.status === "acknowledged") || [];
 
   if (isLoading) {
     return (
@@ -373,14 +376,16 @@ export default function Dashboard() {
         />
         <StatCard
           title="Interactions"
-          value={interactions?.length || 0}
-          description={interactions?.length ? "Potential conflicts" : "No conflicts found"}
+          value={openInteractions.length}
+          description={openInteractions.length ? "Potential conflicts" : "No conflicts found"}
           icon={AlertTriangle}
-          trend={interactions?.length ? "down" : "neutral"}
+          trend={openInteractions.length ? "down" : "neutral"}
           href="/interactions"
         />
       </div>
 
+      <AdherenceCard />
+
       <div className="grid gap-6 lg:grid-cols-2">
         <RecentMarkersCard markers={markers || []} />
         <RecommendationsPreview recommendations={recommendations || []} />
@@ -1,9 +1,20 @@
+import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AiDisabledNotice } from "@/components/ai-disabled-notice";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import {
@@ -14,12 +25,27 @@ import {
   RefreshCw,
   Pill,
   Apple,
-  ArrowRight,
+  Plus,
   ShieldCheck,
   Stethoscope,
+  BookOpen,
+  Sparkles,
+  Clock,
+  Eye,
+  Handshake,
+  RotateCcw,
+  MessageSquare,
 } from "lucide-react";
 import { Link } from "wouter";
-import type { Interaction, Medication, Supplement } from "@shared/schema";
+import type {
+  Interaction,
+  InteractionCheckResult,
+  InteractionPairKind,
+  InteractionStatus,
+  Medication,
+  PillType,
+  Supplement,
+} from "@shared/schema";
 
 const severityConfig: Record<string, { icon: React.ElementType; color: string; bgColor: string; label: string }> = {
   severe: {
@@ -42,15 +68,75 @@ const severityConfig: Record<string, { icon: React.ElementType; color: string; b
   },
 };
 
+/**
+ * "4 hours", "90 minutes", "30 minutes".
+ */
+function formatSeparation(minutes: number): string {
+  if (minutes >= 60 && minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} hour${hours === 1 ? "" : "s"}`;
+  }
+  return `${minutes} minutes`;
+}
+
+const severityOrder: Record<string, number> = { severe: 0, moderate: 1, mild: 2 };
+
+const pairKindConfig: Record<InteractionPairKind, { title: string; description: string }> = {
+  "medication-supplement": {
+    title: "Medication + Supplement",
+    description: "A supplement that affects one of your medications",
+  },
+  "medication-medication": {
+    title: "Medication + Medication",
+    description: "Two of your medications that interact with each other",
+  },
+  "supplement-supplement": {
+    title: "Supplement + Supplement",
+    description: "Two of your supplements that interact with each other",
+  },
+};
+
+const statusConfig: Record<InteractionStatus, { label: string; action: string; icon: React.ElementType }> = {
+  new: { label: "New", action: "Mark as new", icon: AlertCircle },
+  acknowledged: { label: "Acknowledged", action: "Acknowledge", icon: Eye },
+  dismissed: { label: "Taking together on purpose", action: "Taking together on purpose", icon: Handshake },
+  resolved: { label: "Resolved", action: "Mark resolved", icon: CheckCircle },
+};
+
+// What the user can move an interaction to from each status
+const statusActions: Record<InteractionStatus, InteractionStatus[]> = {
+  new: ["acknowledged", "dismissed", "resolved"],
+  acknowledged: ["dismissed", "resolved"],
+  dismissed: ["acknowledged"],
+  resolved: ["acknowledged"],
+};
+
+// Dismissed and resolved interactions no longer need attention
+const isHandled = (interaction: Interaction) =>
+  interaction.status === "dismissed" || interaction.status === "resolved";
+
+function PillChip({ type, name }: { type: PillType; name?: string }) {
+  const Icon = type === "medication" ? Pill : Apple;
+  return (
+    <div className="flex items-center gap-2 rounded-md bg-muted px-3 py-2">
+      <Icon className={`h-4 w-4 ${type === "medication" ? "text-primary" : "text-green-600 dark:text-green-400"}`} />
+      <span className="font-medium">{name || (type === "medication" ? "Unknown Medication" : "Unknown Supplement")}</span>
+    </div>
+  );
+}
+
 function InteractionCard({
   interaction,
-  medication,
-  supplement,
+  getPillName,
+  onChangeStatus,
 }: {
   interaction: Interaction;
-  medication?: Medication;
-  supplement?: Supplement;
+  getPillName: (type: PillType, id: number) => string | undefined;
+  onChangeStatus: (status: InteractionStatus) => void;
 }) {
+  const pillAType = interaction.pillAType as PillType;
+  const pillBType = interaction.pillBType as PillType;
+  const status = (interaction.status in statusConfig ? interaction.status : "new") as InteractionStatus;
   const config = severityConfig[interaction.severity] || severityConfig.mild;
   const SeverityIcon = config.icon;
 
@@ -73,19 +159,24 @@ function InteractionCard({
               {config.label} Interaction
             </Badge>
           </div>
+          {interaction.source === "curated" ? (
+            <Badge variant="outline" className="gap-1" data-testid={`badge-interaction-source-${interaction.id}`}>
+              <BookOpen className="h-3 w-3" />
+              Curated rule
+            </Badge>
+          ) : (
+            <Badge variant="outline" className="gap-1" data-testid={`badge-interaction-source-${interaction.id}`}>
+              <Sparkles className="h-3 w-3" />
+              AI finding
+            </Badge>
+          )}
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
-        <div className="flex items-center gap-3">
-          <div className="flex items-center gap-2 rounded-md bg-muted px-3 py-2">
-            <Pill className="h-4 w-4 text-primary" />
-            <span className="font-medium">{medication?.name || "Unknown Medication"}</span>
-          </div>
-          <ArrowRight className="h-4 w-4 text-muted-foreground" />
-          <div className="flex items-center gap-2 rounded-md bg-muted px-3 py-2">
-            <Apple className="h-4 w-4 text-green-600 dark:text-green-400" />
-            <span className="font-medium">{supplement?.name || "Unknown Supplement"}</span>
-          </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <PillChip type={pillAType} name={getPillName(pillAType, interaction.pillAId)} />
+          <Plus className="h-4 w-4 text-muted-foreground" />
+          <PillChip type={pillBType} name={getPillName(pillBType, interaction.pillBId)} />
         </div>
 
         <div>
@@ -101,14 +192,176 @@ function InteractionCard({
             <div>
               <h4 className="text-sm font-medium mb-1">Recommendation:</h4>
               <p className="text-sm text-muted-foreground">{interaction.recommendation}</p>
+              {interaction.separationMinutes != null && interaction.separationMinutes > 0 && (
+                <p className="mt-2 flex items-center gap-1 text-sm font-medium">
+                  <Clock className="h-3.5 w-3.5" />
+                  Keep at least {formatSeparation(interaction.separationMinutes)} apart
+                </p>
+              )}
             </div>
           </div>
         </div>
+
+        {interaction.citation && (
+          <p className="text-xs text-muted-foreground" data-testid={`text-interaction-citation-${interaction.id}`}>
+            Source: {interaction.citation}
+          </p>
+        )}
+        <p className="text-xs text-muted-foreground" data-testid={`text-interaction-seen-${interaction.id}`}>
+          First found {new Date(interaction.firstSeenAt).toLocaleDateString()}
+          {" · "}last confirmed {new Date(interaction.lastConfirmedAt).toLocaleDateString()}
+        </p>
+
+        <Separator />
+
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Badge variant={status === "new" ? "default" : "secondary"} data-testid={`badge-interaction-status-${interaction.id}`}>
+              {statusConfig[status].label}
+            </Badge>
+            {interaction.statusChangedAt && (
+              <span className="text-xs text-muted-foreground">
+                since {new Date(interaction.statusChangedAt).toLocaleDateString()}
+              </span>
+            )}
+          </div>
+          {interaction.statusNote && (
+            <p className="flex items-start gap-2 text-sm text-muted-foreground" data-testid={`text-interaction-note-${interaction.id}`}>
+              <MessageSquare className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              {interaction.statusNote}
+            </p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {statusActions[status].map((next) => {
+              const ActionIcon = isHandled(interaction) ? RotateCcw : statusConfig[next].icon;
+              return (
+                <Button
+                  key={next}
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onChangeStatus(next)}
+                  data-testid={`button-interaction-${next}-${interaction.id}`}
+                >
+                  <ActionIcon className="h-4 w-4 mr-1" />
+                  {isHandled(interaction) ? "Reopen" : statusConfig[next].action}
+                </Button>
+              );
+            })}
+          </div>
+        </div>
       </CardContent>
     </Card>
   );
 }
 
+const statusDialogText: Record<InteractionStatus, { title: string; description: string; placeholder: string }> = {
+  new: {
+    title: "Mark as new",
+    description: "The interaction will be flagged again.",
+    placeholder: "Optional note",
+  },
+  acknowledged: {
+    title: "Acknowledge interaction",
+    description: "You've seen this warning. It stays flagged in your planner until you dismiss or resolve it.",
+    placeholder: "e.g. Will ask my pharmacist at the next refill",
+  },
+  dismissed: {
+    title: "Taking together on purpose",
+    description:
+      "Your planner will stop flagging this combination. Only do this if your doctor or pharmacist has approved it.",
+    placeholder: "e.g. Dr. Lee okayed this on my last visit",
+  },
+  resolved: {
+    title: "Mark resolved",
+    description: "This interaction no longer applies to you, for example because your doses were changed.",
+    placeholder: "e.g. Moved iron to the evening",
+  },
+};
+
+function InteractionStatusDialog({
+  pending,
+  onClose,
+}: {
+  pending: { interaction: Interaction; status: InteractionStatus } | null;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [note, setNote] = useState("");
+
+  // Each status change gets its own note
+  useEffect(() => {
+    if (pending) setNote("");
+  }, [pending]);
+
+  const statusMutation = useMutation({
+    mutationFn: async (update: { id: number; status: InteractionStatus; note: string | null }) => {
+      const res = await apiRequest("PATCH", `/api/interactions/${update.id}/status`, {
+        status: update.status,
+        note: update.note,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/interactions"] });
+      // Dismissing changes which pills the planner allows together
+      queryClient.invalidateQueries({ queryKey: ["/api/medications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/supplements"] });
+      onClose();
+    },
+    onError: () => {
+      toast({
+        title: "Update failed",
+        description: "Could not update the interaction. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const text = pending ? statusDialogText[pending.status] : null;
+
+  return (
+    <Dialog
+      open={pending !== null}
+      onOpenChange={(open) => {
+        if (!open) onClose();
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{text?.title}</DialogTitle>
+          <DialogDescription>{text?.description}</DialogDescription>
+        </DialogHeader>
+        <Textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder={text?.placeholder}
+          maxLength={500}
+          data-testid="input-interaction-note"
+        />
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            disabled={statusMutation.isPending}
+            onClick={() =>
+              pending &&
+              statusMutation.mutate({
+                id: pending.interaction.id,
+                status: pending.status,
+                note: note.trim() || null,
+              })
+            }
+            data-testid="button-save-interaction-status"
+          >
+            {statusMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 function NoInteractionsState() {
   return (
     <Card>
@@ -175,6 +428,9 @@ function EmptyListsState() {
 
 export default function Interactions() {
   const { toast } = useToast();
+  const [pendingStatus, setPendingStatus] = useState<{ interaction: Interaction; status: InteractionStatus } | null>(
+    null,
+  );
 
   const { data: interactions, isLoading: loadingInteractions } = useQuery<Interaction[]>({
     queryKey: ["/api/interactions"],
@@ -189,14 +445,25 @@ export default function Interactions() {
   });
 
   const checkMutation = useMutation({
-    mutationFn: async () => {
-      return apiRequest("POST", "/api/interactions/check");
+    mutationFn: async (): Promise<InteractionCheckResult> => {
+      const res = await apiRequest("POST", "/api/interactions/check");
+      return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ["/api/interactions"] });
+      if (result.ai === "failed") {
+        toast({
+          title: "Partially checked",
+          description: `${result.aiError ?? "The AI check failed"}. Curated rules were checked; earlier AI findings are kept.`,
+        });
+        return;
+      }
       toast({
         title: "Check complete",
-        description: "Interaction check has been updated.",
+        description:
+          result.pairsChecked > 0
+            ? `Checked ${result.pairsChecked} new or changed combination${result.pairsChecked === 1 ? "" : "s"}.`
+            : "Nothing changed since the last check.",
       });
     },
     onError: () => {
@@ -233,14 +500,34 @@ export default function Interactions() {
   const activeSupps = supplements?.filter((s) => s.active) || [];
   const hasItems = activeMeds.length > 0 || activeSupps.length > 0;
 
-  const getMedication = (id: number | null) =>
-    medications?.find((m) => m.id === id);
-  const getSupplement = (id: number | null) =>
-    supplements?.find((s) => s.id === id);
+  const getPillName = (type: PillType, id: number) =>
+    type === "medication"
+      ? medications?.find((m) => m.id === id)?.name
+      : supplements?.find((s) => s.id === id)?.name;
+
+  const bySeverity = (a: Interaction, b: Interaction) =>
+    (severityOrder[a.severity] ?? 3) - (severityOrder[b.severity] ?? 3);
+  const openInteractions = (interactions ?? []).filter((i) => !isHandled(i));
+  const handledInteractions = (interactions ?? []).filter(isHandled).sort(bySeverity);
 
-  const severeInteractions = interactions?.filter((i) => i.severity === "severe") || [];
-  const moderateInteractions = interactions?.filter((i) => i.severity === "moderate") || [];
-  const mildInteractions = interactions?.filter((i) => i.severity === "mild") || [];
+  const severityCount = (severity: string) => openInteractions.filter((i) => i.severity === severity).length;
+
+  // Grouped by which kinds of pill interact, most severe first within each group
+  const groups = (Object.keys(pairKindConfig) as InteractionPairKind[])
+    .map((kind) => ({
+      kind,
+      interactions: openInteractions.filter((i) => `${i.pillAType}-${i.pillBType}` === kind).sort(bySeverity),
+    }))
+    .filter((group) => group.interactions.length > 0);
+
+  const renderCard = (interaction: Interaction) => (
+    <InteractionCard
+      key={interaction.id}
+      interaction={interaction}
+      getPillName={getPillName}
+      onChangeStatus={(status) => setPendingStatus({ interaction, status })}
+    />
+  );
 
   return (
     <div className="space-y-6">
@@ -250,7 +537,7 @@ export default function Interactions() {
             Interaction Checker
           </h1>
           <p className="text-muted-foreground">
-            Check for potential conflicts between medications and supplements
+            Check for potential conflicts between any of your medications and supplements
           </p>
         </div>
         {hasItems && (
@@ -265,66 +552,47 @@ export default function Interactions() {
         )}
       </div>
 
+      <AiDisabledNotice>
+        Only the built-in interaction rules are checked. Combinations they don't cover won't be flagged.
+      </AiDisabledNotice>
+
       {!hasItems ? (
         <EmptyListsState />
       ) : interactions && interactions.length === 0 ? (
         <NoInteractionsState />
       ) : (
         <div className="space-y-6">
-          {severeInteractions.length > 0 && (
-            <div>
-              <h2 className="text-lg font-semibold mb-4 text-red-600 dark:text-red-400 flex items-center gap-2">
-                <AlertTriangle className="h-5 w-5" />
-                Severe Interactions ({severeInteractions.length})
-              </h2>
-              <div className="space-y-4">
-                {severeInteractions.map((interaction) => (
-                  <InteractionCard
-                    key={interaction.id}
-                    interaction={interaction}
-                    medication={getMedication(interaction.medicationId)}
-                    supplement={getSupplement(interaction.supplementId)}
-                  />
-                ))}
-              </div>
-            </div>
-          )}
+          <div className="flex flex-wrap gap-2" data-testid="text-interaction-severity-summary">
+            {(["severe", "moderate", "mild"] as const)
+              .filter((severity) => severityCount(severity) > 0)
+              .map((severity) => (
+                <Badge
+                  key={severity}
+                  variant="secondary"
+                  className={`${severityConfig[severity].bgColor} ${severityConfig[severity].color}`}
+                >
+                  {severityCount(severity)} {severityConfig[severity].label}
+                </Badge>
+              ))}
+          </div>
 
-          {moderateInteractions.length > 0 && (
-            <div>
-              <h2 className="text-lg font-semibold mb-4 text-amber-600 dark:text-amber-400 flex items-center gap-2">
-                <AlertCircle className="h-5 w-5" />
-                Moderate Interactions ({moderateInteractions.length})
+          {groups.map((group) => (
+            <div key={group.kind} data-testid={`section-interactions-${group.kind}`}>
+              <h2 className="text-lg font-semibold">
+                {pairKindConfig[group.kind].title} ({group.interactions.length})
               </h2>
-              <div className="space-y-4">
-                {moderateInteractions.map((interaction) => (
-                  <InteractionCard
-                    key={interaction.id}
-                    interaction={interaction}
-                    medication={getMedication(interaction.medicationId)}
-                    supplement={getSupplement(interaction.supplementId)}
-                  />
-                ))}
-              </div>
+              <p className="text-sm text-muted-foreground mb-4">{pairKindConfig[group.kind].description}</p>
+              <div className="space-y-4">{group.interactions.map(renderCard)}</div>
             </div>
-          )}
+          ))}
 
-          {mildInteractions.length > 0 && (
-            <div>
-              <h2 className="text-lg font-semibold mb-4 text-blue-600 dark:text-blue-400 flex items-center gap-2">
-                <Info className="h-5 w-5" />
-                Mild Interactions ({mildInteractions.length})
-              </h2>
-              <div className="space-y-4">
-                {mildInteractions.map((interaction) => (
-                  <InteractionCard
-                    key={interaction.id}
-                    interaction={interaction}
-                    medication={getMedication(interaction.medicationId)}
-                    supplement={getSupplement(interaction.supplementId)}
-                  />
-                ))}
-              </div>
+          {handledInteractions.length > 0 && (
+            <div data-testid="section-interactions-handled">
+              <h2 className="text-lg font-semibold">Dismissed &amp; Resolved ({handledInteractions.length})</h2>
+              <p className="text-sm text-muted-foreground mb-4">
+                Combinations you take on purpose or that no longer apply. They stay here across checks.
+              </p>
+              <div className="space-y-4">{handledInteractions.map(renderCard)}</div>
             </div>
           )}
 
@@ -338,6 +606,8 @@ export default function Interactions() {
           </Card>
         </div>
       )}
+
+      <InteractionStatusDialog pending={pendingStatus} onClose={() => setPendingStatus(null)} />
     </div>
   );
 }
@@ -1,5 +1,8 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useMemo } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -18,6 +21,23 @@ import {
   DialogTrigger,
   DialogFooter,
 } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { MarkerTrends } from "@/components/marker-trends";
+import { AiDisabledNotice } from "@/components/ai-disabled-notice";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import {
@@ -33,26 +53,54 @@ import {
   Trash2,
   Eye,
   Plus,
+  ClipboardPen,
+  X,
+  RotateCcw,
+  Clock,
 } from "lucide-react";
-import type { LabResult, HealthMarker } from "@shared/schema";
+import {
+  markerCategories,
+  labResultActiveStatuses,
+  type LabResult,
+  type HealthMarker,
+  type ManualLabResult,
+  type MarkerCategory,
+  type MarkerDefinition,
+  type MarkerReviewItem,
+  type NormalizedHealthMarker,
+} from "@shared/schema";
 
 function StatusBadge({ status }: { status: string }) {
-  const config: Record<string, { variant: "default" | "secondary" | "destructive" | "outline"; icon: React.ElementType }> = {
-    processing: { variant: "secondary", icon: Loader2 },
-    completed: { variant: "default", icon: CheckCircle },
-    error: { variant: "destructive", icon: XCircle },
+  const config: Record<
+    string,
+    { variant: "default" | "secondary" | "destructive" | "outline"; icon: React.ElementType; label: string }
+  > = {
+    queued: { variant: "outline", icon: Clock, label: "Queued" },
+    parsing: { variant: "secondary", icon: Loader2, label: "Reading file" },
+    extracting: { variant: "secondary", icon: Loader2, label: "Extracting markers" },
+    saving: { variant: "secondary", icon: Loader2, label: "Saving" },
+    processing: { variant: "secondary", icon: Loader2, label: "Processing" },
+    completed: { variant: "default", icon: CheckCircle, label: "Completed" },
+    error: { variant: "destructive", icon: XCircle, label: "Error" },
   };
-  const { variant, icon: Icon } = config[status] || config.processing;
-  
+  const { variant, icon: Icon, label } = config[status] || config.processing;
+
   return (
-    <Badge variant={variant} className="gap-1">
-      <Icon className={`h-3 w-3 ${status === "processing" ? "animate-spin" : ""}`} />
-      <span className="capitalize">{status}</span>
+    <Badge variant={variant} className="gap-1" data-testid={`badge-lab-status-${status}`}>
+      <Icon className={`h-3 w-3 ${Icon === Loader2 ? "animate-spin" : ""}`} />
+      <span>{label}</span>
     </Badge>
   );
 }
 
-function MarkerCard({ marker }: { marker: HealthMarker }) {
+/**
+ * True while a lab result is waiting for or going through background processing.
+ */
+function isInProgress(status: string): boolean {
+  return (labResultActiveStatuses as readonly string[]).includes(status);
+}
+
+function MarkerCard({ marker }: { marker: NormalizedHealthMarker }) {
   const getStatusColor = (status: string) => {
     switch (status) {
       case "low":
@@ -76,9 +124,11 @@ function MarkerCard({ marker }: { marker: HealthMarker }) {
   };
 
   const StatusIcon = getStatusIcon(marker.status);
-  const normalMin = Number(marker.normalMin);
-  const normalMax = Number(marker.normalMax);
-  const value = Number(marker.value);
+  // display* values are already converted to the user's preferred unit system by the API.
+  const normalMin = Number(marker.displayNormalMin);
+  const normalMax = Number(marker.displayNormalMax);
+  const value = Number(marker.displayValue);
+  const isConverted = marker.displayUnit !== marker.unit;
   
   const range = normalMax - normalMin;
   const position = range > 0 ? Math.min(100, Math.max(0, ((value - normalMin + range * 0.25) / (range * 1.5)) * 100)) : 50;
@@ -97,8 +147,13 @@ function MarkerCard({ marker }: { marker: HealthMarker }) {
       
       <div className="space-y-2">
         <div className="flex items-baseline gap-1">
-          <span className="text-2xl font-bold">{marker.value}</span>
-          <span className="text-sm text-muted-foreground">{marker.unit}</span>
+          <span className="text-2xl font-bold">{marker.displayValue}</span>
+          <span className="text-sm text-muted-foreground">{marker.displayUnit}</span>
+          {isConverted && (
+            <span className="ml-auto text-xs text-muted-foreground">
+              Reported: {Number(marker.value)} {marker.unit}
+            </span>
+          )}
         </div>
         
         <div className="relative h-2 bg-muted rounded-full overflow-hidden">
@@ -112,23 +167,46 @@ function MarkerCard({ marker }: { marker: HealthMarker }) {
         </div>
         
         <div className="flex justify-between text-xs text-muted-foreground">
-          <span>{normalMin} {marker.unit}</span>
+          <span>{normalMin} {marker.displayUnit}</span>
           <span className="text-center">Normal Range</span>
-          <span>{normalMax} {marker.unit}</span>
+          <span>{normalMax} {marker.displayUnit}</span>
         </div>
       </div>
     </div>
   );
 }
 
+/**
+ * Refetch every open trend chart (history keys carry the marker in the query string).
+ */
+function invalidateMarkerHistory() {
+  queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith("/api/health-markers/history"),
+  });
+}
+
+/**
+ * Date shown for a lab result: the collection date when known, otherwise the upload date.
+ */
+function formatResultDate(result: LabResult): string {
+  // collectionDate is a plain YYYY-MM-DD; parse as local midnight so it doesn't shift a day.
+  return result.collectionDate
+    ? new Date(`${result.collectionDate}T00:00:00`).toLocaleDateString()
+    : new Date(result.uploadDate).toLocaleDateString();
+}
+
 function LabResultCard({
   result,
   markers,
   onDelete,
+  onRetry,
+  isRetrying,
 }: {
   result: LabResult;
-  markers: HealthMarker[];
+  markers: NormalizedHealthMarker[];
   onDelete: (id: number) => void;
+  onRetry: (id: number) => void;
+  isRetrying: boolean;
 }) {
   const [showDetails, setShowDetails] = useState(false);
   const resultMarkers = markers.filter((m) => m.labResultId === result.id);
@@ -140,13 +218,20 @@ function LabResultCard({
         <CardHeader className="flex flex-row items-start justify-between gap-4">
           <div className="flex items-start gap-3">
             <div className="rounded-md bg-primary/10 p-2">
-              <FileText className="h-5 w-5 text-primary" />
+              {result.source === "manual" ? (
+                <ClipboardPen className="h-5 w-5 text-primary" />
+              ) : (
+                <FileText className="h-5 w-5 text-primary" />
+              )}
             </div>
             <div>
               <CardTitle className="text-base">{result.fileName}</CardTitle>
               <CardDescription className="flex items-center gap-2 mt-1">
                 <Calendar className="h-3 w-3" />
-                {new Date(result.uploadDate).toLocaleDateString()}
+                {formatResultDate(result)}
+                {result.source === "manual" && (
+                  <Badge variant="outline" className="text-xs">Manual entry</Badge>
+                )}
               </CardDescription>
             </div>
           </div>
@@ -166,6 +251,18 @@ function LabResultCard({
               )}
             </div>
             <div className="flex gap-2">
+              {result.status === "error" && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onRetry(result.id)}
+                  disabled={isRetrying}
+                  data-testid={`button-retry-result-${result.id}`}
+                >
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Retry
+                </Button>
+              )}
               <Button
                 variant="outline"
                 size="sm"
@@ -186,6 +283,15 @@ function LabResultCard({
               </Button>
             </div>
           </div>
+          {result.processingError && result.status !== "completed" && (
+            <p
+              className={`mt-3 text-xs ${result.status === "error" ? "text-destructive" : "text-muted-foreground"}`}
+              data-testid={`text-processing-error-${result.id}`}
+            >
+              {result.status === "error" ? "Processing failed: " : "Retrying after an error: "}
+              {result.processingError}
+            </p>
+          )}
         </CardContent>
       </Card>
 
@@ -194,7 +300,7 @@ function LabResultCard({
           <DialogHeader>
             <DialogTitle>{result.fileName}</DialogTitle>
             <DialogDescription>
-              Uploaded on {new Date(result.uploadDate).toLocaleDateString()}
+              {result.collectionDate ? "Collected" : "Uploaded"} on {formatResultDate(result)}
             </DialogDescription>
           </DialogHeader>
           
@@ -243,7 +349,458 @@ function LabResultCard({
   );
 }
 
-function UploadSection() {
+type MarkerSuggestion = {
+  name: string;
+  unit: string;
+  normalMin: string;
+  normalMax: string;
+  category: MarkerCategory;
+};
+
+/**
+ * Build the autocomplete list: the user's own past markers (with their lab's reference range)
+ * take precedence over the registry, which only supplies a unit and category.
+ *
+ * @param definitions - Canonical marker registry from the server.
+ * @param markers - The user's existing health markers.
+ * @returns Suggestions keyed by lower-cased name.
+ */
+function buildMarkerSuggestions(definitions: MarkerDefinition[], markers: HealthMarker[]): Map<string, MarkerSuggestion> {
+  const suggestions = new Map<string, MarkerSuggestion>();
+
+  for (const definition of definitions) {
+    suggestions.set(definition.displayName.toLowerCase(), {
+      name: definition.displayName,
+      unit: definition.defaultUnit,
+      normalMin: "",
+      normalMax: "",
+      category: definition.category,
+    });
+  }
+
+  // Markers come back oldest-first per lab result; later entries overwrite earlier ones.
+  for (const marker of markers) {
+    const category = (markerCategories as readonly string[]).includes(marker.category)
+      ? (marker.category as MarkerCategory)
+      : "other";
+    suggestions.set(marker.name.toLowerCase(), {
+      name: marker.name,
+      unit: marker.unit ?? "",
+      normalMin: marker.normalMin != null ? String(Number(marker.normalMin)) : "",
+      normalMax: marker.normalMax != null ? String(Number(marker.normalMax)) : "",
+      category,
+    });
+  }
+
+  return suggestions;
+}
+
+const optionalNumberString = z
+  .string()
+  .trim()
+  .refine((v) => v === "" || Number.isFinite(Number(v)), "Enter a number");
+
+// Form values stay strings so empty inputs are representable; converted on submit.
+const manualEntryFormSchema = z.object({
+  title: z.string().trim().max(200),
+  collectionDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Pick a date"),
+  markers: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1, "Required"),
+        value: optionalNumberString.refine((v) => v !== "", "Required"),
+        unit: z.string().trim().max(32),
+        normalMin: optionalNumberString,
+        normalMax: optionalNumberString,
+        category: z.enum(markerCategories),
+      }),
+    )
+    .min(1, "Add at least one marker"),
+});
+
+type ManualEntryFormValues = z.infer<typeof manualEntryFormSchema>;
+
+const emptyMarkerRow: ManualEntryFormValues["markers"][number] = {
+  name: "",
+  value: "",
+  unit: "",
+  normalMin: "",
+  normalMax: "",
+  category: "other",
+};
+
+/**
+ * Convert form strings into the API payload.
+ */
+function toManualLabResult(values: ManualEntryFormValues): ManualLabResult {
+  const toNumberOrNull = (v: string) => (v.trim() === "" ? null : Number(v));
+  return {
+    title: values.title || undefined,
+    collectionDate: values.collectionDate,
+    markers: values.markers.map((m) => ({
+      name: m.name,
+      value: Number(m.value),
+      unit: m.unit || null,
+      normalMin: toNumberOrNull(m.normalMin),
+      normalMax: toNumberOrNull(m.normalMax),
+      category: m.category,
+    })),
+  };
+}
+
+function ManualEntryDialog({ markers }: { markers: HealthMarker[] }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const { data: definitions } = useQuery<MarkerDefinition[]>({
+    queryKey: ["/api/marker-definitions"],
+    staleTime: Infinity,
+  });
+  const suggestions = useMemo(() => buildMarkerSuggestions(definitions ?? [], markers), [definitions, markers]);
+
+  const form = useForm<ManualEntryFormValues>({
+    resolver: zodResolver(manualEntryFormSchema),
+    defaultValues: {
+      title: "",
+      collectionDate: new Date().toLocaleDateString("en-CA"), // YYYY-MM-DD in local time
+      markers: [emptyMarkerRow],
+    },
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "markers" });
+
+  const createMutation = useMutation({
+    mutationFn: async (values: ManualEntryFormValues) => {
+      const res = await apiRequest("POST", "/api/lab-results/manual", toManualLabResult(values));
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/lab-results"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/health-markers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/recommendations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/health-markers/review"] });
+      invalidateMarkerHistory();
+      setOpen(false);
+      form.reset();
+      toast({
+        title: "Results saved",
+        description: "Your markers were saved. Recommendations are being generated.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Save failed",
+        description: "There was an error saving your results. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  /**
+   * When the typed name matches a suggestion, fill in the fields the user hasn't touched yet.
+   */
+  const applySuggestion = (index: number, name: string) => {
+    const suggestion = suggestions.get(name.trim().toLowerCase());
+    if (!suggestion) return;
+
+    const row = form.getValues(`markers.${index}`);
+    if (!row.unit) form.setValue(`markers.${index}.unit`, suggestion.unit);
+    if (!row.normalMin) form.setValue(`markers.${index}.normalMin`, suggestion.normalMin);
+    if (!row.normalMax) form.setValue(`markers.${index}.normalMax`, suggestion.normalMax);
+    if (row.category === "other") form.setValue(`markers.${index}.category`, suggestion.category);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="button-manual-entry">
+          <ClipboardPen className="h-4 w-4 mr-2" />
+          Enter Manually
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Enter Lab Results</DialogTitle>
+          <DialogDescription>
+            Type in values from a paper report or patient portal. Status is calculated from the reference range.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => createMutation.mutate(values))} className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="title"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Title (optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Annual checkup" {...field} data-testid="input-manual-title" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="collectionDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Collection Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} data-testid="input-manual-collection-date" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <datalist id="manual-marker-suggestions">
+              {Array.from(suggestions.values()).map((s) => (
+                <option key={s.name} value={s.name} />
+              ))}
+            </datalist>
+
+            <div className="space-y-3">
+              {fields.map((row, index) => (
+                <div key={row.id} className="rounded-md border p-3 space-y-3" data-testid={`row-manual-marker-${index}`}>
+                  <div className="flex items-start gap-2">
+                    <FormField
+                      control={form.control}
+                      name={`markers.${index}.name`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormLabel>Marker</FormLabel>
+                          <FormControl>
+                            <Input
+                              list="manual-marker-suggestions"
+                              placeholder="e.g., Vitamin D"
+                              autoComplete="off"
+                              {...field}
+                              onChange={(e) => {
+                                field.onChange(e);
+                                applySuggestion(index, e.target.value);
+                              }}
+                              data-testid={`input-manual-marker-name-${index}`}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`markers.${index}.category`}
+                      render={({ field }) => (
+                        <FormItem className="w-36">
+                          <FormLabel>Category</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger data-testid={`select-manual-marker-category-${index}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {markerCategories.map((c) => (
+                                <SelectItem key={c} value={c} className="capitalize">
+                                  {c}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="mt-8"
+                      onClick={() => remove(index)}
+                      disabled={fields.length === 1}
+                      data-testid={`button-remove-manual-marker-${index}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  <div className="grid gap-3 grid-cols-2 sm:grid-cols-4">
+                    <FormField
+                      control={form.control}
+                      name={`markers.${index}.value`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Value</FormLabel>
+                          <FormControl>
+                            <Input inputMode="decimal" {...field} data-testid={`input-manual-marker-value-${index}`} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`markers.${index}.unit`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Unit</FormLabel>
+                          <FormControl>
+                            <Input placeholder="e.g., ng/mL" {...field} data-testid={`input-manual-marker-unit-${index}`} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`markers.${index}.normalMin`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Range Min</FormLabel>
+                          <FormControl>
+                            <Input inputMode="decimal" {...field} data-testid={`input-manual-marker-min-${index}`} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`markers.${index}.normalMax`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Range Max</FormLabel>
+                          <FormControl>
+                            <Input inputMode="decimal" {...field} data-testid={`input-manual-marker-max-${index}`} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => append(emptyMarkerRow)}
+              data-testid="button-add-manual-marker"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Marker
+            </Button>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createMutation.isPending} data-testid="button-save-manual-entry">
+                {createMutation.isPending ? "Saving..." : "Save Results"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function MarkerReviewRow({ item, definitions }: { item: MarkerReviewItem; definitions: MarkerDefinition[] }) {
+  const { toast } = useToast();
+  const [canonicalCode, setCanonicalCode] = useState("");
+
+  const mapMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/health-markers/review", { name: item.name, canonicalCode });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/health-markers/review"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/health-markers"] });
+      invalidateMarkerHistory();
+      const definition = definitions.find((d) => d.code === canonicalCode);
+      toast({
+        title: "Marker mapped",
+        description: `"${item.name}" will be recognised as ${definition?.displayName ?? canonicalCode} from now on.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Mapping failed",
+        description: "Could not save the marker mapping. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 rounded-md border p-3">
+      <div>
+        <p className="font-medium">{item.name}</p>
+        <p className="text-xs text-muted-foreground">
+          Seen {item.occurrences} {item.occurrences === 1 ? "time" : "times"}
+        </p>
+      </div>
+      <div className="flex items-center gap-2">
+        <Select value={canonicalCode} onValueChange={setCanonicalCode}>
+          <SelectTrigger className="w-56" data-testid={`select-review-marker-${item.name}`}>
+            <SelectValue placeholder="Same test as..." />
+          </SelectTrigger>
+          <SelectContent>
+            {definitions.map((d) => (
+              <SelectItem key={d.code} value={d.code}>
+                {d.displayName}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size="sm"
+          onClick={() => mapMutation.mutate()}
+          disabled={!canonicalCode || mapMutation.isPending}
+          data-testid={`button-review-marker-${item.name}`}
+        >
+          Map
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function MarkerReviewSection({ isProcessing }: { isProcessing: boolean }) {
+  const { data: items } = useQuery<MarkerReviewItem[]>({
+    queryKey: ["/api/health-markers/review"],
+    // New uploads can add unrecognised names while they process.
+    refetchInterval: isProcessing ? 2000 : false,
+  });
+  const { data: definitions } = useQuery<MarkerDefinition[]>({
+    queryKey: ["/api/marker-definitions"],
+    staleTime: Infinity,
+  });
+
+  if (!items || items.length === 0 || !definitions) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Markers Needing Review</CardTitle>
+        <CardDescription>
+          These names weren't recognised, so they won't appear in trends. Tell us which test each one is.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {items.map((item) => (
+          <MarkerReviewRow key={item.name} item={item} definitions={definitions} />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function UploadSection({ markers }: { markers: HealthMarker[] }) {
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isUploading, setIsUploading] = useState(false);
@@ -340,21 +897,24 @@ function UploadSection() {
             <input
               ref={fileInputRef}
               type="file"
-              accept=".pdf,.png,.jpg,.jpeg"
+              accept=".pdf,.png,.jpg,.jpeg,.webp,.heic,.heif,application/pdf,image/*"
               onChange={handleFileChange}
               className="hidden"
               data-testid="input-file-upload"
             />
-            <Button
-              onClick={() => fileInputRef.current?.click()}
-              disabled={uploadMutation.isPending}
-              data-testid="button-upload-file"
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              Select File
-            </Button>
+            <div className="flex flex-wrap justify-center gap-2">
+              <Button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={uploadMutation.isPending}
+                data-testid="button-upload-file"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Select File
+              </Button>
+              <ManualEntryDialog markers={markers} />
+            </div>
             <p className="text-xs text-muted-foreground mt-2">
-              Supported formats: PDF, PNG, JPG
+              Supported formats: PDF, PNG, JPG, WebP, HEIC (photos are read with OCR)
             </p>
           </>
         )}
@@ -368,11 +928,13 @@ export default function LabResults() {
 
   const { data: labResults, isLoading: loadingResults } = useQuery<LabResult[]>({
     queryKey: ["/api/lab-results"],
+    // Keep polling until background processing finishes so the status badge updates.
+    refetchInterval: (query) => (query.state.data?.some((r) => isInProgress(r.status)) ? 2000 : false),
   });
 
-  const hasProcessing = (labResults ?? []).some((r) => r.status === "processing");
+  const hasProcessing = (labResults ?? []).some((r) => isInProgress(r.status));
 
-const { data: markers, isLoading: loadingMarkers } = useQuery<HealthMarker[]>({
+const { data: markers, isLoading: loadingMarkers } = useQuery<NormalizedHealthMarker[]>({
   queryKey: ["/api/health-markers"],
 
   
@@ -391,6 +953,8 @@ const { data: markers, isLoading: loadingMarkers } = useQuery<HealthMarker[]>({
       queryClient.invalidateQueries({ queryKey: ["/api/lab-results"] });
       queryClient.invalidateQueries({ queryKey: ["/api/health-markers"] });
       queryClient.invalidateQueries({ queryKey: ["/api/recommendations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/health-markers/review"] });
+      invalidateMarkerHistory();
       toast({
         title: "Deleted",
         description: "Lab result has been removed.",
@@ -398,6 +962,30 @@ const { data: markers, isLoading: loadingMarkers } = useQuery<HealthMarker[]>({
     },
   });
 
+  const retryMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/lab-results/${id}/reprocess`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/lab-results"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/health-markers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/recommendations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/health-markers/review"] });
+      invalidateMarkerHistory();
+      toast({
+        title: "Reprocessing",
+        description: "We're extracting your lab results again. This may take a moment.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Retry failed",
+        description: "Could not reprocess this lab result. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const isLoading = loadingResults || loadingMarkers;
 
   if (isLoading) {
@@ -424,11 +1012,20 @@ const { data: markers, isLoading: loadingMarkers } = useQuery<HealthMarker[]>({
           Lab Results
         </h1>
         <p className="text-muted-foreground">
-          Upload and analyze your bloodwork documents
+          Upload or enter your bloodwork and analyze the results
         </p>
       </div>
 
-      <UploadSection />
+      <AiDisabledNotice>
+        Uploaded reports can't be analyzed right now. You can still enter markers manually; they just
+        won't get recommendations.
+      </AiDisabledNotice>
+
+      <UploadSection markers={markers || []} />
+
+      <MarkerReviewSection isProcessing={hasProcessing} />
+
+      <MarkerTrends markers={markers || []} />
 
       {labResults && labResults.length > 0 && (
         <div>
@@ -440,6 +1037,8 @@ const { data: markers, isLoading: loadingMarkers } = useQuery<HealthMarker[]>({
                 result={result}
                 markers={markers || []}
                 onDelete={(id) => deleteMutation.mutate(id)}
+                onRetry={(id) => retryMutation.mutate(id)}
+                isRetrying={retryMutation.isPending && retryMutation.variables === result.id}
               />
             ))}
           </div>
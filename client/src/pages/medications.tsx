@@ -3,7 +3,16 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { insertMedicationSchema, type Medication } from "@shared/schema";
+import {
+  insertMedicationSchema,
+  pillScheduleSchema,
+  doseSlotsSchema,
+  pillCourseSchema,
+  defaultPillSchedule,
+  type Medication,
+  type PillConflictReport,
+} from "@shared/schema";
+import { describeCourse, describeSchedule, doseSlotsOf } from "@shared/pill-schedule";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -37,14 +46,23 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
+import { PillConflictDialog } from "@/components/pill-conflict-dialog";
+import { ScheduleField } from "@/components/schedule-field";
+import { DoseSlotsField } from "@/components/dose-slots-field";
+import { CourseField } from "@/components/course-field";
+import { CourseHistory } from "@/components/course-history";
+import { RefillDialog, SupplyBadge } from "@/components/refill-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Pill, Plus, Edit, Trash2, Clock, Utensils } from "lucide-react";
+import { Pill, Plus, Edit, Trash2, Clock, Utensils, PackagePlus } from "lucide-react";
 
 const medicationFormSchema = insertMedicationSchema.extend({
   name: z.string().min(1, "Name is required"),
   dosage: z.string().min(1, "Dosage is required"),
-  frequency: z.string().min(1, "Frequency is required"),
+  schedule: pillScheduleSchema,
+  doseSlots: doseSlotsSchema,
+}).superRefine((values, ctx) => {
+  pillCourseSchema.safeParse(values).error?.issues.forEach((issue) => ctx.addIssue(issue));
 });
 
 type MedicationFormValues = z.infer<typeof medicationFormSchema>;
@@ -54,12 +72,16 @@ function MedicationCard({
   onEdit,
   onDelete,
   onToggleActive,
+  onRefill,
 }: {
   medication: Medication;
   onEdit: () => void;
   onDelete: () => void;
   onToggleActive: () => void;
+  onRefill: () => void;
 }) {
+  const course = describeCourse(medication, new Date().toLocaleDateString("en-CA"));
+
   return (
     <Card className={`hover-elevate ${!medication.active ? "opacity-60" : ""}`}>
       <CardHeader className="flex flex-row items-start justify-between gap-4 pb-3">
@@ -84,8 +106,14 @@ function MedicationCard({
         <div className="flex flex-wrap gap-2 mb-3">
           <Badge variant="secondary" className="gap-1">
             <Clock className="h-3 w-3" />
-            {medication.frequency}
+            {describeSchedule(medication.schedule, doseSlotsOf(medication).length)}
           </Badge>
+          {course && (
+            <Badge variant="outline" data-testid={`badge-medication-course-${medication.id}`}>
+              {course}
+            </Badge>
+          )}
+          <SupplyBadge pillType="medication" item={medication} testId={`badge-medication-supply-${medication.id}`} />
           {medication.timeOfDay && (
             <Badge variant="outline" className="capitalize">
               {medication.timeOfDay}
@@ -102,6 +130,15 @@ function MedicationCard({
           <p className="text-sm text-muted-foreground mb-3">{medication.notes}</p>
         )}
         <div className="flex justify-end gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onRefill}
+            data-testid={`button-refill-medication-${medication.id}`}
+          >
+            <PackagePlus className="h-4 w-4 mr-1" />
+            Refill
+          </Button>
           <Button
             variant="ghost"
             size="sm"
@@ -142,9 +179,16 @@ function MedicationForm({
     defaultValues: {
       name: medication?.name || "",
       dosage: medication?.dosage || "",
-      frequency: medication?.frequency || "",
+      schedule: medication?.schedule ?? defaultPillSchedule,
+      doseSlots: medication ? doseSlotsOf(medication) : [{ id: "1", timeBlock: "morning", scheduledTime: null, amount: null, foodRule: null }],
+      courseStartDate: medication?.courseStartDate ?? null,
+      courseEndDate: medication?.courseEndDate ?? null,
+      pillsOnHand: medication?.pillsOnHand ?? null,
+      pillsPerDose: medication?.pillsPerDose ?? 1,
+      refillThresholdDays: medication?.refillThresholdDays ?? 7,
       timeOfDay: medication?.timeOfDay || "",
       withFood: medication?.withFood || false,
+      fixedTiming: medication?.fixedTiming ?? true,
       notes: medication?.notes || "",
       active: medication?.active ?? true,
     },
@@ -181,36 +225,65 @@ function MedicationForm({
               </FormItem>
             )}
           />
-
-          <FormField
-            control={form.control}
-            name="frequency"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Frequency</FormLabel>
-                <Select onValueChange={field.onChange} value={field.value}>
-                  <FormControl>
-                    <SelectTrigger data-testid="select-medication-frequency">
-                      <SelectValue placeholder="Select frequency" />
-                    </SelectTrigger>
-                  </FormControl>
-                  <SelectContent>
-                    <SelectItem value="Once daily">Once daily</SelectItem>
-                    <SelectItem value="Twice daily">Twice daily</SelectItem>
-                    <SelectItem value="Three times daily">Three times daily</SelectItem>
-                    <SelectItem value="Every 4 hours">Every 4 hours</SelectItem>
-                    <SelectItem value="Every 6 hours">Every 6 hours</SelectItem>
-                    <SelectItem value="Every 8 hours">Every 8 hours</SelectItem>
-                    <SelectItem value="As needed">As needed</SelectItem>
-                    <SelectItem value="Weekly">Weekly</SelectItem>
-                  </SelectContent>
-                </Select>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
         </div>
 
+        <FormField
+          control={form.control}
+          name="schedule"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Schedule</FormLabel>
+              <FormControl>
+                <ScheduleField value={field.value} onChange={field.onChange} testIdPrefix="medication" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="doseSlots"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Doses each day</FormLabel>
+              <FormControl>
+                <DoseSlotsField
+                  value={field.value}
+                  onChange={field.onChange}
+                  defaultAmount={form.watch("dosage")}
+                  testIdPrefix="medication"
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="courseEndDate"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Treatment course</FormLabel>
+              <FormControl>
+                <CourseField
+                  value={{ courseStartDate: form.watch("courseStartDate"), courseEndDate: field.value }}
+                  onChange={({ courseStartDate, courseEndDate }) => {
+                    form.setValue("courseStartDate", courseStartDate);
+                    field.onChange(courseEndDate);
+                  }}
+                  testIdPrefix="medication"
+                />
+              </FormControl>
+              <FormDescription>
+                Only scheduled within the course, and deactivated once it's over
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <FormField
           control={form.control}
           name="timeOfDay"
@@ -236,6 +309,67 @@ function MedicationForm({
           )}
         />
 
+        <div className="grid gap-4 sm:grid-cols-3">
+          <FormField
+            control={form.control}
+            name="pillsOnHand"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Pills on hand</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={0}
+                    placeholder="Not tracked"
+                    value={field.value ?? ""}
+                    onChange={(e) => field.onChange(e.target.value === "" ? null : Number(e.target.value))}
+                    data-testid="input-medication-pills-on-hand"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="pillsPerDose"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Pills per dose</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={field.value ?? 1}
+                    onChange={(e) => field.onChange(Number(e.target.value) || 1)}
+                    data-testid="input-medication-pills-per-dose"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="refillThresholdDays"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Refill at (days left)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={field.value ?? 7}
+                    onChange={(e) => field.onChange(Number(e.target.value) || 0)}
+                    data-testid="input-medication-refill-threshold"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
         <FormField
           control={form.control}
           name="withFood"
@@ -258,6 +392,28 @@ function MedicationForm({
           )}
         />
 
+        <FormField
+          control={form.control}
+          name="fixedTiming"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-md border p-3">
+              <div>
+                <FormLabel>Prescribed timing</FormLabel>
+                <FormDescription>
+                  Your doctor set when to take it, so the planner's auto-schedule never moves it
+                </FormDescription>
+              </div>
+              <FormControl>
+                <Switch
+                  checked={field.value ?? true}
+                  onCheckedChange={field.onChange}
+                  data-testid="switch-medication-fixed-timing"
+                />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
         <FormField
           control={form.control}
           name="notes"
@@ -294,6 +450,15 @@ export default function Medications() {
   const { toast } = useToast();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingMedication, setEditingMedication] = useState<Medication | undefined>();
+  const [conflict, setConflict] = useState<{ pill: Medication; report: PillConflictReport } | null>(null);
+  const [refilling, setRefilling] = useState<Medication | null>(null);
+
+  type SavedMedication = Medication & { conflictReport: PillConflictReport };
+  const showConflicts = (saved: SavedMedication) => {
+    if (saved.conflictReport.conflicts.length > 0) {
+      setConflict({ pill: saved, report: saved.conflictReport });
+    }
+  };
 
   const { data: medications, isLoading } = useQuery<Medication[]>({
     queryKey: ["/api/medications"],
@@ -301,26 +466,32 @@ export default function Medications() {
 
   const createMutation = useMutation({
     mutationFn: async (values: MedicationFormValues) => {
-      return apiRequest("POST", "/api/medications", values);
+      const res = await apiRequest("POST", "/api/medications", values);
+      return res.json() as Promise<SavedMedication>;
     },
-    onSuccess: () => {
+    onSuccess: (saved) => {
       queryClient.invalidateQueries({ queryKey: ["/api/medications"] });
       queryClient.invalidateQueries({ queryKey: ["/api/interactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] }); // refill reminders follow the count
       setIsDialogOpen(false);
       toast({ title: "Medication added successfully" });
+      showConflicts(saved);
     },
   });
 
   const updateMutation = useMutation({
     mutationFn: async ({ id, values }: { id: number; values: MedicationFormValues }) => {
-      return apiRequest("PATCH", `/api/medications/${id}`, values);
+      const res = await apiRequest("PATCH", `/api/medications/${id}`, values);
+      return res.json() as Promise<SavedMedication>;
     },
-    onSuccess: () => {
+    onSuccess: (saved) => {
       queryClient.invalidateQueries({ queryKey: ["/api/medications"] });
       queryClient.invalidateQueries({ queryKey: ["/api/interactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] }); // refill reminders follow the count
       setIsDialogOpen(false);
       setEditingMedication(undefined);
       toast({ title: "Medication updated successfully" });
+      showConflicts(saved);
     },
   });
 
@@ -331,6 +502,7 @@ export default function Medications() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/medications"] });
       queryClient.invalidateQueries({ queryKey: ["/api/interactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] }); // refill reminders follow the count
       toast({ title: "Medication deleted" });
     },
   });
@@ -420,6 +592,12 @@ export default function Medications() {
             />
           </DialogContent>
         </Dialog>
+        <PillConflictDialog
+          pill={conflict?.pill ?? null}
+          report={conflict?.report ?? null}
+          onClose={() => setConflict(null)}
+        />
+        <RefillDialog pillType="medication" item={refilling} onClose={() => setRefilling(null)} />
       </div>
 
       {medications && medications.length === 0 ? (
@@ -451,6 +629,7 @@ export default function Medications() {
                     onEdit={() => handleEdit(medication)}
                     onDelete={() => deleteMutation.mutate(medication.id)}
                     onToggleActive={() => handleToggleActive(medication)}
+                    onRefill={() => setRefilling(medication)}
                   />
                 ))}
               </div>
@@ -470,6 +649,7 @@ export default function Medications() {
                     onEdit={() => handleEdit(medication)}
                     onDelete={() => deleteMutation.mutate(medication.id)}
                     onToggleActive={() => handleToggleActive(medication)}
+                    onRefill={() => setRefilling(medication)}
                   />
                 ))}
               </div>
@@ -477,6 +657,8 @@ export default function Medications() {
           )}
         </>
       )}
+
+      <CourseHistory pillType="medication" />
     </div>
   );
 }
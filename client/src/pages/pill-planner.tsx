@@ -5,8 +5,24 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, getErrorMessage, queryClient } from "@/lib/queryClient";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   Pill,
   Apple,
@@ -22,9 +38,25 @@ import {
   AlertTriangle,
   Calendar,
   Layers,
+  Wand2,
+  ArrowRight,
+  Undo2,
+  X,
 } from "lucide-react";
-import type { Medication, Supplement, PillDose, PillStack } from "@shared/schema";
-import { usePillNotifications } from "@/hooks/use-pill-notifs";
+import { defaultSnoozeSettings, snoozeDurations } from "@shared/schema";
+import type {
+  Medication,
+  Supplement,
+  PillDose,
+  PublicUser,
+  SnoozeSettings,
+  PillStack,
+  SeparationRule,
+  AutoScheduleResult,
+  ScheduleChange,
+} from "@shared/schema";
+import { courseProgress, doseSlotsOf, isInCourse, isPillDueOn } from "@shared/pill-schedule";
+import { AdherenceInsights } from "@/components/adherence";
 
 const timeBlocks = [
   { id: "morning", label: "Morning", icon: Sun, time: "6:00 AM - 11:00 AM", color: "bg-amber-100 dark:bg-amber-900/30" },
@@ -54,31 +86,56 @@ function getWeekDates(startDate: Date): Date[] {
 interface PillItem {
   id: number;
   type: "medication" | "supplement";
+  slotId: string;
   name: string;
-  dosage: string;
+  dosage: string; // this dose's amount
   timeBlock: string;
+  scheduledTime: string | null;
   foodRule: string;
   whyTaking: string | null;
-  separationRules: any[];
+  separationRules: SeparationRule[]; // only the ones the user hasn't approved
+  course: ReturnType<typeof courseProgress>; // "Day 4 of 10", for pills on a treatment course
   doseId?: number;
   doseStatus?: string;
+  snoozedUntil?: string | null; // ISO time the dose's snooze runs out
+  snoozeCount?: number;
+}
+
+/**
+ * Separation rules still worth flagging: none if the user overrode the pill's conflicts, and none
+ * for pills they take together on purpose.
+ */
+function flaggedSeparationRules(item: Medication | Supplement): SeparationRule[] {
+  if (item.userOverride) return [];
+  const allowed = item.allowedTogetherWith || [];
+  return (item.separationRules || []).filter(
+    (rule) => !allowed.some((p) => p.type === rule.pillType && p.id === rule.pillId),
+  );
 }
 
 function PillCard({
   pill,
+  snoozeSettings,
   onTaken,
+  onUndo,
   onSnooze,
   isPending,
 }: {
   pill: PillItem;
+  snoozeSettings: SnoozeSettings;
   onTaken: () => void;
-  onSnooze: () => void;
+  onUndo: () => void;
+  onSnooze: (minutes: number) => void; // snoozes the pill's whole time block
   isPending: boolean;
 }) {
   const isMedication = pill.type === "medication";
   const hasSeparationWarning = pill.separationRules && pill.separationRules.length > 0;
   const isTaken = pill.doseStatus === "taken";
-  const isSnoozed = pill.doseStatus === "snoozed";
+  // Once a snooze runs out the dose is open again, until the missed-dose sweep gets to it
+  const isSnoozed =
+    pill.doseStatus === "snoozed" && !!pill.snoozedUntil && new Date(pill.snoozedUntil).getTime() > Date.now();
+  const snoozesLeft = snoozeSettings.maxCount - (pill.snoozeCount ?? 0);
+  const isMissed = pill.doseStatus === "missed";
 
   return (
     <Card 
@@ -103,6 +160,15 @@ function PillCard({
                 <Badge variant="secondary" className="text-xs">
                   {pill.dosage}
                 </Badge>
+                {pill.scheduledTime && (
+                  <span className="text-xs text-muted-foreground">{pill.scheduledTime}</span>
+                )}
+                {pill.course && (
+                  <Badge variant="outline" className="text-xs" data-testid={`badge-course-${pill.type}-${pill.id}`}>
+                    Day {pill.course.day}
+                    {pill.course.totalDays !== null && ` of ${pill.course.totalDays}`}
+                  </Badge>
+                )}
               </div>
               
               <div className="flex items-center gap-2 mt-1.5 flex-wrap">
@@ -136,26 +202,74 @@ function PillCard({
 
           <div className="flex items-center gap-2 flex-shrink-0">
             {isTaken ? (
-              <Badge className="bg-green-600 text-white gap-1">
-                <Check className="h-3 w-3" />
-                Taken
-              </Badge>
+              <>
+                <Badge className="bg-green-600 text-white gap-1">
+                  <Check className="h-3 w-3" />
+                  Taken
+                </Badge>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={onUndo}
+                  disabled={isPending}
+                  data-testid={`button-undo-${pill.type}-${pill.id}`}
+                >
+                  <Undo2 className="h-4 w-4" />
+                </Button>
+              </>
             ) : isSnoozed ? (
-              <Badge variant="secondary" className="gap-1">
+              <Badge variant="secondary" className="gap-1" data-testid={`badge-snoozed-${pill.type}-${pill.id}`}>
                 <Timer className="h-3 w-3" />
-                Snoozed · 10 min
+                Snoozed until{" "}
+                {new Date(pill.snoozedUntil!).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
               </Badge>
-            ) : (
+            ) : isMissed ? (
               <>
+                <Badge variant="outline" className="gap-1 border-destructive text-destructive">
+                  <X className="h-3 w-3" />
+                  Missed
+                </Badge>
                 <Button
                   size="sm"
                   variant="outline"
-                  onClick={onSnooze}
+                  onClick={onTaken}
                   disabled={isPending}
-                  data-testid={`button-snooze-${pill.type}-${pill.id}`}
+                  data-testid={`button-taken-late-${pill.type}-${pill.id}`}
                 >
-                  <Timer className="h-4 w-4" />
+                  <Check className="h-4 w-4 mr-1" />
+                  Took it
                 </Button>
+              </>
+            ) : (
+              <>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={isPending || snoozesLeft <= 0}
+                      title={snoozesLeft > 0 ? `Snooze (${snoozesLeft} left)` : "No snoozes left"}
+                      data-testid={`button-snooze-${pill.type}-${pill.id}`}
+                    >
+                      <Timer className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuLabel>
+                      Snooze {blockLabel(pill.timeBlock).toLowerCase()} · {snoozesLeft} left
+                    </DropdownMenuLabel>
+                    {snoozeDurations.map((minutes) => (
+                      <DropdownMenuItem
+                        key={minutes}
+                        onClick={() => onSnooze(minutes)}
+                        data-testid={`menu-snooze-${minutes}`}
+                      >
+                        {minutes < 60 ? `${minutes} minutes` : "1 hour"}
+                        {minutes === snoozeSettings.minutes && " (default)"}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
                 <Button
                   size="sm"
                   onClick={onTaken}
@@ -180,7 +294,9 @@ function DailyView({
   supplements,
   doses,
   onMarkTaken,
-  onMarkSnoozed,
+  onUndoTaken,
+  onSnoozeBlock,
+  snoozeSettings,
   isPending,
 }: {
   selectedDate: Date;
@@ -188,39 +304,49 @@ function DailyView({
   supplements: Supplement[];
   doses: PillDose[];
   onMarkTaken: (doseId: number) => void;
-  onMarkSnoozed: (doseId: number) => void;
+  onUndoTaken: (doseId: number) => void;
+  onSnoozeBlock: (timeBlock: string, minutes: number) => void;
+  snoozeSettings: SnoozeSettings;
   isPending: boolean;
 }) {
-  const pills: PillItem[] = [
-    ...medications.filter(m => m.active).map(m => ({
-      id: m.id,
-      type: "medication" as const,
-      name: m.name,
-      dosage: m.dosage,
-      timeBlock: m.timeBlock || "morning",
-      foodRule: m.foodRule || "either",
-      whyTaking: m.whyTaking,
-      separationRules: m.separationRules || [],
-      doseId: doses.find(d => d.pillType === "medication" && d.pillId === m.id)?.id,
-      doseStatus: doses.find(d => d.pillType === "medication" && d.pillId === m.id)?.status,
-    })),
-    ...supplements.filter(s => s.active).map(s => ({
-      id: s.id,
-      type: "supplement" as const,
-      name: s.name,
-      dosage: s.dosage,
-      timeBlock: s.timeBlock || "morning",
-      foodRule: s.foodRule || "either",
-      whyTaking: s.whyTaking,
-      separationRules: s.separationRules || [],
-      doseId: doses.find(d => d.pillType === "supplement" && d.pillId === s.id)?.id,
-      doseStatus: doses.find(d => d.pillType === "supplement" && d.pillId === s.id)?.status,
-    })),
+  const date = formatDate(selectedDate);
+  const active = [
+    ...medications.filter(m => m.active).map(m => ({ item: m as Medication | Supplement, type: "medication" as const })),
+    ...supplements.filter(s => s.active).map(s => ({ item: s as Medication | Supplement, type: "supplement" as const })),
   ];
 
+  // One card per dose slot: a pill taken twice a day shows up twice
+  const pills: PillItem[] = active
+    .filter(({ item }) => isPillDueOn(item, date))
+    .flatMap(({ item, type }) =>
+      doseSlotsOf(item).map(slot => {
+        const dose = doses.find(d => d.pillType === type && d.pillId === item.id && d.slotId === slot.id);
+        return {
+          id: item.id,
+          type,
+          slotId: slot.id,
+          name: item.name,
+          dosage: slot.amount || item.dosage,
+          timeBlock: dose?.scheduledTimeBlock ?? slot.timeBlock,
+          scheduledTime: slot.scheduledTime ?? null,
+          foodRule: slot.foodRule || item.foodRule || "either",
+          whyTaking: item.whyTaking,
+          separationRules: flaggedSeparationRules(item),
+          course: courseProgress(item, date),
+          doseId: dose?.id,
+          doseStatus: dose?.status,
+          snoozedUntil: dose?.snoozedUntil ? String(dose.snoozedUntil) : null,
+          snoozeCount: dose?.snoozeCount,
+        };
+      }),
+    );
+  const asNeeded = active.filter(({ item }) => item.schedule.kind === "as_needed" && isInCourse(item, date));
+
   const pillsByBlock = timeBlocks.map(block => ({
     ...block,
-    pills: pills.filter(p => p.timeBlock === block.id),
+    pills: pills
+      .filter(p => p.timeBlock === block.id)
+      .sort((a, b) => (a.scheduledTime ?? "").localeCompare(b.scheduledTime ?? "")),
   }));
 
   const totalPills = pills.length;
@@ -282,10 +408,12 @@ function DailyView({
             <div className="space-y-2 pl-2">
               {block.pills.map(pill => (
                 <PillCard
-                  key={`${pill.type}-${pill.id}`}
+                  key={`${pill.type}-${pill.id}-${pill.slotId}`}
                   pill={pill}
+                  snoozeSettings={snoozeSettings}
                   onTaken={() => pill.doseId && onMarkTaken(pill.doseId)}
-                  onSnooze={() => pill.doseId && onMarkSnoozed(pill.doseId)}
+                  onUndo={() => pill.doseId && onUndoTaken(pill.doseId)}
+                  onSnooze={(minutes) => onSnoozeBlock(pill.timeBlock, minutes)}
                   isPending={isPending}
                 />
               ))}
@@ -294,7 +422,23 @@ function DailyView({
         );
       })}
 
-      {totalPills === 0 && (
+      {asNeeded.length > 0 && (
+        <Card data-testid="card-as-needed">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">As needed</CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-2">
+            {asNeeded.map(({ item, type }) => (
+              <Badge key={`${type}-${item.id}`} variant="outline" className="gap-1">
+                {type === "medication" ? <Pill className="h-3 w-3" /> : <Apple className="h-3 w-3" />}
+                {item.name} · {item.dosage}
+              </Badge>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {totalPills === 0 && asNeeded.length === 0 && (
         <Card>
           <CardContent className="p-8 text-center">
             <Pill className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
@@ -309,15 +453,30 @@ function DailyView({
   );
 }
 
+/**
+ * Heatmap colour for a day's doses in one time block: green when all were taken, amber when some
+ * were, red when they were missed. Doses still to come leave the cell uncoloured.
+ */
+function heatmapColor(doses: PillDose[]): string {
+  const taken = doses.filter(d => d.status === "taken").length;
+  const missed = doses.filter(d => d.status === "missed").length;
+  if (doses.length === 0 || taken + missed === 0) return "";
+  if (taken === doses.length) return "bg-green-500/25 dark:bg-green-500/30";
+  if (taken > 0) return "bg-amber-400/30 dark:bg-amber-500/30";
+  return missed > 0 ? "bg-red-500/25 dark:bg-red-500/30" : "";
+}
+
 function WeeklyView({
   weekDates,
   medications,
   supplements,
+  doses,
   onDaySelect,
 }: {
   weekDates: Date[];
   medications: Medication[];
   supplements: Supplement[];
+  doses: PillDose[]; // the week's dose rows, for the heatmap
   onDaySelect: (date: Date) => void;
 }) {
   const today = formatDate(new Date());
@@ -327,13 +486,19 @@ function WeeklyView({
       id: m.id,
       type: "medication" as const,
       name: m.name,
-      timeBlock: m.timeBlock || "morning",
+      schedule: m.schedule,
+      courseStartDate: m.courseStartDate,
+      courseEndDate: m.courseEndDate,
+      slots: doseSlotsOf(m),
     })),
     ...supplements.filter(s => s.active).map(s => ({
       id: s.id,
       type: "supplement" as const,
       name: s.name,
-      timeBlock: s.timeBlock || "morning",
+      schedule: s.schedule,
+      courseStartDate: s.courseStartDate,
+      courseEndDate: s.courseEndDate,
+      slots: doseSlotsOf(s),
     })),
   ];
 
@@ -367,7 +532,10 @@ function WeeklyView({
               </thead>
               <tbody>
                 {timeBlocks.map(block => {
-                  const blockPills = pills.filter(p => p.timeBlock === block.id);
+                  // One dot per dose in this block
+                  const blockPills = pills.flatMap(p =>
+                    p.slots.filter(slot => slot.timeBlock === block.id).map(slot => ({ ...p, slotId: slot.id })),
+                  );
                   const BlockIcon = block.icon;
                   if (blockPills.length === 0) return null;
                   return (
@@ -381,13 +549,16 @@ function WeeklyView({
                       {weekDates.map((date, i) => (
                         <td 
                           key={i} 
-                          className="p-2 align-top cursor-pointer hover:bg-muted/50 rounded"
+                          className={`p-2 align-top cursor-pointer hover:bg-muted/50 rounded ${heatmapColor(
+                            doses.filter(d => d.scheduledDate === formatDate(date) && d.scheduledTimeBlock === block.id),
+                          )}`}
                           onClick={() => onDaySelect(date)}
+                          data-testid={`cell-heatmap-${block.id}-${daysOfWeek[i]}`}
                         >
                           <div className="flex flex-wrap gap-1 justify-center">
-                            {blockPills.map(pill => (
+                            {blockPills.filter(pill => isPillDueOn(pill, formatDate(date))).map(pill => (
                               <div
-                                key={`${pill.type}-${pill.id}`}
+                                key={`${pill.type}-${pill.id}-${pill.slotId}`}
                                 className={`h-2.5 w-2.5 rounded-full ${pill.type === "medication" ? "bg-primary" : "bg-green-500"}`}
                                 title={pill.name}
                               />
@@ -420,15 +591,177 @@ function WeeklyView({
             <div className="h-3 w-3 rounded-full bg-green-500" />
             <span className="text-sm">Supplement</span>
           </div>
+          <div className="flex items-center gap-2">
+            <div className="h-3 w-5 rounded bg-green-500/25" />
+            <span className="text-sm">All taken</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="h-3 w-5 rounded bg-amber-400/30" />
+            <span className="text-sm">Some taken</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="h-3 w-5 rounded bg-red-500/25" />
+            <span className="text-sm">Missed</span>
+          </div>
         </CardContent>
       </Card>
     </div>
   );
 }
 
+const blockLabel = (id: string) => timeBlocks.find((b) => b.id === id)?.label ?? id;
+
+/**
+ * Shows what the auto-scheduler would change and lets the user pick which changes to apply.
+ */
+function AutoScheduleDialog({
+  proposal,
+  onClose,
+}: {
+  proposal: AutoScheduleResult | null;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  // Everything is selected by default each time a new proposal comes in
+  useEffect(() => {
+    setSelected(new Set(proposal?.changes.map((_, i) => i) ?? []));
+  }, [proposal]);
+
+  const applyMutation = useMutation({
+    mutationFn: async (changes: ScheduleChange[]) => {
+      const res = await apiRequest("POST", "/api/planner/auto-schedule/apply", {
+        changes: changes.map(({ pill, slotId, to }) => ({ pill, slotId, to })),
+        fromDate: new Date().toLocaleDateString("en-CA"), // today, in local time
+      });
+      return res.json() as Promise<{ moved: number }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/medications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/supplements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pill-doses"] });
+      toast({
+        title: "Schedule updated",
+        description: `Moved ${result.moved} dose${result.moved === 1 ? "" : "s"}.`,
+      });
+      onClose();
+    },
+    onError: () => {
+      toast({
+        title: "Update failed",
+        description: "Could not apply the new schedule. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (index: number, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(index);
+    else next.delete(index);
+    setSelected(next);
+  };
+
+  const changes = proposal?.changes ?? [];
+  const unresolved = proposal?.unresolved ?? [];
+
+  return (
+    <Dialog open={proposal !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Suggested schedule</DialogTitle>
+          <DialogDescription>
+            Keeps conflicting pills apart and food rules around your meals. Prescribed medication
+            timings are never moved.
+          </DialogDescription>
+        </DialogHeader>
+
+        {changes.length === 0 && unresolved.length === 0 && (
+          <p className="text-sm text-muted-foreground" data-testid="text-schedule-ok">
+            Your schedule already meets every rule. Nothing to change.
+          </p>
+        )}
+
+        {changes.length > 0 && (
+          <div className="space-y-3">
+            {changes.map((change, index) => (
+              <label
+                key={`${change.pill.type}-${change.pill.id}-${change.slotId}`}
+                className="flex items-start gap-3 rounded-md border p-3 cursor-pointer"
+                data-testid={`row-schedule-change-${change.pill.type}-${change.pill.id}-${change.slotId}`}
+              >
+                <Checkbox
+                  checked={selected.has(index)}
+                  onCheckedChange={(checked) => toggle(index, checked === true)}
+                  className="mt-1"
+                />
+                <div className="flex-1 space-y-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    {change.pill.type === "medication" ? (
+                      <Pill className="h-4 w-4 text-primary" />
+                    ) : (
+                      <Apple className="h-4 w-4 text-green-600 dark:text-green-400" />
+                    )}
+                    <span className="font-medium">{change.name}</span>
+                  </div>
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-muted-foreground">
+                      {blockLabel(change.from.timeBlock)} {change.from.scheduledTime}
+                    </span>
+                    <ArrowRight className="h-3.5 w-3.5 text-muted-foreground" />
+                    <span className="font-medium">
+                      {blockLabel(change.to.timeBlock)} {change.to.scheduledTime}
+                    </span>
+                  </div>
+                  {change.reasons.map((reason) => (
+                    <p key={reason} className="text-xs text-muted-foreground">
+                      {reason}
+                    </p>
+                  ))}
+                </div>
+              </label>
+            ))}
+          </div>
+        )}
+
+        {unresolved.length > 0 && (
+          <div className="space-y-2" data-testid="list-schedule-unresolved">
+            <h4 className="text-sm font-medium flex items-center gap-1 text-amber-600 dark:text-amber-400">
+              <AlertTriangle className="h-4 w-4" />
+              Couldn't be fixed automatically
+            </h4>
+            {unresolved.map((issue) => (
+              <p key={issue.message} className="text-sm text-muted-foreground">
+                {issue.message}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {changes.length > 0 ? "Cancel" : "Close"}
+          </Button>
+          {changes.length > 0 && (
+            <Button
+              disabled={selected.size === 0 || applyMutation.isPending}
+              onClick={() => applyMutation.mutate(changes.filter((_, i) => selected.has(i)))}
+              data-testid="button-apply-schedule"
+            >
+              {applyMutation.isPending ? "Applying..." : `Apply ${selected.size} change${selected.size === 1 ? "" : "s"}`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 export default function PillPlanner() {
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [view, setView] = useState<"daily" | "weekly">("daily");
+  const [scheduleProposal, setScheduleProposal] = useState<AutoScheduleResult | null>(null);
   const { toast } = useToast();
 
   const weekDates = getWeekDates(selectedDate);
@@ -441,8 +774,10 @@ export default function PillPlanner() {
     queryKey: ["/api/supplements"],
   });
 
- 
-  const { snoozePill } = usePillNotifications(medications, supplements);
+  const { data: user } = useQuery<PublicUser>({
+    queryKey: ["/api/me"],
+  });
+  const snoozeSettings = user?.preferences?.snooze ?? defaultSnoozeSettings;
 
   const { data: doses = [], isLoading: loadingDoses } = useQuery<PillDose[]>({
     queryKey: ["/api/pill-doses", formatDate(selectedDate)],
@@ -453,6 +788,18 @@ export default function PillPlanner() {
     },
   });
 
+  const weekFrom = formatDate(weekDates[0]);
+  const weekTo = formatDate(weekDates[6]);
+  const { data: weekDoses = [] } = useQuery<PillDose[]>({
+    queryKey: ["/api/pill-doses", weekFrom, weekTo],
+    queryFn: async () => {
+      const res = await fetch(`/api/pill-doses?from=${weekFrom}&to=${weekTo}`);
+      if (!res.ok) throw new Error("Failed to fetch doses");
+      return res.json();
+    },
+    enabled: view === "weekly",
+  });
+
   const generateDosesMutation = useMutation({
     mutationFn: async (date: string) => {
       const res = await apiRequest("POST", "/api/pill-doses/generate", { date });
@@ -463,6 +810,21 @@ export default function PillPlanner() {
     },
   });
 
+  const autoScheduleMutation = useMutation({
+    mutationFn: async (): Promise<AutoScheduleResult> => {
+      const res = await apiRequest("POST", "/api/planner/auto-schedule");
+      return res.json();
+    },
+    onSuccess: (proposal) => setScheduleProposal(proposal),
+    onError: () => {
+      toast({
+        title: "Auto-schedule failed",
+        description: "Could not work out a schedule. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const updateDoseMutation = useMutation({
     mutationFn: async ({ id, status }: { id: number; status: string }) => {
       const res = await apiRequest("PATCH", `/api/pill-doses/${id}`, {
@@ -472,13 +834,46 @@ export default function PillPlanner() {
       return res.json();
     },
     onSuccess: (_, variables) => {
-      queryClient.invalidateQueries({ queryKey: ["/api/pill-doses", formatDate(selectedDate)] });
+      // The day's doses and the weekly heatmap
+      queryClient.invalidateQueries({ queryKey: ["/api/pill-doses"] });
+      // Taking or undoing a dose changes the pill's count (and maybe its refill reminder)
+      queryClient.invalidateQueries({ queryKey: ["/api/medications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/supplements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/adherence"] });
+
+      if (variables.status === "pending") {
+        toast({ title: "Marked as not taken" });
+        return;
+      }
+      toast({
+        title: "Marked as taken",
+        description: "Great job staying on track!",
+      });
+    },
+  });
 
+  const snoozeMutation = useMutation({
+    mutationFn: async ({ timeBlock, minutes }: { timeBlock: string; minutes: number }): Promise<PillDose[]> => {
+      const res = await apiRequest("POST", "/api/pill-doses/snooze", {
+        date: formatDate(selectedDate),
+        timeBlock,
+        minutes,
+      });
+      return res.json();
+    },
+    onSuccess: (snoozed, { timeBlock, minutes }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pill-doses"] });
+      toast({
+        title: `Snoozed for ${minutes < 60 ? `${minutes} minutes` : "1 hour"}`,
+        description: `We'll remind you about ${snoozed.length} ${blockLabel(timeBlock).toLowerCase()} dose(s) again.`,
+      });
+    },
+    onError: (error) => {
       toast({
-        title: variables.status === "taken" ? "Marked as taken" : "Snoozed for 10 minutes",
-        description: variables.status === "taken" 
-          ? "Great job staying on track!" 
-          : "We'll notify you again in 10 minutes.",
+        title: "Snooze failed",
+        description: getErrorMessage(error, "Could not snooze these doses. Please try again."),
+        variant: "destructive",
       });
     },
   });
@@ -517,12 +912,23 @@ export default function PillPlanner() {
             </h1>
             <p className="text-muted-foreground text-sm mt-1">Track your daily medications and supplements</p>
           </div>
-          <Tabs value={view} onValueChange={(v) => setView(v as "daily" | "weekly")}>
-            <TabsList>
-              <TabsTrigger value="daily" data-testid="tab-daily">Daily</TabsTrigger>
-              <TabsTrigger value="weekly" data-testid="tab-weekly">Weekly</TabsTrigger>
-            </TabsList>
-          </Tabs>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              onClick={() => autoScheduleMutation.mutate()}
+              disabled={autoScheduleMutation.isPending || (medications.length === 0 && supplements.length === 0)}
+              data-testid="button-auto-schedule"
+            >
+              <Wand2 className="h-4 w-4 mr-2" />
+              {autoScheduleMutation.isPending ? "Planning..." : "Auto-schedule"}
+            </Button>
+            <Tabs value={view} onValueChange={(v) => setView(v as "daily" | "weekly")}>
+              <TabsList>
+                <TabsTrigger value="daily" data-testid="tab-daily">Daily</TabsTrigger>
+                <TabsTrigger value="weekly" data-testid="tab-weekly">Weekly</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
         </div>
 
         <div className="flex items-center justify-between mt-4">
@@ -550,32 +956,32 @@ export default function PillPlanner() {
             supplements={supplements}
             doses={doses}
             onMarkTaken={(id) => updateDoseMutation.mutate({ id, status: "taken" })}
-            onMarkSnoozed={(id) => {
-              updateDoseMutation.mutate({ id, status: "snoozed" });
-              const dose = doses.find((d) => d.id === id);
-              if (dose) {
-                const pill =
-                  medications.find((m) => m.id === dose.pillId && dose.pillType === "medication") ||
-                  supplements.find((s) => s.id === dose.pillId && dose.pillType === "supplement");
-                if (pill) {
-                  snoozePill(pill.timeBlock || "morning", pill.name);
-                }
-              }
-            }}
-            isPending={updateDoseMutation.isPending}
+            onUndoTaken={(id) => updateDoseMutation.mutate({ id, status: "pending" })}
+            onSnoozeBlock={(timeBlock, minutes) => snoozeMutation.mutate({ timeBlock, minutes })}
+            snoozeSettings={snoozeSettings}
+            isPending={updateDoseMutation.isPending || snoozeMutation.isPending}
           />
         ) : (
           <WeeklyView
             weekDates={weekDates}
             medications={medications}
             supplements={supplements}
+            doses={weekDoses}
             onDaySelect={(date) => {
               setSelectedDate(date);
               setView("daily");
             }}
           />
         )}
+
+        {!isLoading && (
+          <div className="mt-6">
+            <AdherenceInsights />
+          </div>
+        )}
       </div>
+
+      <AutoScheduleDialog proposal={scheduleProposal} onClose={() => setScheduleProposal(null)} />
     </div>
   );
 }
@@ -30,8 +30,10 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { usePush, unsubscribeFromPush } from "@/hooks/use-push";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
 import {
   User,
   Heart,
@@ -41,8 +43,19 @@ import {
   CheckCircle,
   AlertCircle,
   Save,
+  LogOut,
+  SlidersHorizontal,
 } from "lucide-react";
-import type { User as UserType } from "@shared/schema";
+import {
+  defaultMealTimes,
+  defaultSnoozeSettings,
+  snoozeDurations,
+  type MealTimes,
+  type PublicUser,
+  type SnoozeSettings,
+  type UnitSystem,
+  type UserPreferences,
+} from "@shared/schema";
 
 /**
  * IMPORTANT:
@@ -84,7 +97,7 @@ export default function ProfilePage() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const { data: user, isLoading } = useQuery<UserType>({
+  const { data: user, isLoading } = useQuery<PublicUser>({
     queryKey: ["/api/me"],
   });
 
@@ -135,6 +148,76 @@ export default function ProfilePage() {
     },
   });
 
+  const deviceTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const snooze: SnoozeSettings = user?.preferences?.snooze ?? defaultSnoozeSettings;
+
+  const updatePreferencesMutation = useMutation({
+    mutationFn: async (data: UserPreferences) => {
+      const res = await apiRequest("PATCH", "/api/me/preferences", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/me"] });
+      // Marker values (and trend histories) are converted server-side, so refetch them in the new units.
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/health-markers"),
+      });
+      toast({
+        title: "Preferences updated",
+        description: "Your preferences have been saved.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update your preferences. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const push = usePush();
+  const pushMutation = useMutation({
+    mutationFn: (enabled: boolean) => (enabled ? push.enable() : push.disable()),
+    onSuccess: (_data, enabled) => {
+      toast({
+        title: enabled ? "Push notifications on" : "Push notifications off",
+        description: enabled
+          ? "This browser will be notified even when the app is closed."
+          : "This browser only gets notifications while the app is open.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to change push notifications. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      const endpoint = await unsubscribeFromPush().catch((error) => {
+        console.error("Failed to unsubscribe from push notifications:", error);
+        return undefined;
+      });
+      await apiRequest("POST", "/api/auth/logout", endpoint ? { endpoint } : undefined);
+    },
+    onSuccess: () => {
+      // Full reload so no other user's cached data survives in memory.
+      queryClient.clear();
+      window.location.assign("/login");
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to log out. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const onSubmit: SubmitHandler<HealthProfileFormValues> = async (data) => {
     const payload: HealthProfilePayload = {
       age: toOptionalNumber(data.age),
@@ -358,6 +441,178 @@ export default function ProfilePage() {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <SlidersHorizontal className="h-5 w-5 text-primary" />
+            <CardTitle>Preferences</CardTitle>
+          </div>
+          <CardDescription>How lab values are displayed, when you usually eat, your time zone and pill notifications</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <div>
+              <p className="font-medium">Lab units</p>
+              <p className="text-sm text-muted-foreground">
+                Your original reported values are always kept
+              </p>
+            </div>
+            <Select
+              value={user?.preferences?.unitSystem ?? "conventional"}
+              onValueChange={(value) => updatePreferencesMutation.mutate({ unitSystem: value as UnitSystem })}
+              disabled={updatePreferencesMutation.isPending}
+            >
+              <SelectTrigger className="w-64" data-testid="select-unit-system">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="conventional">Conventional (mg/dL, ng/mL)</SelectItem>
+                <SelectItem value="si">SI (mmol/L, nmol/L)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <div>
+              <p className="font-medium">Meal times</p>
+              <p className="text-sm text-muted-foreground">
+                The planner schedules "with food" and "empty stomach" pills around these
+              </p>
+            </div>
+            <div className="flex gap-2">
+              {(["breakfast", "lunch", "dinner"] as const).map((meal) => {
+                const mealTimes: MealTimes = user?.preferences?.mealTimes ?? defaultMealTimes;
+                return (
+                  <div key={meal} className="space-y-1">
+                    <p className="text-xs text-muted-foreground capitalize">{meal}</p>
+                    <Input
+                      type="time"
+                      className="w-28"
+                      defaultValue={mealTimes[meal]}
+                      key={`${meal}-${mealTimes[meal]}`}
+                      disabled={updatePreferencesMutation.isPending}
+                      onBlur={(e) => {
+                        if (e.target.value && e.target.value !== mealTimes[meal]) {
+                          updatePreferencesMutation.mutate({ mealTimes: { ...mealTimes, [meal]: e.target.value } });
+                        }
+                      }}
+                      data-testid={`input-meal-time-${meal}`}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <div>
+              <p className="font-medium">Time zone</p>
+              <p className="text-sm text-muted-foreground">
+                Doses not taken by the end of their time of day (plus two hours) are marked missed
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                className="w-56"
+                defaultValue={user?.preferences?.timeZone ?? ""}
+                key={user?.preferences?.timeZone}
+                placeholder={deviceTimeZone}
+                disabled={updatePreferencesMutation.isPending}
+                onBlur={(e) => {
+                  const timeZone = e.target.value.trim();
+                  if (timeZone && timeZone !== user?.preferences?.timeZone) {
+                    updatePreferencesMutation.mutate({ timeZone });
+                  }
+                }}
+                data-testid="input-time-zone"
+              />
+              {user?.preferences?.timeZone !== deviceTimeZone && (
+                <Button
+                  variant="outline"
+                  onClick={() => updatePreferencesMutation.mutate({ timeZone: deviceTimeZone })}
+                  disabled={updatePreferencesMutation.isPending}
+                  data-testid="button-use-device-time-zone"
+                >
+                  Use this device's
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <div>
+              <p className="font-medium">Snoozing pill reminders</p>
+              <p className="text-sm text-muted-foreground">
+                Snoozing covers every dose in that time of day; after the last snooze, take or skip them
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">Default</p>
+                <Select
+                  value={String(snooze.minutes)}
+                  onValueChange={(value) =>
+                    updatePreferencesMutation.mutate({ snooze: { ...snooze, minutes: Number(value) } })
+                  }
+                  disabled={updatePreferencesMutation.isPending}
+                >
+                  <SelectTrigger className="w-32" data-testid="select-snooze-minutes">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {snoozeDurations.map((minutes) => (
+                      <SelectItem key={minutes} value={String(minutes)}>
+                        {minutes < 60 ? `${minutes} minutes` : "1 hour"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">Snoozes per dose</p>
+                <Select
+                  value={String(snooze.maxCount)}
+                  onValueChange={(value) =>
+                    updatePreferencesMutation.mutate({ snooze: { ...snooze, maxCount: Number(value) } })
+                  }
+                  disabled={updatePreferencesMutation.isPending}
+                >
+                  <SelectTrigger className="w-32" data-testid="select-snooze-max-count">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[1, 2, 3, 5, 10].map((count) => (
+                      <SelectItem key={count} value={String(count)}>
+                        {count}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <div>
+              <p className="font-medium">Push notifications</p>
+              <p className="text-sm text-muted-foreground">
+                {!push.supported
+                  ? "This browser doesn't support push notifications"
+                  : !push.configured
+                    ? "Push notifications aren't set up on this server"
+                    : "Pill and reminder notifications on this browser, even when the app is closed, with Taken and Snooze buttons"}
+              </p>
+            </div>
+            <Switch
+              checked={push.subscribed}
+              onCheckedChange={(checked) => pushMutation.mutate(checked)}
+              disabled={!push.supported || !push.configured || pushMutation.isPending}
+              data-testid="switch-push-notifications"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle>Account</CardTitle>
@@ -370,6 +625,17 @@ export default function ProfilePage() {
               <span className="font-medium">{user?.username}</span>
             </div>
           </div>
+          <div className="flex justify-end mt-4">
+            <Button
+              variant="outline"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+              data-testid="button-logout"
+            >
+              <LogOut className="h-4 w-4 mr-2" />
+              {logoutMutation.isPending ? "Logging out..." : "Log Out"}
+            </Button>
+          </div>
         </CardContent>
       </Card>
     </div>
@@ -37,8 +37,7 @@ import {
 } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Clock, Plus, Edit, Trash2, Bell, BellOff, Pill, Apple, Dumbbell } from "lucide-react";
-import { useReminderNotifications } from "@/hooks/use-reminder-notifs";
+import { Clock, Plus, Edit, Trash2, Bell, BellOff, Pill, Apple, Dumbbell, PackagePlus } from "lucide-react";
 
 
 
@@ -76,6 +75,7 @@ function ReminderCard({
     medication: Pill,
     supplement: Apple,
     activity: Dumbbell,
+    refill: PackagePlus,
   };
   const Icon = typeIcons[reminder.type] || Clock;
   const reminderDays = (reminder.days as string[]) || [];
@@ -294,8 +294,6 @@ export default function Reminders() {
     queryKey: ["/api/reminders"],
   });
 
-useReminderNotifications(reminders); 
-
   const createMutation = useMutation({
     mutationFn: async (values: ReminderFormValues) => {
       return apiRequest("POST", "/api/reminders", values);
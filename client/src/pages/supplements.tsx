@@ -3,7 +3,16 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { insertSupplementSchema, type Supplement } from "@shared/schema";
+import {
+  insertSupplementSchema,
+  pillScheduleSchema,
+  doseSlotsSchema,
+  pillCourseSchema,
+  defaultPillSchedule,
+  type Supplement,
+  type PillConflictReport,
+} from "@shared/schema";
+import { describeCourse, describeSchedule, doseSlotsOf } from "@shared/pill-schedule";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -36,14 +45,23 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
+import { PillConflictDialog } from "@/components/pill-conflict-dialog";
+import { ScheduleField } from "@/components/schedule-field";
+import { DoseSlotsField } from "@/components/dose-slots-field";
+import { CourseField } from "@/components/course-field";
+import { CourseHistory } from "@/components/course-history";
+import { RefillDialog, SupplyBadge } from "@/components/refill-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Apple, Plus, Edit, Trash2, Clock, Utensils, ExternalLink } from "lucide-react";
+import { Apple, Plus, Edit, Trash2, Clock, Utensils, ExternalLink, PackagePlus } from "lucide-react";
 
 const supplementFormSchema = insertSupplementSchema.extend({
   name: z.string().min(1, "Name is required"),
   dosage: z.string().min(1, "Dosage is required"),
-  frequency: z.string().min(1, "Frequency is required"),
+  schedule: pillScheduleSchema,
+  doseSlots: doseSlotsSchema,
+}).superRefine((values, ctx) => {
+  pillCourseSchema.safeParse(values).error?.issues.forEach((issue) => ctx.addIssue(issue));
 });
 
 type SupplementFormValues = z.infer<typeof supplementFormSchema>;
@@ -53,12 +71,16 @@ function SupplementCard({
   onEdit,
   onDelete,
   onToggleActive,
+  onRefill,
 }: {
   supplement: Supplement;
   onEdit: () => void;
   onDelete: () => void;
   onToggleActive: () => void;
+  onRefill: () => void;
 }) {
+  const course = describeCourse(supplement, new Date().toLocaleDateString("en-CA"));
+
   return (
     <Card className={`hover-elevate ${!supplement.active ? "opacity-60" : ""}`}>
       <CardHeader className="flex flex-row items-start justify-between gap-4 pb-3">
@@ -83,8 +105,14 @@ function SupplementCard({
         <div className="flex flex-wrap gap-2 mb-3">
           <Badge variant="secondary" className="gap-1">
             <Clock className="h-3 w-3" />
-            {supplement.frequency}
+            {describeSchedule(supplement.schedule, doseSlotsOf(supplement).length)}
           </Badge>
+          {course && (
+            <Badge variant="outline" data-testid={`badge-supplement-course-${supplement.id}`}>
+              {course}
+            </Badge>
+          )}
+          <SupplyBadge pillType="supplement" item={supplement} testId={`badge-supplement-supply-${supplement.id}`} />
           {supplement.timeOfDay && (
             <Badge variant="outline" className="capitalize">
               {supplement.timeOfDay}
@@ -112,6 +140,15 @@ function SupplementCard({
           </a>
         )}
         <div className="flex justify-end gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onRefill}
+            data-testid={`button-refill-supplement-${supplement.id}`}
+          >
+            <PackagePlus className="h-4 w-4 mr-1" />
+            Refill
+          </Button>
           <Button
             variant="ghost"
             size="sm"
@@ -152,7 +189,13 @@ function SupplementForm({
     defaultValues: {
       name: supplement?.name || "",
       dosage: supplement?.dosage || "",
-      frequency: supplement?.frequency || "",
+      schedule: supplement?.schedule ?? defaultPillSchedule,
+      doseSlots: supplement ? doseSlotsOf(supplement) : [{ id: "1", timeBlock: "morning", scheduledTime: null, amount: null, foodRule: null }],
+      courseStartDate: supplement?.courseStartDate ?? null,
+      courseEndDate: supplement?.courseEndDate ?? null,
+      pillsOnHand: supplement?.pillsOnHand ?? null,
+      pillsPerDose: supplement?.pillsPerDose ?? 1,
+      refillThresholdDays: supplement?.refillThresholdDays ?? 7,
       timeOfDay: supplement?.timeOfDay || "",
       withFood: supplement?.withFood || false,
       reason: supplement?.reason || "",
@@ -192,34 +235,65 @@ function SupplementForm({
               </FormItem>
             )}
           />
-
-          <FormField
-            control={form.control}
-            name="frequency"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Frequency</FormLabel>
-                <Select onValueChange={field.onChange} value={field.value}>
-                  <FormControl>
-                    <SelectTrigger data-testid="select-supplement-frequency">
-                      <SelectValue placeholder="Select frequency" />
-                    </SelectTrigger>
-                  </FormControl>
-                  <SelectContent>
-                    <SelectItem value="Once daily">Once daily</SelectItem>
-                    <SelectItem value="Twice daily">Twice daily</SelectItem>
-                    <SelectItem value="Three times daily">Three times daily</SelectItem>
-                    <SelectItem value="Every other day">Every other day</SelectItem>
-                    <SelectItem value="Weekly">Weekly</SelectItem>
-                    <SelectItem value="As needed">As needed</SelectItem>
-                  </SelectContent>
-                </Select>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
         </div>
 
+        <FormField
+          control={form.control}
+          name="schedule"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Schedule</FormLabel>
+              <FormControl>
+                <ScheduleField value={field.value} onChange={field.onChange} testIdPrefix="supplement" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="doseSlots"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Doses each day</FormLabel>
+              <FormControl>
+                <DoseSlotsField
+                  value={field.value}
+                  onChange={field.onChange}
+                  defaultAmount={form.watch("dosage")}
+                  testIdPrefix="supplement"
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="courseEndDate"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Treatment course</FormLabel>
+              <FormControl>
+                <CourseField
+                  value={{ courseStartDate: form.watch("courseStartDate"), courseEndDate: field.value }}
+                  onChange={({ courseStartDate, courseEndDate }) => {
+                    form.setValue("courseStartDate", courseStartDate);
+                    field.onChange(courseEndDate);
+                  }}
+                  testIdPrefix="supplement"
+                />
+              </FormControl>
+              <FormDescription>
+                Only scheduled within the course, and deactivated once it's over
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <FormField
           control={form.control}
           name="timeOfDay"
@@ -245,6 +319,67 @@ function SupplementForm({
           )}
         />
 
+        <div className="grid gap-4 sm:grid-cols-3">
+          <FormField
+            control={form.control}
+            name="pillsOnHand"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Pills on hand</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={0}
+                    placeholder="Not tracked"
+                    value={field.value ?? ""}
+                    onChange={(e) => field.onChange(e.target.value === "" ? null : Number(e.target.value))}
+                    data-testid="input-supplement-pills-on-hand"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="pillsPerDose"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Pills per dose</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={field.value ?? 1}
+                    onChange={(e) => field.onChange(Number(e.target.value) || 1)}
+                    data-testid="input-supplement-pills-per-dose"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="refillThresholdDays"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Refill at (days left)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={field.value ?? 7}
+                    onChange={(e) => field.onChange(Number(e.target.value) || 0)}
+                    data-testid="input-supplement-refill-threshold"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
         <FormField
           control={form.control}
           name="withFood"
@@ -325,6 +460,15 @@ export default function Supplements() {
   const { toast } = useToast();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingSupplement, setEditingSupplement] = useState<Supplement | undefined>();
+  const [conflict, setConflict] = useState<{ pill: Supplement; report: PillConflictReport } | null>(null);
+  const [refilling, setRefilling] = useState<Supplement | null>(null);
+
+  type SavedSupplement = Supplement & { conflictReport: PillConflictReport };
+  const showConflicts = (saved: SavedSupplement) => {
+    if (saved.conflictReport.conflicts.length > 0) {
+      setConflict({ pill: saved, report: saved.conflictReport });
+    }
+  };
 
   const { data: supplements, isLoading } = useQuery<Supplement[]>({
     queryKey: ["/api/supplements"],
@@ -332,26 +476,32 @@ export default function Supplements() {
 
   const createMutation = useMutation({
     mutationFn: async (values: SupplementFormValues) => {
-      return apiRequest("POST", "/api/supplements", values);
+      const res = await apiRequest("POST", "/api/supplements", values);
+      return res.json() as Promise<SavedSupplement>;
     },
-    onSuccess: () => {
+    onSuccess: (saved) => {
       queryClient.invalidateQueries({ queryKey: ["/api/supplements"] });
       queryClient.invalidateQueries({ queryKey: ["/api/interactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] }); // refill reminders follow the count
       setIsDialogOpen(false);
       toast({ title: "Supplement added successfully" });
+      showConflicts(saved);
     },
   });
 
   const updateMutation = useMutation({
     mutationFn: async ({ id, values }: { id: number; values: SupplementFormValues }) => {
-      return apiRequest("PATCH", `/api/supplements/${id}`, values);
+      const res = await apiRequest("PATCH", `/api/supplements/${id}`, values);
+      return res.json() as Promise<SavedSupplement>;
     },
-    onSuccess: () => {
+    onSuccess: (saved) => {
       queryClient.invalidateQueries({ queryKey: ["/api/supplements"] });
       queryClient.invalidateQueries({ queryKey: ["/api/interactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] }); // refill reminders follow the count
       setIsDialogOpen(false);
       setEditingSupplement(undefined);
       toast({ title: "Supplement updated successfully" });
+      showConflicts(saved);
     },
   });
 
@@ -362,6 +512,7 @@ export default function Supplements() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/supplements"] });
       queryClient.invalidateQueries({ queryKey: ["/api/interactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] }); // refill reminders follow the count
       toast({ title: "Supplement deleted" });
     },
   });
@@ -451,6 +602,12 @@ export default function Supplements() {
             />
           </DialogContent>
         </Dialog>
+        <PillConflictDialog
+          pill={conflict?.pill ?? null}
+          report={conflict?.report ?? null}
+          onClose={() => setConflict(null)}
+        />
+        <RefillDialog pillType="supplement" item={refilling} onClose={() => setRefilling(null)} />
       </div>
 
       {supplements && supplements.length === 0 ? (
@@ -482,6 +639,7 @@ export default function Supplements() {
                     onEdit={() => handleEdit(supplement)}
                     onDelete={() => deleteMutation.mutate(supplement.id)}
                     onToggleActive={() => handleToggleActive(supplement)}
+                    onRefill={() => setRefilling(supplement)}
                   />
                 ))}
               </div>
@@ -501,6 +659,7 @@ export default function Supplements() {
                     onEdit={() => handleEdit(supplement)}
                     onDelete={() => deleteMutation.mutate(supplement.id)}
                     onToggleActive={() => handleToggleActive(supplement)}
+                    onRefill={() => setRefilling(supplement)}
                   />
                 ))}
               </div>
@@ -508,6 +667,8 @@ export default function Supplements() {
           )}
         </>
       )}
+
+      <CourseHistory pillType="supplement" />
     </div>
   );
 }
@@ -0,0 +1,40 @@
+ALTER TABLE "health_markers" ADD COLUMN "user_id" varchar;--> statement-breakpoint
+ALTER TABLE "interactions" ADD COLUMN "user_id" varchar;--> statement-breakpoint
+ALTER TABLE "lab_results" ADD COLUMN "user_id" varchar;--> statement-breakpoint
+ALTER TABLE "medications" ADD COLUMN "user_id" varchar;--> statement-breakpoint
+ALTER TABLE "pill_doses" ADD COLUMN "user_id" varchar;--> statement-breakpoint
+ALTER TABLE "pill_stacks" ADD COLUMN "user_id" varchar;--> statement-breakpoint
+ALTER TABLE "recommendations" ADD COLUMN "user_id" varchar;--> statement-breakpoint
+ALTER TABLE "reminders" ADD COLUMN "user_id" varchar;--> statement-breakpoint
+ALTER TABLE "supplements" ADD COLUMN "user_id" varchar;--> statement-breakpoint
+-- Everything created before accounts existed belonged to the shared "demo" user. Create it if the
+-- seed hasn't yet (the seed runs after migrations), with a password no login can match ("!" is not a
+-- hash), so the rows below always get an owner and nobody can sign in to it until a password is set.
+INSERT INTO "users" ("username", "password") VALUES ('demo', '!') ON CONFLICT ("username") DO NOTHING;--> statement-breakpoint
+UPDATE "health_markers" SET "user_id" = (SELECT "id" FROM "users" WHERE "username" = 'demo') WHERE "user_id" IS NULL;--> statement-breakpoint
+UPDATE "interactions" SET "user_id" = (SELECT "id" FROM "users" WHERE "username" = 'demo') WHERE "user_id" IS NULL;--> statement-breakpoint
+UPDATE "lab_results" SET "user_id" = (SELECT "id" FROM "users" WHERE "username" = 'demo') WHERE "user_id" IS NULL;--> statement-breakpoint
+UPDATE "medications" SET "user_id" = (SELECT "id" FROM "users" WHERE "username" = 'demo') WHERE "user_id" IS NULL;--> statement-breakpoint
+UPDATE "pill_doses" SET "user_id" = (SELECT "id" FROM "users" WHERE "username" = 'demo') WHERE "user_id" IS NULL;--> statement-breakpoint
+UPDATE "pill_stacks" SET "user_id" = (SELECT "id" FROM "users" WHERE "username" = 'demo') WHERE "user_id" IS NULL;--> statement-breakpoint
+UPDATE "recommendations" SET "user_id" = (SELECT "id" FROM "users" WHERE "username" = 'demo') WHERE "user_id" IS NULL;--> statement-breakpoint
+UPDATE "reminders" SET "user_id" = (SELECT "id" FROM "users" WHERE "username" = 'demo') WHERE "user_id" IS NULL;--> statement-breakpoint
+UPDATE "supplements" SET "user_id" = (SELECT "id" FROM "users" WHERE "username" = 'demo') WHERE "user_id" IS NULL;--> statement-breakpoint
+ALTER TABLE "health_markers" ALTER COLUMN "user_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "interactions" ALTER COLUMN "user_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "lab_results" ALTER COLUMN "user_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "medications" ALTER COLUMN "user_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "pill_doses" ALTER COLUMN "user_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "pill_stacks" ALTER COLUMN "user_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "recommendations" ALTER COLUMN "user_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "reminders" ALTER COLUMN "user_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "supplements" ALTER COLUMN "user_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "health_markers" ADD CONSTRAINT "health_markers_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "interactions" ADD CONSTRAINT "interactions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lab_results" ADD CONSTRAINT "lab_results_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "medications" ADD CONSTRAINT "medications_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pill_doses" ADD CONSTRAINT "pill_doses_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pill_stacks" ADD CONSTRAINT "pill_stacks_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recommendations" ADD CONSTRAINT "recommendations_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reminders" ADD CONSTRAINT "reminders_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "supplements" ADD CONSTRAINT "supplements_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "lab_results" ADD COLUMN "source" text DEFAULT 'upload' NOT NULL;--> statement-breakpoint
+ALTER TABLE "lab_results" ADD COLUMN "collection_date" date;
\ No newline at end of file
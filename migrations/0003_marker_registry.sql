@@ -0,0 +1,11 @@
+CREATE TABLE "marker_aliases" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"alias" text NOT NULL,
+	"canonical_code" text NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "health_markers" ADD COLUMN "canonical_code" text;--> statement-breakpoint
+ALTER TABLE "marker_aliases" ADD CONSTRAINT "marker_aliases_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "marker_aliases_user_alias_idx" ON "marker_aliases" USING btree ("user_id","alias");
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE "lab_jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"lab_result_id" integer NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"stage" text,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 3 NOT NULL,
+	"run_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"locked_at" timestamp,
+	"last_error" text,
+	"file_data" "bytea",
+	"file_kind" text,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "lab_results" ALTER COLUMN "status" SET DEFAULT 'queued';--> statement-breakpoint
+ALTER TABLE "lab_jobs" ADD CONSTRAINT "lab_jobs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lab_jobs" ADD CONSTRAINT "lab_jobs_lab_result_id_lab_results_id_fk" FOREIGN KEY ("lab_result_id") REFERENCES "public"."lab_results"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "lab_jobs_status_run_at_idx" ON "lab_jobs" USING btree ("status","run_at");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "lab_results" ADD COLUMN "processing_error" text;
\ No newline at end of file
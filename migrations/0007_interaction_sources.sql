@@ -0,0 +1,5 @@
+ALTER TABLE "interactions" ADD COLUMN "source" text DEFAULT 'ai' NOT NULL;--> statement-breakpoint
+ALTER TABLE "interactions" ADD COLUMN "mechanism" text;--> statement-breakpoint
+ALTER TABLE "interactions" ADD COLUMN "citation" text;--> statement-breakpoint
+ALTER TABLE "interactions" ADD COLUMN "rule_id" text;--> statement-breakpoint
+ALTER TABLE "interactions" ADD COLUMN "rules_version" text;
\ No newline at end of file
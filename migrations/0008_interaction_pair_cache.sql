@@ -0,0 +1,15 @@
+CREATE TABLE "interaction_pair_checks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"pair_key" text NOT NULL,
+	"result" jsonb,
+	"checked_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "interactions" ADD COLUMN "first_seen_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL;--> statement-breakpoint
+ALTER TABLE "interactions" ADD COLUMN "last_confirmed_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL;--> statement-breakpoint
+UPDATE "interactions" SET "first_seen_at" = "created_at", "last_confirmed_at" = "created_at";--> statement-breakpoint
+DELETE FROM "interactions" a USING "interactions" b WHERE a."user_id" = b."user_id" AND a."medication_id" IS NOT DISTINCT FROM b."medication_id" AND a."supplement_id" IS NOT DISTINCT FROM b."supplement_id" AND a."id" > b."id";--> statement-breakpoint
+ALTER TABLE "interaction_pair_checks" ADD CONSTRAINT "interaction_pair_checks_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "interaction_pair_checks_user_key_idx" ON "interaction_pair_checks" USING btree ("user_id","pair_key");--> statement-breakpoint
+CREATE UNIQUE INDEX "interactions_user_pair_idx" ON "interactions" USING btree ("user_id","medication_id","supplement_id");
\ No newline at end of file
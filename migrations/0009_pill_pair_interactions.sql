@@ -0,0 +1,19 @@
+ALTER TABLE "interactions" DROP CONSTRAINT "interactions_medication_id_medications_id_fk";
+--> statement-breakpoint
+ALTER TABLE "interactions" DROP CONSTRAINT "interactions_supplement_id_supplements_id_fk";
+--> statement-breakpoint
+DROP INDEX "interactions_user_pair_idx";--> statement-breakpoint
+DELETE FROM "interactions" WHERE "medication_id" IS NULL OR "supplement_id" IS NULL;--> statement-breakpoint
+ALTER TABLE "interactions" ADD COLUMN "pill_a_type" text;--> statement-breakpoint
+ALTER TABLE "interactions" ADD COLUMN "pill_a_id" integer;--> statement-breakpoint
+ALTER TABLE "interactions" ADD COLUMN "pill_b_type" text;--> statement-breakpoint
+ALTER TABLE "interactions" ADD COLUMN "pill_b_id" integer;--> statement-breakpoint
+UPDATE "interactions" SET "pill_a_type" = 'medication', "pill_a_id" = "medication_id", "pill_b_type" = 'supplement', "pill_b_id" = "supplement_id";--> statement-breakpoint
+ALTER TABLE "interactions" ALTER COLUMN "pill_a_type" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "interactions" ALTER COLUMN "pill_a_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "interactions" ALTER COLUMN "pill_b_type" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "interactions" ALTER COLUMN "pill_b_id" SET NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "interactions_user_pair_idx" ON "interactions" USING btree ("user_id","pill_a_type","pill_a_id","pill_b_type","pill_b_id");--> statement-breakpoint
+ALTER TABLE "interactions" DROP COLUMN "medication_id";--> statement-breakpoint
+ALTER TABLE "interactions" DROP COLUMN "supplement_id";--> statement-breakpoint
+DELETE FROM "interaction_pair_checks";
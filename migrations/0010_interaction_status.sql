@@ -0,0 +1,6 @@
+ALTER TABLE "interactions" ADD COLUMN "status" text DEFAULT 'new' NOT NULL;--> statement-breakpoint
+ALTER TABLE "interactions" ADD COLUMN "status_note" text;--> statement-breakpoint
+ALTER TABLE "interactions" ADD COLUMN "status_changed_at" timestamp;--> statement-breakpoint
+-- allowed_together_with held bare ids of the same pill type; it now holds { type, id } refs.
+UPDATE "medications" SET "allowed_together_with" = (SELECT coalesce(jsonb_agg(jsonb_build_object('type', 'medication', 'id', e)), '[]'::jsonb) FROM jsonb_array_elements("allowed_together_with") AS e WHERE jsonb_typeof(e) = 'number') WHERE jsonb_typeof("allowed_together_with") = 'array';--> statement-breakpoint
+UPDATE "supplements" SET "allowed_together_with" = (SELECT coalesce(jsonb_agg(jsonb_build_object('type', 'supplement', 'id', e)), '[]'::jsonb) FROM jsonb_array_elements("allowed_together_with") AS e WHERE jsonb_typeof(e) = 'number') WHERE jsonb_typeof("allowed_together_with") = 'array';
@@ -0,0 +1 @@
+ALTER TABLE "medications" ADD COLUMN "fixed_timing" boolean DEFAULT true;
\ No newline at end of file
@@ -0,0 +1,28 @@
+ALTER TABLE "medications" ADD COLUMN "schedule" jsonb DEFAULT '{"kind":"daily","timesPerDay":1}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "supplements" ADD COLUMN "schedule" jsonb DEFAULT '{"kind":"daily","timesPerDay":1}'::jsonb NOT NULL;--> statement-breakpoint
+-- frequency was free text picked from a fixed list; anything unrecognised becomes once daily.
+-- Weekly and every-other-day count from the day the pill was added.
+UPDATE "medications" SET "schedule" = CASE lower(trim("frequency"))
+  WHEN 'twice daily' THEN '{"kind":"daily","timesPerDay":2}'::jsonb
+  WHEN 'three times daily' THEN '{"kind":"daily","timesPerDay":3}'::jsonb
+  WHEN 'every 4 hours' THEN '{"kind":"daily","timesPerDay":4}'::jsonb
+  WHEN 'every 6 hours' THEN '{"kind":"daily","timesPerDay":4}'::jsonb
+  WHEN 'every 8 hours' THEN '{"kind":"daily","timesPerDay":3}'::jsonb
+  WHEN 'every other day' THEN jsonb_build_object('kind', 'interval', 'everyDays', 2, 'startDate', to_char("created_at", 'YYYY-MM-DD'), 'timesPerDay', 1)
+  WHEN 'weekly' THEN jsonb_build_object('kind', 'interval', 'everyDays', 7, 'startDate', to_char("created_at", 'YYYY-MM-DD'), 'timesPerDay', 1)
+  WHEN 'as needed' THEN '{"kind":"as_needed"}'::jsonb
+  ELSE '{"kind":"daily","timesPerDay":1}'::jsonb
+END;--> statement-breakpoint
+UPDATE "supplements" SET "schedule" = CASE lower(trim("frequency"))
+  WHEN 'twice daily' THEN '{"kind":"daily","timesPerDay":2}'::jsonb
+  WHEN 'three times daily' THEN '{"kind":"daily","timesPerDay":3}'::jsonb
+  WHEN 'every 4 hours' THEN '{"kind":"daily","timesPerDay":4}'::jsonb
+  WHEN 'every 6 hours' THEN '{"kind":"daily","timesPerDay":4}'::jsonb
+  WHEN 'every 8 hours' THEN '{"kind":"daily","timesPerDay":3}'::jsonb
+  WHEN 'every other day' THEN jsonb_build_object('kind', 'interval', 'everyDays', 2, 'startDate', to_char("created_at", 'YYYY-MM-DD'), 'timesPerDay', 1)
+  WHEN 'weekly' THEN jsonb_build_object('kind', 'interval', 'everyDays', 7, 'startDate', to_char("created_at", 'YYYY-MM-DD'), 'timesPerDay', 1)
+  WHEN 'as needed' THEN '{"kind":"as_needed"}'::jsonb
+  ELSE '{"kind":"daily","timesPerDay":1}'::jsonb
+END;--> statement-breakpoint
+ALTER TABLE "medications" DROP COLUMN "frequency";--> statement-breakpoint
+ALTER TABLE "supplements" DROP COLUMN "frequency";
\ No newline at end of file
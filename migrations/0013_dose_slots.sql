@@ -0,0 +1,42 @@
+ALTER TABLE "medications" ALTER COLUMN "schedule" SET DEFAULT '{"kind":"daily"}'::jsonb;--> statement-breakpoint
+ALTER TABLE "supplements" ALTER COLUMN "schedule" SET DEFAULT '{"kind":"daily"}'::jsonb;--> statement-breakpoint
+ALTER TABLE "medications" ADD COLUMN "dose_slots" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "pill_doses" ADD COLUMN "slot_id" text DEFAULT '1' NOT NULL;--> statement-breakpoint
+ALTER TABLE "supplements" ADD COLUMN "dose_slots" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+-- timesPerDay moves out of schedule into one dose slot per dose, spread through the day from the
+-- pill's block the way dose generation did (twice daily from morning = morning + evening).
+UPDATE "medications" SET "dose_slots" = (
+  SELECT jsonb_agg(jsonb_build_object(
+    'id', (i + 1)::text,
+    'timeBlock', (ARRAY['morning', 'midday', 'evening', 'bedtime'])[(b.start + (i * 4) / b.n) % 4 + 1],
+    'scheduledTime', CASE WHEN i = 0 THEN "scheduled_time" END,
+    'amount', NULL,
+    'foodRule', NULL
+  ) ORDER BY i)
+  FROM (
+    SELECT coalesce(array_position(ARRAY['morning', 'midday', 'evening', 'bedtime'], "time_block"), 1) - 1 AS start,
+      least(greatest(coalesce(("schedule"->>'timesPerDay')::int, 1), 1), 4) AS n
+  ) AS b, generate_series(0, b.n - 1) AS i
+);--> statement-breakpoint
+UPDATE "supplements" SET "dose_slots" = (
+  SELECT jsonb_agg(jsonb_build_object(
+    'id', (i + 1)::text,
+    'timeBlock', (ARRAY['morning', 'midday', 'evening', 'bedtime'])[(b.start + (i * 4) / b.n) % 4 + 1],
+    'scheduledTime', CASE WHEN i = 0 THEN "scheduled_time" END,
+    'amount', NULL,
+    'foodRule', NULL
+  ) ORDER BY i)
+  FROM (
+    SELECT coalesce(array_position(ARRAY['morning', 'midday', 'evening', 'bedtime'], "time_block"), 1) - 1 AS start,
+      least(greatest(coalesce(("schedule"->>'timesPerDay')::int, 1), 1), 4) AS n
+  ) AS b, generate_series(0, b.n - 1) AS i
+);--> statement-breakpoint
+-- Existing doses belong to the slot in their block (slot_id defaults to the first).
+UPDATE "pill_doses" AS d SET "slot_id" = s."id"
+FROM "medications" AS p, jsonb_to_recordset(p."dose_slots") AS s("id" text, "timeBlock" text)
+WHERE d."pill_type" = 'medication' AND d."pill_id" = p."id" AND s."timeBlock" = d."scheduled_time_block";--> statement-breakpoint
+UPDATE "pill_doses" AS d SET "slot_id" = s."id"
+FROM "supplements" AS p, jsonb_to_recordset(p."dose_slots") AS s("id" text, "timeBlock" text)
+WHERE d."pill_type" = 'supplement' AND d."pill_id" = p."id" AND s."timeBlock" = d."scheduled_time_block";--> statement-breakpoint
+UPDATE "medications" SET "schedule" = "schedule" - 'timesPerDay';--> statement-breakpoint
+UPDATE "supplements" SET "schedule" = "schedule" - 'timesPerDay';
@@ -0,0 +1,18 @@
+CREATE TABLE "pill_history" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"pill_type" text NOT NULL,
+	"pill_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"dosage" text NOT NULL,
+	"event" text NOT NULL,
+	"course_start_date" date,
+	"course_end_date" date,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "medications" ADD COLUMN "course_start_date" date;--> statement-breakpoint
+ALTER TABLE "medications" ADD COLUMN "course_end_date" date;--> statement-breakpoint
+ALTER TABLE "supplements" ADD COLUMN "course_start_date" date;--> statement-breakpoint
+ALTER TABLE "supplements" ADD COLUMN "course_end_date" date;--> statement-breakpoint
+ALTER TABLE "pill_history" ADD CONSTRAINT "pill_history_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "pill_refills" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"pill_type" text NOT NULL,
+	"pill_id" integer NOT NULL,
+	"quantity" integer NOT NULL,
+	"note" text,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "medications" ADD COLUMN "pills_on_hand" integer;--> statement-breakpoint
+ALTER TABLE "medications" ADD COLUMN "pills_per_dose" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "medications" ADD COLUMN "refill_threshold_days" integer DEFAULT 7 NOT NULL;--> statement-breakpoint
+ALTER TABLE "pill_doses" ADD COLUMN "pills_deducted" integer;--> statement-breakpoint
+ALTER TABLE "reminders" ADD COLUMN "related_type" text;--> statement-breakpoint
+ALTER TABLE "supplements" ADD COLUMN "pills_on_hand" integer;--> statement-breakpoint
+ALTER TABLE "supplements" ADD COLUMN "pills_per_dose" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "supplements" ADD COLUMN "refill_threshold_days" integer DEFAULT 7 NOT NULL;--> statement-breakpoint
+ALTER TABLE "pill_refills" ADD CONSTRAINT "pill_refills_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- Pill reminders already say which table relatedId points at
+UPDATE "reminders" SET "related_type" = "type" WHERE "related_id" IS NOT NULL AND "type" IN ('medication', 'supplement');
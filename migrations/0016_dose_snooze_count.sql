@@ -0,0 +1 @@
+ALTER TABLE "pill_doses" ADD COLUMN "snooze_count" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
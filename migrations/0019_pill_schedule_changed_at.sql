@@ -0,0 +1,4 @@
+-- Existing pills may have been edited since they were added, so the column's default (now) keeps
+-- the dose sweep from backfilling their history from before this migration
+ALTER TABLE "medications" ADD COLUMN "schedule_changed_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL;--> statement-breakpoint
+ALTER TABLE "supplements" ADD COLUMN "schedule_changed_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL;
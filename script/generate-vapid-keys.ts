@@ -0,0 +1,9 @@
+// Prints a fresh VAPID key pair for Web Push; add the lines to the server's environment.
+// Changing the keys later invalidates every existing push subscription.
+import webpush from "web-push";
+
+const { publicKey, privateKey } = webpush.generateVAPIDKeys();
+
+console.log(`VAPID_PUBLIC_KEY=${publicKey}`);
+console.log(`VAPID_PRIVATE_KEY=${privateKey}`);
+console.log("VAPID_SUBJECT=mailto:you@example.com");
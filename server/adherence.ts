@@ -0,0 +1,208 @@
+// server/adherence.ts
+import { storage } from "./storage";
+import { toMinutes } from "./scheduler";
+import { addDays, daysBetween, doseSlotsOf, localDateTime } from "@shared/pill-schedule";
+import {
+  timeBlocks,
+  timeBlockWindows,
+  type AdherenceQuery,
+  type AdherenceRate,
+  type AdherenceReport,
+  type Lateness,
+  type Medication,
+  type PillDose,
+  type PillRef,
+  type Supplement,
+  type TimeBlock,
+} from "@shared/schema";
+
+// Days covered when the query leaves out the range
+const DEFAULT_RANGE_DAYS = 30;
+
+// A time block, weekday or pill needs this many due doses before it's worth an insight
+const MIN_INSIGHT_SAMPLES = 3;
+
+// Flag a time block or weekday whose rate trails the overall rate by at least this much
+const INSIGHT_GAP = 0.15;
+
+// Flag a pill taken less often than this
+const LOW_PILL_RATE = 0.8;
+
+// Flag a time block taken this many minutes late on average
+const LATE_INSIGHT_MINUTES = 30;
+
+const weekdayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const weekdayOrder = [1, 2, 3, 4, 5, 6, 0]; // Monday first, as in the planner
+
+// One due dose and what happened to it
+type Outcome = {
+  dose: PillDose;
+  pill: PillRef;
+  name: string;
+  taken: boolean;
+  lateBy: number | null; // minutes after the scheduled time; null unless taken with a takenAt
+};
+
+const pillKey = (pill: PillRef) => `${pill.type}:${pill.id}`;
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+function rateOf(outcomes: Outcome[]): AdherenceRate {
+  const taken = outcomes.filter((o) => o.taken).length;
+  return { due: outcomes.length, taken, rate: outcomes.length > 0 ? taken / outcomes.length : null };
+}
+
+function latenessOf(outcomes: Outcome[]): Lateness {
+  const samples = outcomes.flatMap((o) => (o.lateBy === null ? [] : [o.lateBy]));
+  return {
+    averageMinutes: samples.length > 0 ? Math.round(samples.reduce((sum, m) => sum + m, 0) / samples.length) : null,
+    samples: samples.length,
+  };
+}
+
+/**
+ * When a dose was meant to be taken: its slot's exact time, or the middle of its block when the
+ * slot has no time (or the dose was moved to another block).
+ */
+function scheduledMinutes(dose: PillDose, item: Medication | Supplement): number | null {
+  const block = dose.scheduledTimeBlock as TimeBlock;
+  if (!timeBlocks.includes(block)) return null;
+
+  const slot = doseSlotsOf(item).find((s) => s.id === dose.slotId);
+  const time = slot?.timeBlock === block && slot.scheduledTime ? slot.scheduledTime : timeBlockWindows[block].defaultTime;
+  return toMinutes(time);
+}
+
+/**
+ * Days in a row with every due dose taken, walking the range in date order. Days with nothing
+ * due don't break a streak.
+ */
+function streaksOf(outcomes: Outcome[]): AdherenceReport["streaks"] {
+  const byDate = new Map<string, Outcome[]>();
+  for (const o of outcomes) byDate.set(o.dose.scheduledDate, [...(byDate.get(o.dose.scheduledDate) ?? []), o]);
+
+  let current = 0;
+  let longest = 0;
+  for (const date of Array.from(byDate.keys()).sort()) {
+    current = byDate.get(date)!.every((o) => o.taken) ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+  return { current, longest };
+}
+
+/**
+ * The patterns worth pointing out, most specific first.
+ */
+function insightsFor(report: Omit<AdherenceReport, "insights">): string[] {
+  const insights: string[] = [];
+  const overall = report.overall.rate;
+  if (overall === null) return insights;
+
+  const lowest = <T extends AdherenceRate>(rows: T[]) =>
+    rows
+      .filter((r) => r.rate !== null && r.due >= MIN_INSIGHT_SAMPLES)
+      .sort((a, b) => a.rate! - b.rate!)[0] as T | undefined;
+
+  const block = lowest(report.byTimeBlock);
+  if (block && block.rate! <= overall - INSIGHT_GAP) {
+    insights.push(`You take ${percent(block.rate!)} of your ${block.timeBlock} doses, compared with ${percent(overall)} overall`);
+  }
+
+  const weekday = lowest(report.byWeekday);
+  if (weekday && weekday.rate! <= overall - INSIGHT_GAP) {
+    insights.push(`${weekdayNames[weekday.weekday]}s are your hardest day: ${percent(weekday.rate!)} of doses taken`);
+  }
+
+  const pill = lowest(report.byPill);
+  if (pill && pill.rate! < LOW_PILL_RATE) {
+    insights.push(`${pill.name} is the one you miss most (${percent(pill.rate!)} taken)`);
+  }
+
+  const late = report.byTimeBlock
+    .filter((b) => b.averageMinutes !== null && b.samples >= MIN_INSIGHT_SAMPLES)
+    .sort((a, b) => b.averageMinutes! - a.averageMinutes!)[0];
+  if (late && late.averageMinutes! >= LATE_INSIGHT_MINUTES) {
+    insights.push(`Your ${late.timeBlock} doses are taken ${late.averageMinutes} minutes late on average`);
+  }
+
+  if (report.streaks.current >= 3) {
+    insights.push(`${report.streaks.current} days in a row with every dose taken`);
+  }
+  return insights;
+}
+
+/**
+ * Aggregate a user's dose history over a date range.
+ *
+ * @param userId - Whose doses to aggregate
+ * @param query - The range (inclusive; defaults to the 30 days ending today) and the time zone
+ *   takenAt is read in
+ * @returns Rates per pill, time block and weekday, streaks, lateness and insights.
+ *
+ * Postconditions:
+ * - Only due doses count: taken, skipped or missed ones, and any dose from a day before today (a
+ *   pending or snoozed dose from an earlier day was missed). Today's open doses are left out.
+ * - Doses of deleted pills are left out.
+ * - Lateness only uses taken doses with a takenAt, measured from the slot's time in its time block.
+ */
+export async function computeAdherence(userId: string, query: AdherenceQuery): Promise<AdherenceReport> {
+  const { timeZone } = query;
+  const today = localDateTime(new Date(), timeZone).date;
+  const to = query.to ?? (query.from && query.from > today ? query.from : today);
+  const from = query.from ?? addDays(to, -(DEFAULT_RANGE_DAYS - 1));
+
+  const [doses, medications, supplements] = await Promise.all([
+    storage.getPillDosesBetween(userId, from, to),
+    storage.getMedications(userId),
+    storage.getSupplements(userId),
+  ]);
+  const items = new Map<string, Medication | Supplement>([
+    ...medications.map((m) => [pillKey({ type: "medication", id: m.id }), m] as const),
+    ...supplements.map((s) => [pillKey({ type: "supplement", id: s.id }), s] as const),
+  ]);
+
+  const outcomes: Outcome[] = doses.flatMap((dose) => {
+    const pill: PillRef = { type: dose.pillType as PillRef["type"], id: dose.pillId };
+    const item = items.get(pillKey(pill));
+    const open = dose.status === "pending" || dose.status === "snoozed";
+    const due = !open || dose.scheduledDate < today;
+    if (!item || !due) return [];
+
+    const taken = dose.status === "taken";
+    let lateBy: number | null = null;
+    const scheduled = scheduledMinutes(dose, item);
+    if (taken && dose.takenAt && scheduled !== null) {
+      const local = localDateTime(dose.takenAt, timeZone);
+      lateBy = daysBetween(dose.scheduledDate, local.date) * 24 * 60 + local.minutes - scheduled;
+    }
+    return [{ dose, pill, name: item.name, taken, lateBy }];
+  });
+
+  const byPill = Array.from(new Set(outcomes.map((o) => pillKey(o.pill))))
+    .map((key) => {
+      const rows = outcomes.filter((o) => pillKey(o.pill) === key);
+      return { pill: rows[0].pill, name: rows[0].name, ...rateOf(rows) };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const byTimeBlock = timeBlocks.map((timeBlock) => {
+    const rows = outcomes.filter((o) => o.dose.scheduledTimeBlock === timeBlock);
+    return { timeBlock, ...rateOf(rows), ...latenessOf(rows) };
+  });
+
+  const byWeekday = weekdayOrder.map((weekday) => ({
+    weekday,
+    ...rateOf(outcomes.filter((o) => new Date(`${o.dose.scheduledDate}T00:00:00Z`).getUTCDay() === weekday)),
+  }));
+
+  const report = {
+    from,
+    to,
+    overall: rateOf(outcomes),
+    byPill,
+    byTimeBlock,
+    byWeekday,
+    streaks: streaksOf(outcomes),
+    lateness: latenessOf(outcomes),
+  };
+  return { ...report, insights: insightsFor(report) };
+}
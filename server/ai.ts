@@ -0,0 +1,279 @@
+// server/ai.ts
+import { z } from "zod";
+import { createGeminiProvider, getGeminiApiKey } from "./gemini";
+import { createFakeAiProvider } from "./fake-ai";
+import { markerCategories, pillTypes, type AiStatus } from "@shared/schema";
+
+// Models sometimes quote numbers ("12.5"); accept those, but nothing like "<1" or "12 ng/mL".
+const aiNumber = z.preprocess(
+  (v) => (typeof v === "string" && /^\s*-?\d+(\.\d+)?\s*$/.test(v) ? Number(v) : v),
+  z.number().finite(),
+);
+
+export const extractedMarkerSchema = z.object({
+  name: z.string().trim().min(1),
+  value: aiNumber,
+  unit: z.string().trim(),
+  normalMin: aiNumber.nullable(),
+  normalMax: aiNumber.nullable(),
+  status: z.enum(["low", "normal", "high"]),
+  category: z.enum(markerCategories),
+});
+
+export const extractedRecommendationSchema = z.object({
+  type: z.enum(["supplement", "dietary", "physical"]),
+  title: z.string().trim().min(1),
+  description: z.string().trim().min(1),
+  priority: z.enum(["high", "medium", "low"]),
+  relatedMarker: z.string().trim().nullable(),
+  actionItems: z.array(z.string().trim().min(1)),
+});
+
+export const extractedDataSchema = z.object({
+  markers: z.array(extractedMarkerSchema),
+  recommendations: z.array(extractedRecommendationSchema),
+});
+
+const pillRefSchema = z.object({
+  type: z.enum(pillTypes),
+  id: z.number().int(),
+});
+
+// Any two listed pills: medication + supplement, medication + medication or supplement + supplement
+export const interactionResultSchema = z.object({
+  pillA: pillRefSchema,
+  pillB: pillRefSchema,
+  severity: z.enum(["mild", "moderate", "severe"]),
+  description: z.string().trim().min(1),
+  recommendation: z.string().trim().min(1),
+});
+
+export const interactionResponseSchema = z.object({
+  interactions: z.array(interactionResultSchema),
+});
+
+// A medication or supplement sent for an interaction check
+export type InteractionCheckItem = { id: number; name: string; dosage?: string };
+
+export type ExtractedMarker = z.infer<typeof extractedMarkerSchema>;
+export type ExtractedData = z.infer<typeof extractedDataSchema>;
+export type InteractionResult = z.infer<typeof interactionResultSchema>;
+
+/**
+ * Everything the app asks of a language model. Implementations must not throw at construction,
+ * so a misconfigured provider only fails the requests that need it, and must only return data
+ * that passes the schemas above (model-backed providers go through generateValidatedJson).
+ */
+export interface AiProvider {
+  name: string;
+  extractLabData(text: string): Promise<ExtractedData>;
+  checkInteractions(
+    medications: InteractionCheckItem[],
+    supplements: InteractionCheckItem[],
+  ): Promise<InteractionResult[]>;
+}
+
+/**
+ * Thrown when an AI feature is used while no provider is configured.
+ */
+export class AiDisabledError extends Error {
+  constructor() {
+    super("AI features are disabled (no AI provider configured)");
+    this.name = "AiDisabledError";
+  }
+}
+
+/**
+ * Thrown when a model's response still doesn't match the expected schema after the repair pass.
+ */
+export class AiValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`AI response failed validation: ${issues.slice(0, 5).join("; ")}${issues.length > 5 ? "; ..." : ""}`);
+    this.name = "AiValidationError";
+  }
+}
+
+// How many times a provider may ask the model to fix an invalid response before giving up.
+const MAX_REPAIR_ATTEMPTS = 1;
+
+/**
+ * Parse and validate a model's JSON output.
+ *
+ * @param text - Raw response text (structured-output mode should make this bare JSON).
+ * @param schema - Expected shape.
+ * @param check - Extra checks zod can't express (e.g. IDs must come from the request).
+ * @returns The parsed data, or readable issues ("markers.0.status: Invalid enum value ...").
+ */
+function validateAiJson<T>(
+  text: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  check?: (data: T) => string[],
+): { data: T; issues?: undefined } | { data?: undefined; issues: string[] } {
+  let json: unknown;
+  try {
+    // Tolerate a stray markdown fence even though JSON mode shouldn't produce one.
+    json = JSON.parse(text.trim().replace(/^```(?:json)?\s*|\s*```$/g, ""));
+  } catch (error) {
+    return { issues: [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const parsed = schema.safeParse(json);
+  if (!parsed.success) {
+    return { issues: parsed.error.errors.map((e) => `${e.path.join(".") || "(root)"}: ${e.message}`) };
+  }
+
+  const extraIssues = check?.(parsed.data) ?? [];
+  return extraIssues.length > 0 ? { issues: extraIssues } : { data: parsed.data };
+}
+
+/**
+ * Ask a model for JSON and validate it, giving the model a chance to fix invalid output.
+ *
+ * @param generate - Sends one prompt to the model and returns its raw text.
+ * @param prompt - The original request.
+ * @param schema - Expected shape of the response.
+ * @param check - Extra semantic checks, returning issue messages.
+ * @returns Validated data.
+ * @throws AiValidationError when the response is still invalid after MAX_REPAIR_ATTEMPTS repairs.
+ *
+ * Postconditions:
+ * - Transport errors from generate are not caught; callers decide whether to retry.
+ */
+export async function generateValidatedJson<T>(
+  generate: (prompt: string) => Promise<string>,
+  prompt: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  check?: (data: T) => string[],
+): Promise<T> {
+  let text = await generate(prompt);
+  let result = validateAiJson(text, schema, check);
+
+  for (let attempt = 1; result.issues && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    console.warn(`AI response failed validation (repair ${attempt}/${MAX_REPAIR_ATTEMPTS}):`, result.issues);
+    text = await generate(`${prompt}
+
+Your previous response was:
+${text}
+
+It is invalid for these reasons:
+${result.issues.map((issue) => `- ${issue}`).join("\n")}
+
+Respond again with corrected JSON only. Keep every valid item; fix or drop the invalid ones.`);
+    result = validateAiJson(text, schema, check);
+  }
+
+  if (result.issues) throw new AiValidationError(result.issues);
+  return result.data;
+}
+
+/**
+ * Issues for interactions that reference pills the model wasn't given (hallucinated or swapped
+ * IDs), or pair a pill with itself.
+ *
+ * @param medications - Medications sent to the model
+ * @param supplements - Supplements sent to the model
+ * @returns A check for generateValidatedJson.
+ */
+export function interactionIdIssues(
+  medications: { id: number }[],
+  supplements: { id: number }[],
+): (data: { interactions: InteractionResult[] }) => string[] {
+  const listed = {
+    medication: new Set(medications.map((m) => m.id)),
+    supplement: new Set(supplements.map((s) => s.id)),
+  };
+
+  return (data) =>
+    data.interactions.flatMap((interaction, i) => [
+      ...(["pillA", "pillB"] as const).flatMap((side) => {
+        const pill = interaction[side];
+        return listed[pill.type].has(pill.id)
+          ? []
+          : [`interactions.${i}.${side}: ${pill.id} is not one of the listed ${pill.type} IDs`];
+      }),
+      ...(interaction.pillA.type === interaction.pillB.type && interaction.pillA.id === interaction.pillB.id
+        ? [`interactions.${i}: pillA and pillB are the same ${interaction.pillA.type}`]
+        : []),
+    ]);
+}
+
+let provider: AiProvider | null | undefined;
+
+/**
+ * Pick the provider from AI_PROVIDER ("gemini" | "fake" | "disabled").
+ *
+ * Postconditions:
+ * - Without AI_PROVIDER, Gemini is used when an API key is set and AI is disabled otherwise.
+ * - Returns null when AI is disabled; never throws.
+ */
+function selectProvider(): AiProvider | null {
+  const configured = process.env.AI_PROVIDER?.trim().toLowerCase();
+  const apiKey = getGeminiApiKey();
+
+  switch (configured) {
+    case "fake":
+      return createFakeAiProvider();
+    case "disabled":
+    case "none":
+      return null;
+    case "gemini":
+    case undefined:
+    case "":
+      if (apiKey) return createGeminiProvider(apiKey);
+      if (configured === "gemini") {
+        console.warn("AI_PROVIDER=gemini but no Gemini API key is set; AI features are disabled");
+      }
+      return null;
+    default:
+      console.warn(`Unknown AI_PROVIDER "${configured}"; AI features are disabled`);
+      return null;
+  }
+}
+
+/**
+ * The configured provider, or null when AI is disabled. Chosen once per process.
+ */
+export function getAiProvider(): AiProvider | null {
+  if (provider === undefined) {
+    provider = selectProvider();
+    console.log(provider ? `AI provider: ${provider.name}` : "AI features are disabled (no AI provider configured)");
+  }
+  return provider;
+}
+
+export function getAiStatus(): AiStatus {
+  const current = getAiProvider();
+  return { enabled: current != null, provider: current?.name ?? null };
+}
+
+function requireAiProvider(): AiProvider {
+  const current = getAiProvider();
+  if (!current) throw new AiDisabledError();
+  return current;
+}
+
+/**
+ * Extract markers and recommendations from lab report text.
+ *
+ * @throws AiDisabledError when no provider is configured.
+ * @throws AiValidationError when the provider's answer doesn't match extractedDataSchema.
+ */
+export async function extractLabData(text: string): Promise<ExtractedData> {
+  return requireAiProvider().extractLabData(text);
+}
+
+/**
+ * Find interactions between any two of the given medications and supplements.
+ *
+ * @throws AiDisabledError when no provider is configured.
+ * @throws AiValidationError when the provider's answer is malformed or references unknown IDs.
+ */
+export async function checkInteractions(
+  medications: InteractionCheckItem[],
+  supplements: InteractionCheckItem[],
+): Promise<InteractionResult[]> {
+  if (medications.length + supplements.length < 2) {
+    return [];
+  }
+  return requireAiProvider().checkInteractions(medications, supplements);
+}
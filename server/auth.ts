@@ -0,0 +1,230 @@
+// server/auth.ts
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { pool } from "./db";
+import { storage } from "./storage";
+import { loginSchema, signupSchema, type PublicUser, type User as UserRecord } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends UserRecord {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+/**
+ * The secret sessions are signed with (also signs push notification action tokens).
+ *
+ * Postconditions:
+ * - Falls back to a fixed development secret when SESSION_SECRET is unset; setupAuth refuses to
+ *   start without it in production.
+ */
+export function getSessionSecret(): string {
+  return process.env.SESSION_SECRET || "lab2life-dev-secret";
+}
+
+/**
+ * Hash a password with a random salt.
+ *
+ * @param password - Plain-text password.
+ * @returns "<hex hash>.<hex salt>" suitable for the users.password column.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+/**
+ * Compare a plain-text password against a stored hash in constant time.
+ *
+ * @param supplied - Password entered by the user.
+ * @param stored - Value from users.password ("<hash>.<salt>").
+ * @returns True if the password matches.
+ *
+ * Postconditions:
+ * - Returns false (never throws) for malformed stored values.
+ */
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+
+  const storedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  if (storedBuf.length !== suppliedBuf.length) return false;
+
+  return timingSafeEqual(storedBuf, suppliedBuf);
+}
+
+/**
+ * Strip the password hash before sending a user to the client.
+ */
+export function toPublicUser(user: UserRecord): PublicUser {
+  const { password, ...publicUser } = user;
+  return publicUser;
+}
+
+/**
+ * Read the authenticated user's id from the request.
+ *
+ * Preconditions:
+ * - requireAuth has already run for this request.
+ */
+export function getUserId(req: Request): string {
+  if (!req.user) {
+    throw new Error("getUserId called on an unauthenticated request");
+  }
+  return req.user.id;
+}
+
+/**
+ * Reject requests without a logged-in session with 401.
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) return next();
+  res.status(401).json({ error: "Not authenticated" });
+}
+
+/**
+ * Install session + passport middleware and the /api/auth routes.
+ *
+ * Preconditions:
+ * - Must be called before any route that relies on req.user.
+ * Postconditions:
+ * - Sessions are persisted in Postgres (table "session", created if missing).
+ */
+export function setupAuth(app: Express) {
+  const isProduction = process.env.NODE_ENV === "production";
+  const secret = process.env.SESSION_SECRET;
+
+  if (!secret && isProduction) {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  const PgSessionStore = connectPgSimple(session);
+
+  if (isProduction) {
+    // Render/Vercel terminate TLS in front of us; needed for secure cookies.
+    app.set("trust proxy", 1);
+  }
+
+  app.use(
+    session({
+      store: new PgSessionStore({ pool, createTableIfMissing: true }),
+      secret: getSessionSecret(),
+      resave: false,
+      saveUninitialized: false,
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: isProduction,
+        maxAge: SESSION_MAX_AGE_MS,
+      },
+    }),
+  );
+
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username.trim());
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // A deleted user just ends the session instead of erroring every request.
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/auth/signup", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = signupSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+
+      const { username, password } = parsed.data;
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ error: "Username is already taken" });
+      }
+
+      const user = await storage.createUser({
+        username,
+        password: await hashPassword(password),
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      console.error("Error signing up:", error);
+      res.status(500).json({ error: "Failed to sign up" });
+    }
+  });
+
+  app.post("/api/auth/login", (req: Request, res: Response, next: NextFunction) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors });
+    }
+
+    passport.authenticate("local", (err: unknown, user: UserRecord | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  // The client sends this browser's push endpoint (if subscribed) so the next person on a shared
+  // device doesn't get this user's notifications
+  app.post("/api/auth/logout", async (req: Request, res: Response, next: NextFunction) => {
+    const { endpoint } = (req.body ?? {}) as { endpoint?: unknown };
+    if (req.user && typeof endpoint === "string") {
+      try {
+        await storage.deletePushSubscription(req.user.id, endpoint);
+      } catch (error) {
+        return next(error);
+      }
+    }
+
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.status(204).send();
+      });
+    });
+  });
+}
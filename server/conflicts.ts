@@ -0,0 +1,140 @@
+// server/conflicts.ts
+import { evaluateInteractionRules, orderPillPair } from "./interaction-rules";
+import { collectSeparations, currentSlot, loadRegimen, planSchedule, takenTogetherOnPurpose, toMinutes } from "./scheduler";
+import { doseSlotsOf } from "@shared/pill-schedule";
+import type { Medication, PillConflict, PillConflictReport, PillRef, Supplement } from "@shared/schema";
+
+type Severity = NonNullable<PillConflict["severity"]>;
+
+const pillKey = (pill: PillRef) => `${pill.type}:${pill.id}`;
+const samePill = (a: PillRef, b: PillRef) => a.type === b.type && a.id === b.id;
+
+function pairKey(a: PillRef, b: PillRef): string {
+  const [first, second] = orderPillPair(a, b);
+  return `${pillKey(first)}|${pillKey(second)}`;
+}
+
+/**
+ * Check one pill's schedule against the rest of the user's active regimen.
+ *
+ * @param userId - Owner of the pill
+ * @param pill - The pill that was just added or changed
+ * @returns The conflicts, plus schedule changes that would fix the timing ones.
+ *
+ * Postconditions:
+ * - "separate" conflicts are doses of pairs (from separation rules, curated rules or interactions)
+ *   scheduled closer together than they should be, one per clashing pair of doses; "avoid"
+ *   conflicts are severe interactions that no spacing fixes, reported against the first doses.
+ * - Pairs taken together on purpose are never reported.
+ * - autoFix never moves a medication with a prescribed timing. If the pill itself is fixed, the
+ *   pills it conflicts with are moved instead.
+ * - An inactive or unknown pill has no conflicts.
+ */
+export async function detectPillConflicts(userId: string, pill: PillRef): Promise<PillConflictReport> {
+  const regimen = await loadRegimen(userId);
+  const { medications, supplements, interactions, doses, mealTimes } = regimen;
+
+  // Every active pill, with its first dose (where "avoid" conflicts are reported)
+  const pills = [
+    ...medications.map((m) => ({ type: "medication" as const, item: m as Medication | Supplement })),
+    ...supplements.map((s) => ({ type: "supplement" as const, item: s as Medication | Supplement })),
+  ].map(({ type, item }) => {
+    const first = doseSlotsOf(item)[0];
+    return { type, id: item.id, name: item.name, slotId: first.id, firstSlot: currentSlot(first) };
+  });
+
+  const self = pills.find((p) => samePill(p, pill));
+  if (!self) return { pill, conflicts: [], autoFix: null };
+
+  const find = (other: PillRef) => pills.find((p) => samePill(p, other));
+  const together = (other: PillRef) => takenTogetherOnPurpose(medications, supplements, interactions, pill, other);
+  const avoidConflict = (other: NonNullable<ReturnType<typeof find>>, severity: Severity, reason: string): PillConflict => ({
+    slotId: self.slotId,
+    slot: self.firstSlot,
+    with: { type: other.type, id: other.id },
+    withName: other.name,
+    withSlot: other.firstSlot,
+    kind: "avoid",
+    minutesApart: null,
+    severity,
+    reason,
+  });
+
+  // Severity of each pair, from the curated rules and then the stored interactions
+  const severities = new Map<string, Severity>();
+  const avoid: PillConflict[] = [];
+  const curated = evaluateInteractionRules(pills).filter((c) => samePill(c.pillA, pill) || samePill(c.pillB, pill));
+  for (const c of curated) {
+    const other = find(samePill(c.pillA, pill) ? c.pillB : c.pillA)!;
+    severities.set(pairKey(c.pillA, c.pillB), c.severity);
+    if (c.severity === "severe" && c.separationMinutes === null && !together(other)) {
+      avoid.push(avoidConflict(other, c.severity, c.mechanism));
+    }
+  }
+  for (const row of interactions) {
+    const a: PillRef = { type: row.pillAType as PillRef["type"], id: row.pillAId };
+    const b: PillRef = { type: row.pillBType as PillRef["type"], id: row.pillBId };
+    if (!samePill(a, pill) && !samePill(b, pill)) continue;
+    const key = pairKey(a, b);
+    if (!severities.has(key)) severities.set(key, row.severity as Severity);
+
+    const other = find(samePill(a, pill) ? b : a);
+    if (!other) continue; // not active
+    const alreadyReported = avoid.some((c) => samePill(c.with, other));
+    if (
+      row.severity === "severe" &&
+      row.separationMinutes === null &&
+      row.status !== "resolved" &&
+      !alreadyReported &&
+      !together(other)
+    ) {
+      avoid.push(avoidConflict(other, "severe", row.description));
+    }
+  }
+
+  // Timing conflicts: any dose of this pill too close to a dose of a pill it should be kept apart from
+  const separations = collectSeparations(medications, supplements, interactions);
+  const selfDoses = doses.filter((d) => samePill(d, pill));
+  const separate: PillConflict[] = [];
+  for (const s of separations) {
+    if (!samePill(s.a, pill) && !samePill(s.b, pill)) continue;
+    const other = samePill(s.a, pill) ? s.b : s.a;
+    for (const dose of selfDoses) {
+      for (const otherDose of doses.filter((d) => samePill(d, other))) {
+        if (Math.abs(toMinutes(otherDose.slot.scheduledTime) - toMinutes(dose.slot.scheduledTime)) >= s.minutes) continue;
+        separate.push({
+          slotId: dose.slotId,
+          slot: dose.slot,
+          with: other,
+          withName: otherDose.label,
+          withSlot: otherDose.slot,
+          kind: "separate",
+          minutesApart: s.minutes,
+          severity: severities.get(pairKey(s.a, s.b)) ?? null,
+          reason: s.reason,
+        });
+      }
+    }
+  }
+
+  let autoFix: PillConflictReport["autoFix"] = null;
+  if (separate.length > 0) {
+    // Move only this pill's doses, or (when its timing is prescribed) only those of the pills it clashes with
+    const selfFixed = selfDoses.some((d) => d.fixed);
+    const partners = new Set(separate.map((c) => pillKey(c.with)));
+    const plan = planSchedule(
+      doses.map((d) => ({
+        ...d,
+        fixed: samePill(d, pill) ? d.fixed : d.fixed || !selfFixed || !partners.has(pillKey(d)),
+      })),
+      separations,
+      mealTimes,
+    );
+    const stillClashing = plan.unresolved.some(
+      (issue) => issue.pills.length === 2 && issue.pills.some((p) => samePill(p, pill) || partners.has(pillKey(p))),
+    );
+    if (!stillClashing && plan.changes.length > 0) autoFix = plan.changes;
+  }
+
+  return { pill, conflicts: [...avoid, ...separate], autoFix };
+}
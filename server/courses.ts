@@ -0,0 +1,67 @@
+// server/courses.ts
+import { storage } from "./storage";
+import { localDateTime } from "@shared/pill-schedule";
+import type { Medication, PillType, Supplement } from "@shared/schema";
+
+// How often finished treatment courses are looked for (they end at midnight, so hourly is plenty).
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+let sweepTimer: NodeJS.Timeout | undefined;
+
+/**
+ * Deactivate a user's pills whose treatment course has finished.
+ *
+ * @param userId - Whose pills to check
+ * @param today - The current date in the user's time zone, YYYY-MM-DD
+ * @returns How many pills were deactivated.
+ *
+ * Postconditions:
+ * - Pills whose courseEndDate is before today are inactive, so no more doses are generated for them.
+ * - Each pill deactivated here gets one "course_completed" history entry.
+ */
+export async function completeFinishedCourses(userId: string, today: string): Promise<number> {
+  const ended: { type: PillType; item: Medication | Supplement }[] = [
+    ...(await storage.deactivateEndedMedications(userId, today)).map((item) => ({ type: "medication" as const, item })),
+    ...(await storage.deactivateEndedSupplements(userId, today)).map((item) => ({ type: "supplement" as const, item })),
+  ];
+
+  for (const { type, item } of ended) {
+    await storage.createPillHistoryEntry(item.userId, {
+      pillType: type,
+      pillId: item.id,
+      name: item.name,
+      dosage: item.dosage,
+      event: "course_completed",
+      courseStartDate: item.courseStartDate,
+      courseEndDate: item.courseEndDate,
+    });
+  }
+  return ended.length;
+}
+
+/**
+ * Start the periodic sweep for finished courses.
+ *
+ * Postconditions:
+ * - Runs once now, then every SWEEP_INTERVAL_MS over every user, with "today" in each user's time
+ *   zone; a failed run is logged and retried next time.
+ */
+export function startCourseSweep() {
+  if (sweepTimer) return;
+
+  const sweep = async () => {
+    try {
+      const now = new Date();
+      let completed = 0;
+      for (const user of await storage.getUsers()) {
+        completed += await completeFinishedCourses(user.id, localDateTime(now, user.preferences?.timeZone).date);
+      }
+      if (completed > 0) console.log(`Completed ${completed} finished treatment course(s)`);
+    } catch (error) {
+      console.error("Error completing finished courses:", error);
+    } finally {
+      sweepTimer = setTimeout(sweep, SWEEP_INTERVAL_MS);
+    }
+  };
+  sweepTimer = setTimeout(sweep, 0);
+}
@@ -0,0 +1,248 @@
+// server/doses.ts
+import { storage } from "./storage";
+import { toMinutes } from "./scheduler";
+import { addDays, daysBetween, doseSlotsOf, isPillDueOn, localDateTime } from "@shared/pill-schedule";
+import {
+  timeBlocks,
+  timeBlockWindows,
+  type InsertPillDose,
+  type Medication,
+  type PillDose,
+  type PillRef,
+  type PillType,
+  type SnoozeRequest,
+  type SnoozeSettings,
+  type Supplement,
+  type TimeBlock,
+} from "@shared/schema";
+
+// How long after its time block ends an untaken dose is marked missed
+const MISSED_GRACE_MINUTES = 120;
+
+// How many days back the sweep fills in doses that were never generated
+const BACKFILL_DAYS = 14;
+
+// How often doses are swept; a dose is marked missed at most this long after its grace period
+const SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+
+let sweepTimer: NodeJS.Timeout | undefined;
+
+export class SnoozeLimitError extends Error {
+  constructor(public readonly maxCount: number) {
+    super(`These doses were already snoozed ${maxCount} time(s); take or skip them instead`);
+    this.name = "SnoozeLimitError";
+  }
+}
+
+type ActivePill = (Medication | Supplement) & { pillType: PillType };
+
+async function getActivePills(userId: string): Promise<ActivePill[]> {
+  const [medications, supplements] = await Promise.all([storage.getMedications(userId), storage.getSupplements(userId)]);
+  return [
+    ...medications.filter((m) => m.active).map((m) => ({ ...m, pillType: "medication" as const })),
+    ...supplements.filter((s) => s.active).map((s) => ({ ...s, pillType: "supplement" as const })),
+  ];
+}
+
+/**
+ * The dose rows a day still needs: one per dose slot of each pill due that day (within its course)
+ * that doesn't have a row yet. A dose that was already overdue when the pill got its current
+ * schedule and slots (added, edited or reactivated) is left out, so it can't turn up as missed.
+ */
+function missingDoses(
+  pills: ActivePill[],
+  date: string,
+  existing: PillDose[],
+  timeZone: string | undefined,
+): InsertPillDose[] {
+  const existingKeys = new Set(existing.map((d) => `${d.pillType}-${d.pillId}-${d.slotId}`));
+  return pills
+    .filter((pill) => isPillDueOn(pill, date))
+    .flatMap((pill) =>
+      doseSlotsOf(pill)
+        .filter((slot) => !existingKeys.has(`${pill.pillType}-${pill.id}-${slot.id}`))
+        .filter(
+          (slot) =>
+            !isOverdue(
+              { scheduledDate: date, scheduledTimeBlock: slot.timeBlock },
+              localDateTime(pill.scheduleChangedAt, timeZone),
+            ),
+        )
+        .map((slot) => ({
+          pillType: pill.pillType,
+          pillId: pill.id,
+          slotId: slot.id,
+          scheduledDate: date,
+          scheduledTimeBlock: slot.timeBlock,
+          status: "pending",
+          takenAt: null,
+          snoozedUntil: null,
+        })),
+    );
+}
+
+/**
+ * Create the day's dose rows for a user's active pills.
+ *
+ * @param userId - Whose doses to generate
+ * @param date - Day to generate, YYYY-MM-DD
+ * @param timeZone - The user's time zone (IANA name); the server's when undefined
+ * @returns Every dose of that day, including ones that already existed.
+ */
+export async function generatePillDoses(userId: string, date: string, timeZone: string | undefined): Promise<PillDose[]> {
+  const [pills, existing] = await Promise.all([getActivePills(userId), storage.getPillDosesByDate(userId, date)]);
+  for (const dose of missingDoses(pills, date, existing, timeZone)) {
+    await storage.createPillDose(userId, dose);
+  }
+  return storage.getPillDosesByDate(userId, date);
+}
+
+/**
+ * Drop the open doses a pill's schedule and slots no longer call for, after the pill was edited.
+ *
+ * @param userId - Owner of the pill
+ * @param pill - Which pill was edited
+ * @param item - The pill as saved
+ * @param timeZone - The user's time zone (IANA name); the server's when undefined
+ * @param now - The current time
+ * @returns How many doses were deleted.
+ *
+ * Postconditions:
+ * - Pending and snoozed doses from today on are deleted when their slot was removed or moved to
+ *   another time block, their day is no longer due, or the pill was deactivated; generating the
+ *   day again puts them where the new schedule says. Taken, skipped and missed doses are kept.
+ */
+export async function dropStaleDoses(
+  userId: string,
+  pill: PillRef,
+  item: Medication | Supplement,
+  timeZone: string | undefined,
+  now: Date = new Date(),
+): Promise<number> {
+  const slots = doseSlotsOf(item);
+  const stale = (await storage.getOpenPillDosesFrom(userId, pill, localDateTime(now, timeZone).date)).filter(
+    (dose) =>
+      !item.active ||
+      !isPillDueOn(item, dose.scheduledDate) ||
+      !slots.some((slot) => slot.id === dose.slotId && slot.timeBlock === dose.scheduledTimeBlock),
+  );
+  return storage.deleteOpenPillDoses(userId, stale.map((d) => d.id));
+}
+
+/**
+ * Snooze every open dose of a time block on a day.
+ *
+ * @param userId - Whose doses to snooze
+ * @param request - The day, the time block, and optionally how many minutes to snooze for
+ * @param settings - The user's snooze settings (default duration and max snoozes per dose)
+ * @param now - The current time
+ * @returns The snoozed doses; empty when the block has no pending or snoozed doses.
+ * @throws SnoozeLimitError if any of the doses was already snoozed settings.maxCount times.
+ *
+ * Postconditions:
+ * - Each pending or snoozed dose of the block is "snoozed" until now + minutes, with its
+ *   snoozeCount one higher; taken, skipped and missed doses are left alone.
+ */
+export async function snoozeTimeBlock(
+  userId: string,
+  request: SnoozeRequest,
+  settings: SnoozeSettings,
+  now: Date = new Date(),
+): Promise<PillDose[]> {
+  const open = (await storage.getPillDosesByDate(userId, request.date)).filter(
+    (d) => d.scheduledTimeBlock === request.timeBlock && (d.status === "pending" || d.status === "snoozed"),
+  );
+  if (open.some((d) => d.snoozeCount >= settings.maxCount)) {
+    throw new SnoozeLimitError(settings.maxCount);
+  }
+
+  const until = new Date(now.getTime() + (request.minutes ?? settings.minutes) * 60 * 1000);
+  return storage.snoozePillDoses(userId, open.map((d) => d.id), until);
+}
+
+/**
+ * Whether an open dose's time block, plus the grace period, has ended.
+ *
+ * @param dose - The dose to check
+ * @param now - The current local date and minutes past midnight in the user's time zone
+ */
+function isOverdue(
+  dose: Pick<PillDose, "scheduledDate" | "scheduledTimeBlock">,
+  now: { date: string; minutes: number },
+): boolean {
+  const block = dose.scheduledTimeBlock as TimeBlock;
+  if (!timeBlocks.includes(block)) return false;
+
+  const deadline = toMinutes(timeBlockWindows[block].end) + MISSED_GRACE_MINUTES;
+  return daysBetween(dose.scheduledDate, now.date) * 24 * 60 + now.minutes >= deadline;
+}
+
+/**
+ * Fill in a user's recent doses and mark the ones nobody took as missed.
+ *
+ * @param userId - Whose doses to sweep
+ * @param timeZone - The user's time zone (IANA name); the server's when undefined
+ * @param now - The current time
+ * @returns How many dose rows were created and how many doses were marked missed.
+ *
+ * Postconditions:
+ * - Every day of the last BACKFILL_DAYS days (and today) has dose rows for the active pills due
+ *   then, but only from when each pill got its current schedule and slots (scheduleChangedAt), so
+ *   a new, edited or reactivated pill has no history to miss.
+ * - Pending doses, and snoozed doses whose snooze has run out, are "missed" once their time block
+ *   ended MISSED_GRACE_MINUTES ago, in the user's time zone.
+ */
+export async function sweepUserDoses(
+  userId: string,
+  timeZone: string | undefined,
+  now: Date = new Date(),
+): Promise<{ created: number; missed: number }> {
+  const local = localDateTime(now, timeZone);
+  const from = addDays(local.date, -BACKFILL_DAYS);
+  const [pills, doses] = await Promise.all([
+    getActivePills(userId),
+    storage.getPillDosesBetween(userId, from, local.date),
+  ]);
+
+  let created = 0;
+  for (let date = from; date <= local.date; date = addDays(date, 1)) {
+    const existing = doses.filter((d) => d.scheduledDate === date);
+    for (const dose of missingDoses(pills, date, existing, timeZone)) {
+      doses.push(await storage.createPillDose(userId, dose));
+      created++;
+    }
+  }
+
+  const overdue = doses.filter(
+    (d) =>
+      (d.status === "pending" || (d.status === "snoozed" && (!d.snoozedUntil || d.snoozedUntil <= now))) &&
+      isOverdue(d, local),
+  );
+  const missed = await storage.markPillDosesMissed(userId, overdue.map((d) => d.id));
+  return { created, missed };
+}
+
+/**
+ * Start the periodic missed-dose sweep over every user.
+ *
+ * Postconditions:
+ * - Runs once now, then every SWEEP_INTERVAL_MS; a failed run is logged and retried next time.
+ */
+export function startMissedDoseSweep() {
+  if (sweepTimer) return;
+
+  const sweep = async () => {
+    try {
+      let missed = 0;
+      for (const user of await storage.getUsers()) {
+        missed += (await sweepUserDoses(user.id, user.preferences?.timeZone)).missed;
+      }
+      if (missed > 0) console.log(`Marked ${missed} dose(s) as missed`);
+    } catch (error) {
+      console.error("Error sweeping missed doses:", error);
+    } finally {
+      sweepTimer = setTimeout(sweep, SWEEP_INTERVAL_MS);
+    }
+  };
+  sweepTimer = setTimeout(sweep, 0);
+}
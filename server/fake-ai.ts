@@ -0,0 +1,184 @@
+// server/fake-ai.ts
+import { getMarkerDefinition, resolveMarkerCode } from "./markers";
+import type { AiProvider, ExtractedData, ExtractedMarker, InteractionCheckItem, InteractionResult } from "./ai";
+
+/**
+ * Deterministic stand-in for a language model, for local development and tests (AI_PROVIDER=fake).
+ *
+ * It only understands "Name: value unit (min-max)" lines (the format manual entries are stored in)
+ * and a handful of well-known interactions, but always gives the same answer for the same input.
+ */
+
+// "Vitamin D: 18 ng/mL (reference 30-100)", "Ferritin: 15 ng/mL (20-300)"
+const MARKER_LINE =
+  /^\s*([^:]+?)\s*:\s*[<>]?\s*(-?\d+(?:\.\d+)?)\s*([^\s(]*)\s*\((?:reference\s*)?(-?\d+(?:\.\d+)?)\s*-\s*(-?\d+(?:\.\d+)?)\)/i;
+
+function parseMarkers(text: string): ExtractedMarker[] {
+  const markers: ExtractedMarker[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = MARKER_LINE.exec(line);
+    if (!match) continue;
+
+    const [, name, rawValue, unit, rawMin, rawMax] = match;
+    const definition = getMarkerDefinition(resolveMarkerCode(name) ?? "");
+    if (!definition) continue;
+
+    const value = Number(rawValue);
+    const normalMin = Number(rawMin);
+    const normalMax = Number(rawMax);
+
+    markers.push({
+      name,
+      value,
+      unit: unit || definition.defaultUnit,
+      normalMin,
+      normalMax,
+      status: value < normalMin ? "low" : value > normalMax ? "high" : "normal",
+      category: definition.category,
+    });
+  }
+
+  return markers;
+}
+
+function recommendationFor(marker: ExtractedMarker): ExtractedData["recommendations"][number] {
+  const bound = marker.status === "low" ? marker.normalMin : marker.normalMax;
+  const deviation = bound ? Math.abs(marker.value - bound) / Math.abs(bound) : 1;
+  const priority = deviation > 0.25 ? "high" : "medium";
+  const direction = marker.status === "low" ? "below" : "above";
+
+  if (marker.status === "low" && (marker.category === "vitamins" || marker.category === "minerals")) {
+    return {
+      type: "supplement",
+      title: `Consider supplementing ${marker.name}`,
+      description: `${marker.name} is ${direction} the reference range (${marker.value} ${marker.unit}).`,
+      priority,
+      relatedMarker: marker.name,
+      actionItems: ["Discuss a supplement and dosage with your doctor", "Re-test in 8-12 weeks"],
+    };
+  }
+
+  return {
+    type: "dietary",
+    title: `Bring ${marker.name} back into range`,
+    description: `${marker.name} is ${direction} the reference range (${marker.value} ${marker.unit}).`,
+    priority,
+    relatedMarker: marker.name,
+    actionItems: ["Review your diet with a healthcare provider", "Re-test in 8-12 weeks"],
+  };
+}
+
+type KnownInteraction = {
+  first: string[];
+  second: string[]; // matched in either order, whatever the pills' types
+  severity: InteractionResult["severity"];
+  description: string;
+  recommendation: string;
+};
+
+// Matched as lower-case substrings of the item names.
+const KNOWN_INTERACTIONS: KnownInteraction[] = [
+  {
+    first: ["warfarin", "apixaban", "rivaroxaban", "clopidogrel", "aspirin"],
+    second: ["fish oil", "omega", "vitamin e", "ginkgo"],
+    severity: "severe",
+    description: "Both thin the blood, which raises the risk of bleeding.",
+    recommendation: "Ask your doctor before combining these.",
+  },
+  {
+    first: ["levothyroxine", "synthroid", "thyroxine"],
+    second: ["calcium", "iron", "magnesium"],
+    severity: "moderate",
+    description: "The mineral binds thyroid hormone in the gut and reduces its absorption.",
+    recommendation: "Take the thyroid medication at least 4 hours apart from the supplement.",
+  },
+  {
+    first: ["sertraline", "fluoxetine", "citalopram", "escitalopram", "paroxetine"],
+    second: ["st. john", "st john", "5-htp"],
+    severity: "severe",
+    description: "Combining raises serotonin levels and the risk of serotonin syndrome.",
+    recommendation: "Avoid this combination unless your doctor approves it.",
+  },
+  {
+    first: ["ciprofloxacin", "levofloxacin", "doxycycline", "tetracycline"],
+    second: ["calcium", "zinc", "iron", "magnesium"],
+    severity: "moderate",
+    description: "The mineral binds the antibiotic and reduces its absorption.",
+    recommendation: "Take the antibiotic 2 hours before or 6 hours after the supplement.",
+  },
+  {
+    first: ["lisinopril", "enalapril", "losartan", "spironolactone"],
+    second: ["potassium"],
+    severity: "moderate",
+    description: "Both raise blood potassium levels.",
+    recommendation: "Have your potassium monitored if you take both.",
+  },
+  {
+    first: ["warfarin", "apixaban", "rivaroxaban"],
+    second: ["aspirin", "clopidogrel", "ibuprofen", "naproxen"],
+    severity: "severe",
+    description: "Together they raise the risk of serious bleeding.",
+    recommendation: "Only combine these if your doctor prescribed them together.",
+  },
+  {
+    first: ["calcium"],
+    second: ["iron"],
+    severity: "moderate",
+    description: "Calcium reduces iron absorption when taken at the same time.",
+    recommendation: "Take them at least 2 hours apart.",
+  },
+];
+
+function findInteractions(
+  medications: InteractionCheckItem[],
+  supplements: InteractionCheckItem[],
+): InteractionResult[] {
+  const matches = (name: string, keywords: string[]) => {
+    const lower = name.toLowerCase();
+    return keywords.some((k) => lower.includes(k));
+  };
+
+  const items = [
+    ...medications.map((m) => ({ ...m, type: "medication" as const })),
+    ...supplements.map((s) => ({ ...s, type: "supplement" as const })),
+  ];
+
+  const results: InteractionResult[] = [];
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      const [a, b] = [items[i], items[j]];
+      const known = KNOWN_INTERACTIONS.find(
+        (k) =>
+          (matches(a.name, k.first) && matches(b.name, k.second)) ||
+          (matches(b.name, k.first) && matches(a.name, k.second)),
+      );
+      if (!known) continue;
+
+      results.push({
+        pillA: { type: a.type, id: a.id },
+        pillB: { type: b.type, id: b.id },
+        severity: known.severity,
+        description: known.description,
+        recommendation: known.recommendation,
+      });
+    }
+  }
+  return results;
+}
+
+export function createFakeAiProvider(): AiProvider {
+  return {
+    name: "fake",
+    async extractLabData(text) {
+      const markers = parseMarkers(text);
+      return {
+        markers,
+        recommendations: markers.filter((m) => m.status !== "normal").map(recommendationFor),
+      };
+    },
+    async checkInteractions(medications, supplements) {
+      return findInteractions(medications, supplements);
+    },
+  };
+}
@@ -1,64 +1,138 @@
+// server/gemini.ts
 import { GoogleGenAI } from "@google/genai";
-
-const apiKey =
-  process.env.AI_INTEGRATIONS_GEMINI_API_KEY ||
-  process.env.GEMINI_API_KEY ||
-  process.env.GOOGLE_API_KEY;
-
-if (!apiKey) {
-  throw new Error("Missing Gemini API key (set AI_INTEGRATIONS_GEMINI_API_KEY or GEMINI_API_KEY)");
+import {
+  extractedDataSchema,
+  generateValidatedJson,
+  interactionIdIssues,
+  interactionResponseSchema,
+  type AiProvider,
+  type ExtractedData,
+  type InteractionCheckItem,
+  type InteractionResult,
+} from "./ai";
+import { markerCategories } from "@shared/schema";
+
+const MODEL = "gemini-2.5-flash";
+
+/**
+ * The Gemini API key from the environment, if any.
+ */
+export function getGeminiApiKey(): string | undefined {
+  return (
+    process.env.AI_INTEGRATIONS_GEMINI_API_KEY ||
+    process.env.GEMINI_API_KEY ||
+    process.env.GOOGLE_API_KEY ||
+    undefined
+  );
 }
 
-const apiVersion = process.env.AI_INTEGRATIONS_GEMINI_API_VERSION || "v1beta";
-const baseUrl = process.env.AI_INTEGRATIONS_GEMINI_BASE_URL;
-
-const ai = new GoogleGenAI({
-  apiKey,
-  httpOptions: {
-    apiVersion,
-    ...(baseUrl ? { baseUrl } : {}),
+// JSON Schemas for Gemini's structured-output mode. They mirror the zod schemas in ./ai, which
+// remain the source of truth: every response is validated again after parsing.
+const LAB_DATA_RESPONSE_SCHEMA = {
+  type: "object",
+  properties: {
+    markers: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          value: { type: "number" },
+          unit: { type: "string" },
+          normalMin: { type: ["number", "null"] },
+          normalMax: { type: ["number", "null"] },
+          status: { type: "string", enum: ["low", "normal", "high"] },
+          category: { type: "string", enum: [...markerCategories] },
+        },
+        required: ["name", "value", "unit", "normalMin", "normalMax", "status", "category"],
+      },
+    },
+    recommendations: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          type: { type: "string", enum: ["supplement", "dietary", "physical"] },
+          title: { type: "string" },
+          description: { type: "string" },
+          priority: { type: "string", enum: ["high", "medium", "low"] },
+          relatedMarker: { type: ["string", "null"] },
+          actionItems: { type: "array", items: { type: "string" } },
+        },
+        required: ["type", "title", "description", "priority", "relatedMarker", "actionItems"],
+      },
+    },
   },
-});
-
-export interface ExtractedMarker {
-  name: string;
-  value: number;
-  unit: string;
-  normalMin: number;
-  normalMax: number;
-  status: "low" | "normal" | "high";
-  category: string;
-}
-
-export interface ExtractedData {
-  markers: ExtractedMarker[];
-  recommendations: {
-    type: "supplement" | "dietary" | "physical";
-    title: string;
-    description: string;
-    priority: "high" | "medium" | "low";
-    relatedMarker: string;
-    actionItems: string[];
-  }[];
+  required: ["markers", "recommendations"],
+};
+
+const PILL_REF_SCHEMA = {
+  type: "object",
+  properties: {
+    type: { type: "string", enum: ["medication", "supplement"] },
+    id: { type: "integer" },
+  },
+  required: ["type", "id"],
+};
+
+const INTERACTIONS_RESPONSE_SCHEMA = {
+  type: "object",
+  properties: {
+    interactions: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          pillA: PILL_REF_SCHEMA,
+          pillB: PILL_REF_SCHEMA,
+          severity: { type: "string", enum: ["mild", "moderate", "severe"] },
+          description: { type: "string" },
+          recommendation: { type: "string" },
+        },
+        required: ["pillA", "pillB", "severity", "description", "recommendation"],
+      },
+    },
+  },
+  required: ["interactions"],
+};
+
+/**
+ * A prompt -> raw JSON text function for generateValidatedJson, using structured-output mode.
+ *
+ * @param ai - Gemini client
+ * @param responseSchema - JSON Schema the response must follow
+ */
+function generateJson(ai: GoogleGenAI, responseSchema: object) {
+  return async (prompt: string): Promise<string> => {
+    const response = await ai.models.generateContent({
+      model: MODEL,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseJsonSchema: responseSchema,
+      },
+    });
+    return response.text ?? "";
+  };
 }
 
-export async function extractLabData(text: string): Promise<ExtractedData> {
+async function extractLabData(ai: GoogleGenAI, text: string): Promise<ExtractedData> {
   const prompt = `Analyze this lab result text and extract health markers (vitamins, minerals, blood values) with recommendations.
 
 Lab Result Text:
 ${text}
 
-Respond with valid JSON only (no markdown):
+Respond with JSON only, in this shape:
 {
   "markers": [
     {
       "name": "marker name",
       "value": numeric_value,
       "unit": "unit string",
-      "normalMin": min_normal_value,
-      "normalMax": max_normal_value,
+      "normalMin": min_normal_value_or_null,
+      "normalMax": max_normal_value_or_null,
       "status": "low" | "normal" | "high",
-      "category": "vitamins" | "minerals" | "blood" | "hormones" | "lipids" | "metabolic"
+      "category": "vitamins" | "minerals" | "blood" | "hormones" | "lipids" | "metabolic" | "other"
     }
   ],
   "recommendations": [
@@ -67,12 +141,15 @@ Respond with valid JSON only (no markdown):
       "title": "recommendation title",
       "description": "detailed explanation",
       "priority": "high" | "medium" | "low",
-      "relatedMarker": "which marker this relates to",
+      "relatedMarker": "which marker this relates to" | null,
       "actionItems": ["action 1", "action 2"]
     }
   ]
 }
 
+Values and ranges must be plain numbers (use the number from "<1" or "120-160" style values);
+use null for a range bound the report doesn't give.
+
 Focus on:
 - Vitamin D, B12, Iron, Folate, Calcium, Magnesium levels
 - Blood markers like hemoglobin, RBC, WBC
@@ -82,49 +159,21 @@ Focus on:
 - Physical recommendations should suggest gentle activities
 - Supplement recommendations should include dosage guidance`;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-    });
-
-    const responseText = response.text || "";
-    
-    // Parse JSON from response
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      console.error("No JSON found in response:", responseText);
-      return { markers: [], recommendations: [] };
-    }
-
-    const data = JSON.parse(jsonMatch[0]) as ExtractedData;
-    return data;
-  } catch (error) {
-    console.error("Error extracting lab data:", error);
-    return { markers: [], recommendations: [] };
-  }
+  return generateValidatedJson(generateJson(ai, LAB_DATA_RESPONSE_SCHEMA), prompt, extractedDataSchema);
 }
 
-export interface InteractionResult {
-  medicationId: number;
-  supplementId: number;
-  severity: "mild" | "moderate" | "severe";
-  description: string;
-  recommendation: string;
-}
-
-export async function checkInteractions(
-  medications: { id: number; name: string }[],
-  supplements: { id: number; name: string }[]
+async function checkInteractions(
+  ai: GoogleGenAI,
+  medications: InteractionCheckItem[],
+  supplements: InteractionCheckItem[]
 ): Promise<InteractionResult[]> {
-  if (medications.length === 0 || supplements.length === 0) {
-    return [];
-  }
-
-  const medicationList = medications.map((m) => `- ${m.name} (ID: ${m.id})`).join("\n");
-  const supplementList = supplements.map((s) => `- ${s.name} (ID: ${s.id})`).join("\n");
+  const describe = (item: InteractionCheckItem) =>
+    `- ${item.name}${item.dosage ? ` ${item.dosage}` : ""} (ID: ${item.id})`;
+  const medicationList = medications.map(describe).join("\n");
+  const supplementList = supplements.map(describe).join("\n");
 
-  const prompt = `Check for potential drug-supplement interactions between these medications and supplements.
+  const prompt = `Check for potential interactions between any two items in these lists: medication + supplement,
+medication + medication, and supplement + supplement.
 
 Medications:
 ${medicationList}
@@ -132,12 +181,13 @@ ${medicationList}
 Supplements:
 ${supplementList}
 
-Respond with valid JSON only (no markdown). If no interactions found, return empty array.
+Respond with JSON only, referring to items by their type and the IDs listed above (medication and
+supplement IDs are separate, so always give both). If no interactions found, return an empty array.
 {
   "interactions": [
     {
-      "medicationId": medication_id_number,
-      "supplementId": supplement_id_number,
+      "pillA": { "type": "medication" | "supplement", "id": id_number },
+      "pillB": { "type": "medication" | "supplement", "id": id_number },
       "severity": "mild" | "moderate" | "severe",
       "description": "what the interaction does",
       "recommendation": "what to do about it"
@@ -152,26 +202,43 @@ Common interactions to check:
 - Diabetes meds with Chromium, Alpha-lipoic acid
 - Antidepressants with St. John's Wort, 5-HTP
 - Antibiotics with Probiotics, Calcium, Zinc
+- Blood thinners with Aspirin or NSAIDs (medication + medication)
+- Calcium with Iron, Iron with Zinc (supplement + supplement)
 
 Only report real, clinically significant interactions.`;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-    });
-
-    const responseText = response.text || "";
-    
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      return [];
-    }
+  const data = await generateValidatedJson(
+    generateJson(ai, INTERACTIONS_RESPONSE_SCHEMA),
+    prompt,
+    interactionResponseSchema,
+    interactionIdIssues(medications, supplements),
+  );
+  return data.interactions;
+}
 
-    const data = JSON.parse(jsonMatch[0]) as { interactions: InteractionResult[] };
-    return data.interactions || [];
-  } catch (error) {
-    console.error("Error checking interactions:", error);
-    return [];
-  }
+/**
+ * Provider backed by the Gemini API.
+ *
+ * @param apiKey - Gemini API key.
+ *
+ * Postconditions:
+ * - AI_INTEGRATIONS_GEMINI_API_VERSION / AI_INTEGRATIONS_GEMINI_BASE_URL override the endpoint.
+ */
+export function createGeminiProvider(apiKey: string): AiProvider {
+  const apiVersion = process.env.AI_INTEGRATIONS_GEMINI_API_VERSION || "v1beta";
+  const baseUrl = process.env.AI_INTEGRATIONS_GEMINI_BASE_URL;
+
+  const ai = new GoogleGenAI({
+    apiKey,
+    httpOptions: {
+      apiVersion,
+      ...(baseUrl ? { baseUrl } : {}),
+    },
+  });
+
+  return {
+    name: "gemini",
+    extractLabData: (text) => extractLabData(ai, text),
+    checkInteractions: (medications, supplements) => checkInteractions(ai, medications, supplements),
+  };
 }
@@ -5,6 +5,12 @@ import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 import { seedDatabase } from "./seed";
+import { startLabWorker } from "./jobs";
+import { startCourseSweep } from "./courses";
+import { startMissedDoseSweep } from "./doses";
+import { startNotificationScheduler } from "./notifications";
+import { startPushChannel } from "./push";
+import { getAiProvider } from "./ai";
 
 const app = express();
 const httpServer = createServer(app);
@@ -67,14 +73,35 @@ app.use((req, res, next) => {
 (async () => {
   await registerRoutes(httpServer, app);
 
-  // Seed database with sample data
+  // Seed database with sample data, never in production: the demo login would be public
   // IMPORTANT: do not crash the dev server if seeding fails (ex: DB unavailable)
+  if (process.env.NODE_ENV !== "production") {
+    try {
+      await seedDatabase();
+    } catch (err) {
+      console.error("Error seeding database:", err);
+    }
+  }
+
+  // Pick the AI provider up front so a missing key is reported at boot, not on first use
+  getAiProvider();
+
+  // Background lab processing (recovers jobs interrupted by the last shutdown)
   try {
-    await seedDatabase();
+    await startLabWorker();
   } catch (err) {
-    console.error("Error seeding database:", err);
+    console.error("Error starting lab worker:", err);
   }
 
+  // Deactivates pills whose treatment course has ended
+  startCourseSweep();
+  // Backfills recent doses and marks the ones not taken in time as missed
+  startMissedDoseSweep();
+  // Logs due pill and reminder notifications once each; push delivers them to subscribed browsers
+  // even with the app closed, open tabs read the log
+  startPushChannel();
+  startNotificationScheduler();
+
   app.use((err: any, _req: Request, res: Response, next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
@@ -0,0 +1,231 @@
+// server/interaction-check.ts
+import { storage } from "./storage";
+import {
+  AiDisabledError,
+  AiValidationError,
+  checkInteractions,
+  getAiProvider,
+  type InteractionCheckItem,
+} from "./ai";
+import {
+  INTERACTION_RULES_VERSION,
+  evaluateInteractionRules,
+  normalizeItemName,
+  orderPillPair,
+} from "./interaction-rules";
+import type {
+  CachedInteraction,
+  InsertInteraction,
+  Interaction,
+  InteractionCheckResult,
+  PillRef,
+} from "@shared/schema";
+
+type CheckItem = InteractionCheckItem & PillRef & { dosage: string };
+
+/**
+ * "50 mcg" and "50mcg" are the same dose.
+ */
+function normalizeDosage(dosage: string): string {
+  return normalizeItemName(dosage).replace(/\s+/g, "");
+}
+
+/**
+ * Cache key for the AI verdict on one pair. Depends only on what the model is told (names and
+ * dosages) and which model answered, so renaming or re-dosing an item re-checks its pairs while
+ * deleting and re-adding the same item doesn't.
+ */
+function pairCacheKey(provider: string, a: CheckItem, b: CheckItem): string {
+  const item = (i: CheckItem) => `${i.type}:${normalizeItemName(i.name)}@${normalizeDosage(i.dosage)}`;
+  // Sorted, so the key doesn't depend on the pills' ids (which order the pair otherwise)
+  const [first, second] = [item(a), item(b)].sort();
+  return `${provider}|${first}|${second}`;
+}
+
+const pillKey = (pill: PillRef) => `${pill.type}:${pill.id}`;
+
+/**
+ * The same id for a pair whichever way round it is given.
+ */
+function pairId(a: PillRef, b: PillRef): string {
+  const [first, second] = orderPillPair(a, b);
+  return `${pillKey(first)}|${pillKey(second)}`;
+}
+
+const rowPair = (row: Interaction) =>
+  pairId({ type: row.pillAType as PillRef["type"], id: row.pillAId }, { type: row.pillBType as PillRef["type"], id: row.pillBId });
+
+/**
+ * Check every pair of a user's active medications and supplements (medication + supplement,
+ * medication + medication and supplement + supplement), reusing earlier answers.
+ *
+ * @param userId - Whose lists to check
+ * @returns The user's interactions after the check, plus how the AI part went.
+ *
+ * Postconditions:
+ * - Curated rules are re-evaluated for every pair (they're local and cheap).
+ * - Only pairs without a cached AI verdict (new items, or changed name/dosage) are sent to the AI.
+ * - An interaction found again keeps its row id, firstSeenAt and the user's status and note;
+ *   lastConfirmedAt moves forward.
+ * - Rows for pairs that no longer interact (or items no longer active) are removed.
+ * - If the AI is unavailable, existing AI rows for unchecked pairs are kept rather than dropped.
+ */
+export async function runInteractionCheck(userId: string): Promise<InteractionCheckResult> {
+  const medications: CheckItem[] = (await storage.getMedications(userId))
+    .filter((m) => m.active)
+    .map((m) => ({ type: "medication", id: m.id, name: m.name, dosage: m.dosage }));
+  const supplements: CheckItem[] = (await storage.getSupplements(userId))
+    .filter((s) => s.active)
+    .map((s) => ({ type: "supplement", id: s.id, name: s.name, dosage: s.dosage }));
+  const items = [...medications, ...supplements];
+
+  const pairs: [CheckItem, CheckItem][] = [];
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) pairs.push([items[i], items[j]]);
+  }
+
+  // 1) Curated rules always run and take precedence for the pairs they cover
+  const curated = new Map(evaluateInteractionRules(items).map((c) => [pairId(c.pillA, c.pillB), c]));
+
+  // 2) AI verdicts for the remaining pairs, from the cache where possible
+  const provider = getAiProvider();
+  const aiVerdicts = new Map<string, CachedInteraction | null>();
+  const uncheckedPairs = new Set<string>();
+  let ai: InteractionCheckResult["ai"] = provider ? "ok" : "disabled";
+  let aiError: string | undefined;
+  let pairsChecked = 0;
+  let pairsCached = 0;
+
+  if (provider) {
+    const keys = new Map<string, string>(); // pair id -> cache key
+    for (const [a, b] of pairs) {
+      const id = pairId(a, b);
+      if (!curated.has(id)) keys.set(id, pairCacheKey(provider.name, a, b));
+    }
+
+    const cached = new Map(
+      (await storage.getInteractionPairChecks(userId, Array.from(new Set(keys.values())))).map((c) => [c.pairKey, c.result]),
+    );
+
+    const stale: { id: string; key: string; pills: [PillRef, PillRef] }[] = [];
+    for (const [a, b] of pairs) {
+      const id = pairId(a, b);
+      const key = keys.get(id);
+      if (key === undefined) continue;
+      if (cached.has(key)) {
+        aiVerdicts.set(id, cached.get(key) ?? null);
+        pairsCached += 1;
+      } else {
+        stale.push({ id, key, pills: [a, b] });
+      }
+    }
+
+    if (stale.length > 0) {
+      // Only send the items involved in stale pairs; answers for other combinations are ignored.
+      const stalePills = new Set(stale.flatMap((p) => p.pills.map(pillKey)));
+
+      try {
+        const results = await checkInteractions(
+          medications.filter((m) => stalePills.has(pillKey(m))),
+          supplements.filter((s) => stalePills.has(pillKey(s))),
+        );
+        const found = new Map(results.map((r) => [pairId(r.pillA, r.pillB), r]));
+
+        for (const pair of stale) {
+          const result = found.get(pair.id);
+          const verdict: CachedInteraction | null = result
+            ? { severity: result.severity, description: result.description, recommendation: result.recommendation }
+            : null;
+          await storage.saveInteractionPairCheck(userId, pair.key, verdict);
+          aiVerdicts.set(pair.id, verdict);
+        }
+        pairsChecked = stale.length;
+      } catch (error) {
+        if (error instanceof AiDisabledError) {
+          ai = "disabled";
+        } else {
+          console.error("Error checking interactions with AI:", error instanceof AiValidationError ? error.issues : error);
+          ai = "failed";
+          aiError = error instanceof AiValidationError ? "The AI response was invalid" : "The AI check could not be completed";
+        }
+        for (const pair of stale) uncheckedPairs.add(pair.id);
+      }
+    }
+  }
+
+  // 3) What the user's interaction rows should be now
+  const desired = new Map<string, InsertInteraction>();
+  for (const [id, c] of Array.from(curated.entries())) {
+    desired.set(id, {
+      pillAType: c.pillA.type,
+      pillAId: c.pillA.id,
+      pillBType: c.pillB.type,
+      pillBId: c.pillB.id,
+      severity: c.severity,
+      description: c.mechanism,
+      recommendation: c.recommendation,
+      separationMinutes: c.separationMinutes,
+      source: "curated",
+      mechanism: c.mechanism,
+      citation: c.citation,
+      ruleId: c.ruleId,
+      rulesVersion: c.rulesVersion,
+    });
+  }
+  for (const [a, b] of pairs) {
+    const id = pairId(a, b);
+    const verdict = aiVerdicts.get(id);
+    if (!verdict) continue;
+    const [pillA, pillB] = orderPillPair(a, b);
+    desired.set(id, {
+      pillAType: pillA.type,
+      pillAId: pillA.id,
+      pillBType: pillB.type,
+      pillBId: pillB.id,
+      severity: verdict.severity,
+      description: verdict.description,
+      recommendation: verdict.recommendation,
+      separationMinutes: null,
+      source: "ai",
+      mechanism: null,
+      citation: null,
+      ruleId: null,
+      rulesVersion: null,
+    });
+  }
+
+  // 4) Reconcile: confirm existing rows in place, add new ones, drop the rest
+  const existing = await storage.getInteractions(userId);
+  const existingByPair = new Map<string, Interaction>(
+    existing.map((i) => [rowPair(i), i]),
+  );
+
+  const activePairs = new Set(pairs.map(([a, b]) => pairId(a, b)));
+
+  for (const row of existing) {
+    const id = rowPair(row);
+    if (desired.has(id)) continue;
+    // Without an AI answer we can't tell whether an AI finding still holds, so it stays as it was.
+    const unanswered = uncheckedPairs.has(id) || ai === "disabled";
+    if (row.source === "ai" && activePairs.has(id) && unanswered) continue;
+    await storage.deleteInteraction(userId, row.id);
+  }
+
+  for (const [id, data] of Array.from(desired.entries())) {
+    const current = existingByPair.get(id);
+    if (current) {
+      await storage.confirmInteraction(userId, current.id, data);
+    } else {
+      await storage.createInteraction(userId, data);
+    }
+  }
+
+  return {
+    interactions: await storage.getInteractions(userId),
+    rulesVersion: INTERACTION_RULES_VERSION,
+    ai,
+    aiError,
+    pairsChecked,
+    pairsCached,
+  };
+}
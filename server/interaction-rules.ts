@@ -0,0 +1,360 @@
+// server/interaction-rules.ts
+import { pillTypes, type PillRef } from "@shared/schema";
+
+/**
+ * Curated interaction rules between any two pills (medication or supplement, in any combination).
+ *
+ * Evaluated locally and deterministically on every interaction check, before (and regardless of)
+ * the AI check. Bump INTERACTION_RULES_VERSION whenever a rule is added, removed or changed; it is
+ * stored on every curated interaction row so results can be traced to the rules that produced them.
+ *
+ * Names are matched after normalizeItemName, as whole words/phrases, so "Levothyroxine 50 mcg" and
+ * "Calcium Carbonate 600mg" match "levothyroxine" and "calcium".
+ */
+export const INTERACTION_RULES_VERSION = "2026.10.2";
+
+/**
+ * Medications grouped by class, so a rule can name a class instead of every drug in it.
+ * Generic and common brand names.
+ */
+export const DRUG_CLASSES: Record<string, string[]> = {
+  anticoagulants: ["warfarin", "coumadin", "jantoven", "apixaban", "eliquis", "rivaroxaban", "xarelto", "dabigatran", "pradaxa", "edoxaban", "savaysa"],
+  antiplatelets: ["clopidogrel", "plavix", "aspirin", "ticagrelor", "brilinta", "prasugrel", "effient"],
+  thyroid_hormones: ["levothyroxine", "synthroid", "levoxyl", "unithroid", "euthyrox", "tirosint", "liothyronine", "cytomel", "armour thyroid"],
+  fluoroquinolones: ["ciprofloxacin", "cipro", "levofloxacin", "levaquin", "moxifloxacin", "avelox", "ofloxacin"],
+  tetracyclines: ["doxycycline", "vibramycin", "tetracycline", "minocycline", "minocin"],
+  bisphosphonates: ["alendronate", "fosamax", "risedronate", "actonel", "atelvia", "ibandronate", "boniva"],
+  serotonergic_antidepressants: [
+    "sertraline", "zoloft", "fluoxetine", "prozac", "citalopram", "celexa", "escitalopram", "lexapro",
+    "paroxetine", "paxil", "venlafaxine", "effexor", "duloxetine", "cymbalta", "desvenlafaxine", "pristiq",
+    "phenelzine", "nardil", "tranylcypromine", "parnate", "selegiline",
+  ],
+  potassium_raising: [
+    "lisinopril", "enalapril", "ramipril", "benazepril", "captopril", "quinapril",
+    "losartan", "valsartan", "irbesartan", "olmesartan", "candesartan", "telmisartan",
+    "spironolactone", "eplerenone", "amiloride", "triamterene",
+  ],
+  statins: ["atorvastatin", "lipitor", "simvastatin", "zocor", "rosuvastatin", "crestor", "pravastatin", "lovastatin", "pitavastatin"],
+  glucose_lowering: [
+    "metformin", "glucophage", "glipizide", "glyburide", "glimepiride", "insulin", "pioglitazone",
+    "sitagliptin", "januvia", "empagliflozin", "jardiance", "dapagliflozin", "farxiga",
+  ],
+  levodopa: ["levodopa", "carbidopa", "sinemet", "rytary"],
+  nsaids: ["ibuprofen", "advil", "motrin", "naproxen", "aleve", "naprosyn", "diclofenac", "voltaren", "celecoxib", "celebrex", "meloxicam", "mobic", "ketorolac"],
+  oral_contraceptives: ["ethinyl estradiol", "norethindrone", "levonorgestrel", "drospirenone", "norgestimate", "desogestrel"],
+};
+
+/**
+ * Supplements grouped by active ingredient.
+ */
+export const SUPPLEMENT_GROUPS: Record<string, string[]> = {
+  calcium: ["calcium", "calcium carbonate", "calcium citrate", "tums"],
+  iron: ["iron", "ferrous sulfate", "ferrous gluconate", "ferrous fumarate", "iron bisglycinate"],
+  magnesium: ["magnesium", "magnesium glycinate", "magnesium citrate", "magnesium oxide"],
+  zinc: ["zinc", "zinc gluconate", "zinc picolinate"],
+  fish_oil: ["fish oil", "omega 3", "omega3", "epa", "dha", "krill oil", "cod liver oil"],
+  vitamin_e: ["vitamin e", "tocopherol"],
+  ginkgo: ["ginkgo", "ginkgo biloba"],
+  vitamin_k: ["vitamin k", "vitamin k1", "vitamin k2", "phytonadione", "menaquinone"],
+  st_johns_wort: ["st johns wort", "st john s wort", "st john wort", "hypericum"],
+  serotonergic: ["5 htp", "5htp", "tryptophan", "l tryptophan", "sam e", "s adenosyl methionine"],
+  potassium: ["potassium", "potassium chloride", "potassium citrate"],
+  red_yeast_rice: ["red yeast rice", "monacolin"],
+  glucose_lowering: ["chromium", "berberine", "alpha lipoic acid", "cinnamon extract"],
+};
+
+/**
+ * One side of a rule. A pill matches if its name matches any listed class, drug or group,
+ * whatever its type, so e.g. prescription potassium entered as a medication still matches.
+ */
+export type InteractionRuleSide = {
+  drugClasses?: string[]; // keys of DRUG_CLASSES
+  drugs?: string[]; // specific drug names, for rules that don't apply to a whole class
+  supplementGroups?: string[]; // keys of SUPPLEMENT_GROUPS
+};
+
+export type InteractionRule = {
+  id: string;
+  a: InteractionRuleSide;
+  b: InteractionRuleSide; // the pair matches in either order
+  severity: "mild" | "moderate" | "severe";
+  mechanism: string;
+  recommendation: string;
+  separationMinutes: number | null; // null when spacing the doses apart doesn't help
+  citation: string;
+};
+
+export const INTERACTION_RULES: InteractionRule[] = [
+  // Absorption (chelation / binding): spacing the doses fixes these
+  {
+    id: "thyroid-hormone-minerals",
+    a: { drugClasses: ["thyroid_hormones"] },
+    b: { supplementGroups: ["calcium", "iron", "magnesium"] },
+    severity: "moderate",
+    mechanism: "Calcium, iron and magnesium bind thyroid hormone in the gut and reduce how much is absorbed.",
+    recommendation: "Take the thyroid medication at least 4 hours apart from this supplement.",
+    separationMinutes: 240,
+    citation: "FDA prescribing information, levothyroxine sodium tablets (Drug Interactions: drugs that may decrease T4 absorption)",
+  },
+  {
+    id: "fluoroquinolone-minerals",
+    a: { drugClasses: ["fluoroquinolones"] },
+    b: { supplementGroups: ["calcium", "iron", "magnesium", "zinc"] },
+    severity: "moderate",
+    mechanism: "Multivalent minerals chelate fluoroquinolone antibiotics and can make them ineffective.",
+    recommendation: "Take the antibiotic at least 2 hours before or 6 hours after this supplement.",
+    separationMinutes: 360,
+    citation: "FDA prescribing information, ciprofloxacin tablets (Drug Interactions: multivalent cation-containing products)",
+  },
+  {
+    id: "tetracycline-minerals",
+    a: { drugClasses: ["tetracyclines"] },
+    b: { supplementGroups: ["calcium", "iron", "magnesium", "zinc"] },
+    severity: "moderate",
+    mechanism: "Calcium, iron, magnesium and zinc bind tetracycline antibiotics and reduce their absorption.",
+    recommendation: "Take the antibiotic at least 2-3 hours apart from this supplement.",
+    separationMinutes: 180,
+    citation: "FDA prescribing information, doxycycline hyclate (Drug Interactions: antacids and iron-containing preparations)",
+  },
+  {
+    id: "bisphosphonate-minerals",
+    a: { drugClasses: ["bisphosphonates"] },
+    b: { supplementGroups: ["calcium", "iron", "magnesium"] },
+    severity: "moderate",
+    mechanism: "Minerals block absorption of bisphosphonates, which are poorly absorbed even on an empty stomach.",
+    recommendation: "Take the bisphosphonate first thing with water and wait at least 30 minutes before this supplement.",
+    separationMinutes: 30,
+    citation: "FDA prescribing information, alendronate sodium tablets (Drug Interactions: calcium supplements/antacids)",
+  },
+  {
+    id: "levodopa-iron",
+    a: { drugClasses: ["levodopa"] },
+    b: { supplementGroups: ["iron"] },
+    severity: "moderate",
+    mechanism: "Iron binds levodopa in the gut and can reduce its effect.",
+    recommendation: "Take levodopa at least 2 hours apart from iron.",
+    separationMinutes: 120,
+    citation: "FDA prescribing information, carbidopa-levodopa tablets (Drug Interactions: iron salts)",
+  },
+
+  // Pharmacodynamic: spacing doesn't help, the combination itself is the risk
+  {
+    id: "blood-thinner-bleeding",
+    a: { drugClasses: ["anticoagulants", "antiplatelets"] },
+    b: { supplementGroups: ["fish_oil", "vitamin_e", "ginkgo"] },
+    severity: "severe",
+    mechanism: "The supplement also reduces clotting, adding to the bleeding risk of the blood thinner.",
+    recommendation: "Check with your doctor before combining these; watch for unusual bruising or bleeding.",
+    separationMinutes: null,
+    citation: "NIH Office of Dietary Supplements, Omega-3 and Vitamin E fact sheets for health professionals (Interactions with Medications)",
+  },
+  {
+    id: "warfarin-vitamin-k",
+    a: { drugs: ["warfarin", "coumadin", "jantoven"] },
+    b: { supplementGroups: ["vitamin_k"] },
+    severity: "moderate",
+    mechanism: "Vitamin K directly counteracts warfarin, so changes in intake change your INR.",
+    recommendation: "Keep vitamin K intake consistent and tell the clinic managing your INR before starting or stopping it.",
+    separationMinutes: null,
+    citation: "NIH Office of Dietary Supplements, Vitamin K fact sheet for health professionals (Interactions with Medications: warfarin)",
+  },
+  {
+    id: "serotonin-syndrome",
+    a: { drugClasses: ["serotonergic_antidepressants"] },
+    b: { supplementGroups: ["st_johns_wort", "serotonergic"] },
+    severity: "severe",
+    mechanism: "Both raise serotonin; together they can cause serotonin syndrome.",
+    recommendation: "Avoid this combination unless your prescriber approves it.",
+    separationMinutes: null,
+    citation: "NIH National Center for Complementary and Integrative Health, St. John's Wort (Safety)",
+  },
+  {
+    id: "st-johns-wort-enzyme-induction",
+    a: { drugClasses: ["anticoagulants", "oral_contraceptives"] },
+    b: { supplementGroups: ["st_johns_wort"] },
+    severity: "severe",
+    mechanism: "St. John's Wort speeds up the breakdown of many drugs (CYP3A4/P-gp induction), making them less effective.",
+    recommendation: "Avoid St. John's Wort with this medication; ask your doctor about alternatives.",
+    separationMinutes: null,
+    citation: "NIH National Center for Complementary and Integrative Health, St. John's Wort (Safety)",
+  },
+  {
+    id: "potassium-hyperkalemia",
+    a: { drugClasses: ["potassium_raising"] },
+    b: { supplementGroups: ["potassium"] },
+    severity: "moderate",
+    mechanism: "The medication makes the kidneys hold on to potassium; extra potassium can build up to unsafe levels.",
+    recommendation: "Only take potassium supplements if your doctor prescribed them, and have your potassium checked.",
+    separationMinutes: null,
+    citation: "FDA prescribing information, lisinopril tablets (Drug Interactions: potassium supplements)",
+  },
+  {
+    id: "statin-red-yeast-rice",
+    a: { drugClasses: ["statins"] },
+    b: { supplementGroups: ["red_yeast_rice"] },
+    severity: "moderate",
+    mechanism: "Red yeast rice contains monacolin K (lovastatin), doubling up on statin therapy and its muscle side effects.",
+    recommendation: "Don't combine red yeast rice with a prescribed statin.",
+    separationMinutes: null,
+    citation: "NIH National Center for Complementary and Integrative Health, Red Yeast Rice (Safety)",
+  },
+  {
+    id: "glucose-lowering-additive",
+    a: { drugClasses: ["glucose_lowering"] },
+    b: { supplementGroups: ["glucose_lowering"] },
+    severity: "mild",
+    mechanism: "The supplement may lower blood sugar on top of the medication.",
+    recommendation: "Monitor your blood sugar more closely when starting or changing this supplement.",
+    separationMinutes: null,
+    citation: "NIH National Center for Complementary and Integrative Health, Diabetes and Dietary Supplements",
+  },
+
+  // Medication + medication
+  {
+    id: "anticoagulant-antiplatelet-nsaid",
+    a: { drugClasses: ["anticoagulants"] },
+    b: { drugClasses: ["antiplatelets", "nsaids"] },
+    severity: "severe",
+    mechanism: "Both affect clotting, so together they considerably raise the risk of serious bleeding.",
+    recommendation: "Only combine these if your doctor prescribed them together, and report any unusual bleeding or bruising.",
+    separationMinutes: null,
+    citation: "FDA Medication Guide, warfarin sodium (Coumadin)",
+  },
+  {
+    id: "antiplatelet-nsaid",
+    a: { drugClasses: ["antiplatelets"] },
+    b: { drugClasses: ["nsaids"] },
+    severity: "moderate",
+    mechanism: "NSAIDs add to the bleeding risk of antiplatelet drugs and can block the heart-protective effect of low-dose aspirin.",
+    recommendation: "Ask your doctor before taking NSAIDs regularly; if you take low-dose aspirin, take it at least 30 minutes before ibuprofen.",
+    separationMinutes: 30,
+    citation: "FDA Drug Safety Information, concomitant use of ibuprofen and aspirin",
+  },
+
+  // Supplement + supplement
+  {
+    id: "calcium-iron",
+    a: { supplementGroups: ["calcium"] },
+    b: { supplementGroups: ["iron"] },
+    severity: "moderate",
+    mechanism: "Calcium reduces the absorption of iron taken at the same time.",
+    recommendation: "Take iron and calcium at different times of day, at least 2 hours apart.",
+    separationMinutes: 120,
+    citation: "NIH Office of Dietary Supplements, Iron Fact Sheet for Health Professionals",
+  },
+  {
+    id: "iron-zinc",
+    a: { supplementGroups: ["iron"] },
+    b: { supplementGroups: ["zinc"] },
+    severity: "mild",
+    mechanism: "High doses of iron and zinc compete for absorption.",
+    recommendation: "Take iron and zinc supplements at least 2 hours apart.",
+    separationMinutes: 120,
+    citation: "NIH Office of Dietary Supplements, Zinc Fact Sheet for Health Professionals",
+  },
+];
+
+export type CuratedInteraction = {
+  pillA: PillRef;
+  pillB: PillRef;
+  severity: InteractionRule["severity"];
+  mechanism: string;
+  recommendation: string;
+  separationMinutes: number | null;
+  citation: string;
+  ruleId: string;
+  rulesVersion: string;
+};
+
+/**
+ * Put two pills in the order interaction rows store them: medications before supplements,
+ * then by id. Every pair has exactly one ordering, so a pair can be looked up either way round.
+ */
+export function orderPillPair(a: PillRef, b: PillRef): [PillRef, PillRef] {
+  const rank = (p: PillRef) => pillTypes.indexOf(p.type);
+  const aFirst = rank(a) < rank(b) || (rank(a) === rank(b) && a.id <= b.id);
+  return aFirst ? [a, b] : [b, a];
+}
+
+/**
+ * Reduce a pill name to space-separated lower-case words.
+ *
+ * @param name - Name as entered, e.g. "St. John's Wort 300mg".
+ * @returns e.g. "st john s wort 300mg".
+ */
+export function normalizeItemName(name: string): string {
+  return name
+    .normalize("NFKD")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Whether a normalized name contains any of the terms as whole words.
+ */
+function mentionsAny(normalizedName: string, terms: string[]): boolean {
+  const padded = ` ${normalizedName} `;
+  return terms.some((term) => padded.includes(` ${normalizeItemName(term)} `));
+}
+
+function sideMatches(side: InteractionRuleSide, normalizedName: string): boolean {
+  if (side.drugs && mentionsAny(normalizedName, side.drugs)) return true;
+  if ((side.drugClasses ?? []).some((c) => mentionsAny(normalizedName, DRUG_CLASSES[c] ?? []))) return true;
+  return (side.supplementGroups ?? []).some((g) => mentionsAny(normalizedName, SUPPLEMENT_GROUPS[g] ?? []));
+}
+
+function ruleMatches(rule: InteractionRule, first: string, second: string): boolean {
+  return (
+    (sideMatches(rule.a, first) && sideMatches(rule.b, second)) ||
+    (sideMatches(rule.a, second) && sideMatches(rule.b, first))
+  );
+}
+
+/**
+ * Evaluate the curated rules against every pair of a user's pills.
+ *
+ * @param items - Active medications and supplements, each with its type
+ * @returns At most one interaction per unordered pair, with the pills in orderPillPair order.
+ *
+ * Postconditions:
+ * - Deterministic: the same input always gives the same output, in the same order.
+ * - When several rules match a pair, the most severe wins (then the longest separation).
+ */
+export function evaluateInteractionRules(items: (PillRef & { name: string })[]): CuratedInteraction[] {
+  const severityRank = { mild: 0, moderate: 1, severe: 2 };
+  const results: CuratedInteraction[] = [];
+  const names = items.map((item) => normalizeItemName(item.name));
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      const matching = INTERACTION_RULES.filter((rule) => ruleMatches(rule, names[i], names[j]));
+      if (matching.length === 0) continue;
+
+      const rule = matching.reduce((best, r) =>
+        severityRank[r.severity] > severityRank[best.severity] ||
+        (r.severity === best.severity && (r.separationMinutes ?? 0) > (best.separationMinutes ?? 0))
+          ? r
+          : best,
+      );
+
+      const [pillA, pillB] = orderPillPair(
+        { type: items[i].type, id: items[i].id },
+        { type: items[j].type, id: items[j].id },
+      );
+      results.push({
+        pillA,
+        pillB,
+        severity: rule.severity,
+        mechanism: rule.mechanism,
+        recommendation: rule.recommendation,
+        separationMinutes: rule.separationMinutes,
+        citation: rule.citation,
+        ruleId: rule.id,
+        rulesVersion: INTERACTION_RULES_VERSION,
+      });
+    }
+  }
+
+  return results;
+}
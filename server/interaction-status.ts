@@ -0,0 +1,92 @@
+// server/interaction-status.ts
+import { storage } from "./storage";
+import { orderPillPair } from "./interaction-rules";
+import type { AllowTogether, Interaction, InteractionStatusUpdate, PillRef } from "@shared/schema";
+
+const pillsOf = (row: Interaction): [PillRef, PillRef] => [
+  { type: row.pillAType as PillRef["type"], id: row.pillAId },
+  { type: row.pillBType as PillRef["type"], id: row.pillBId },
+];
+
+const samePill = (a: PillRef, b: PillRef) => a.type === b.type && a.id === b.id;
+
+/**
+ * Add `other` to (or remove it from) `pill`'s allowedTogetherWith.
+ */
+async function setAllowedTogether(userId: string, pill: PillRef, other: PillRef, allowed: boolean): Promise<void> {
+  const item =
+    pill.type === "medication" ? await storage.getMedication(userId, pill.id) : await storage.getSupplement(userId, pill.id);
+  if (!item) return;
+
+  const current = item.allowedTogetherWith ?? [];
+  const listed = current.some((p) => samePill(p, other));
+  if (listed === allowed) return;
+
+  const allowedTogetherWith = allowed ? [...current, other] : current.filter((p) => !samePill(p, other));
+  if (pill.type === "medication") {
+    await storage.updateMedication(userId, pill.id, { allowedTogetherWith });
+  } else {
+    await storage.updateSupplement(userId, pill.id, { allowedTogetherWith });
+  }
+}
+
+/**
+ * Record what the user has done about an interaction.
+ *
+ * @param userId - Owner of the interaction
+ * @param id - Interaction id
+ * @param update - New status and an optional note (replaces the previous note)
+ * @returns The updated interaction, or undefined if it doesn't exist.
+ *
+ * Postconditions:
+ * - Dismissing adds each pill to the other's allowedTogetherWith; moving away from dismissed removes them.
+ * - Pills' userOverride is left alone: it is only ever set by the user.
+ */
+export async function updateInteractionStatus(
+  userId: string,
+  id: number,
+  update: InteractionStatusUpdate,
+): Promise<Interaction | undefined> {
+  const current = await storage.getInteraction(userId, id);
+  if (!current) return undefined;
+
+  const updated = await storage.setInteractionStatus(userId, id, update.status, update.note ?? null);
+
+  const dismissed = update.status === "dismissed";
+  if ((current.status === "dismissed") !== dismissed) {
+    const [a, b] = pillsOf(current);
+    await setAllowedTogether(userId, a, b, dismissed);
+    await setAllowedTogether(userId, b, a, dismissed);
+  }
+  return updated;
+}
+
+/**
+ * Record that the user takes a pill together with others on purpose.
+ *
+ * @param userId - Owner of the pills
+ * @param request - The pill, the pills it's taken with, and an optional note
+ *
+ * Postconditions:
+ * - Each pair is in both pills' allowedTogetherWith.
+ * - An interaction between a pair is marked dismissed (with the note), as if dismissed on the
+ *   interactions page; pills' userOverride is left alone.
+ */
+export async function allowTogether(userId: string, request: AllowTogether): Promise<void> {
+  const rows = await storage.getInteractions(userId);
+
+  for (const other of request.with) {
+    if (samePill(request.pill, other)) continue;
+    await setAllowedTogether(userId, request.pill, other, true);
+    await setAllowedTogether(userId, other, request.pill, true);
+
+    const [a, b] = orderPillPair(request.pill, other);
+    const row = rows.find((r) => {
+      const [pillA, pillB] = pillsOf(r);
+      return samePill(pillA, a) && samePill(pillB, b);
+    });
+    if (row && row.status !== "dismissed") {
+      await storage.setInteractionStatus(userId, row.id, "dismissed", request.note ?? null);
+    }
+  }
+}
@@ -0,0 +1,111 @@
+// server/inventory.ts
+import { storage } from "./storage";
+import { daysOfSupply, localDateTime, needsRefill, settledDoseCount } from "@shared/pill-schedule";
+import type { InsertPillDose, PillDose, PillRef, PillRefill, PillRefillRequest } from "@shared/schema";
+
+// When refill reminders fire, every day until the pill is restocked
+const REFILL_REMINDER_TIME = "09:00";
+const ALL_DAYS = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"];
+
+async function getPill(userId: string, pill: PillRef) {
+  return pill.type === "medication" ? storage.getMedication(userId, pill.id) : storage.getSupplement(userId, pill.id);
+}
+
+/**
+ * Create, update or remove a pill's refill reminder to match its current supply.
+ *
+ * @param userId - Owner of the pill
+ * @param pill - The pill whose count, schedule or threshold may have changed (or that was deleted)
+ *
+ * Postconditions:
+ * - An active pill below its refill threshold has exactly one "refill" reminder, titled with the
+ *   days left; a reminder the user turned off stays off.
+ * - Otherwise (restocked, untracked, inactive or deleted) it has none.
+ * - Days of supply count from today in the user's time zone, and only today's doses that aren't
+ *   taken, skipped or missed yet still need pills.
+ */
+export async function syncRefillReminder(userId: string, pill: PillRef): Promise<void> {
+  const item = await getPill(userId, pill);
+  const existing = (await storage.getReminders(userId)).filter(
+    (r) => r.type === "refill" && r.relatedType === pill.type && r.relatedId === pill.id,
+  );
+
+  const user = await storage.getUser(userId);
+  const today = localDateTime(new Date(), user?.preferences?.timeZone).date;
+  const settled = settledDoseCount(await storage.getPillDosesByDate(userId, today), pill);
+  const supply =
+    item && item.active && needsRefill(item, today, settled) ? daysOfSupply(item, today, settled) : null;
+  if (!item || !supply) {
+    for (const reminder of existing) await storage.deleteReminder(userId, reminder.id);
+    return;
+  }
+
+  const title =
+    supply.days === 0 ? `Refill ${item.name}: none left for today` : `Refill ${item.name}: ${supply.days} day(s) left`;
+  const [reminder, ...duplicates] = existing;
+  if (!reminder) {
+    await storage.createReminder(userId, {
+      title,
+      time: REFILL_REMINDER_TIME,
+      days: ALL_DAYS,
+      type: "refill",
+      relatedId: pill.id,
+      relatedType: pill.type,
+      enabled: true,
+    });
+  } else if (reminder.title !== title) {
+    await storage.updateReminder(userId, reminder.id, { title });
+  }
+  for (const duplicate of duplicates) await storage.deleteReminder(userId, duplicate.id);
+}
+
+/**
+ * Update a dose, keeping its pill's inventory in step with whether the dose was taken.
+ *
+ * @param userId - Owner of the dose
+ * @param id - Dose id
+ * @param data - Fields to change (pillsDeducted is managed here and ignored)
+ * @returns The updated dose, or undefined if it doesn't exist.
+ *
+ * Postconditions:
+ * - Becoming "taken" takes the pill's pillsPerDose from pillsOnHand (never below zero) and records
+ *   how many were taken in pillsDeducted; marking an already-taken dose taken again takes nothing.
+ * - Leaving "taken" (undo) puts pillsDeducted back and clears it.
+ * - The pill's refill reminder is brought up to date when its count changed.
+ */
+export async function updateDoseWithInventory(
+  userId: string,
+  id: number,
+  data: Partial<InsertPillDose>,
+): Promise<PillDose | undefined> {
+  // One transaction with the dose locked, so two "taken" at once deduct once
+  const result = await storage.updatePillDoseWithInventory(userId, id, data);
+  if (!result) return undefined;
+
+  const { dose, inventoryChanged } = result;
+  if (inventoryChanged) {
+    await syncRefillReminder(userId, { type: dose.pillType as PillRef["type"], id: dose.pillId });
+  }
+  return dose;
+}
+
+/**
+ * Log a restock and add it to the pill's count.
+ *
+ * @param userId - Owner of the pill
+ * @param request - The pill, how many pills were added, and an optional note
+ * @returns The refill entry, or undefined if the pill doesn't exist.
+ *
+ * Postconditions:
+ * - pillsOnHand grows by the quantity; an untracked pill starts tracking at the quantity.
+ * - The refill reminder is removed if the supply is back above the threshold.
+ */
+export async function recordRefill(userId: string, request: PillRefillRequest): Promise<PillRefill | undefined> {
+  const item = await getPill(userId, request.pill);
+  if (!item) return undefined;
+
+  const refill = await storage.createPillRefill(userId, request.pill, request.quantity, request.note || null);
+  await storage.adjustPillsOnHand(userId, request.pill, request.quantity);
+  await syncRefillReminder(userId, request.pill);
+  return refill;
+}
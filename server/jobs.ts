@@ -0,0 +1,207 @@
+// server/jobs.ts
+import { storage } from "./storage";
+import { runLabJob, NonRetryableJobError } from "./lab-processing";
+import type { UploadKind } from "./ocr";
+import type { LabJob, LabProcessingStage } from "@shared/schema";
+
+// How many lab jobs run at once (OCR + Gemini calls are slow and memory hungry).
+const LAB_JOB_CONCURRENCY = Math.max(1, Number.parseInt(process.env.LAB_JOB_CONCURRENCY || "2", 10) || 2);
+
+// How often the worker looks for due jobs when nothing has woken it up.
+const POLL_INTERVAL_MS = 5000;
+
+// An attempt that takes longer than this is treated as failed and retried.
+const JOB_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Retry delays double per attempt: 30s, 60s, 120s, ...
+const RETRY_BASE_DELAY_SECONDS = 30;
+
+let started = false;
+let polling = false;
+let activeJobs = 0;
+let pollTimer: NodeJS.Timeout | undefined;
+
+/**
+ * Queue a lab result for background processing.
+ *
+ * @param userId - Owner of the lab result
+ * @param labResultId - Lab result to process
+ * @param file - Original upload, when its text hasn't been extracted yet, and the earlier job it
+ *   was read from (when retrying one)
+ * @returns The queued job.
+ *
+ * Postconditions:
+ * - The lab result's status is "queued" until the worker picks the job up.
+ * - The earlier job's copy of the file is cleared together with creating the new job, so a
+ *   failure never leaves the upload in neither.
+ */
+export async function enqueueLabJob(
+  userId: string,
+  labResultId: number,
+  file?: { data: Buffer; kind: UploadKind; fromJobId?: number },
+): Promise<LabJob> {
+  const job = await storage.createLabJob(
+    userId,
+    {
+      labResultId,
+      fileData: file?.data ?? null,
+      fileKind: file?.kind ?? null,
+    },
+    file?.fromJobId,
+  );
+  await storage.updateLabResult(userId, labResultId, { status: "queued", processingError: null });
+
+  wakeLabWorker();
+  return job;
+}
+
+/**
+ * Start the lab job worker.
+ *
+ * Preconditions:
+ * - This process is the only worker (single-instance deploy), so any job still marked
+ *   "running" at boot was interrupted by a restart.
+ * Postconditions:
+ * - Interrupted jobs are queued again (or failed if out of attempts).
+ * - Lab results stuck "in progress" without a job are marked "error" so they can be retried.
+ */
+export async function startLabWorker() {
+  if (started) return;
+  started = true;
+
+  const recovered = await storage.requeueRunningLabJobs();
+  for (const job of recovered) {
+    await storage.updateLabResult(job.userId, job.labResultId, {
+      status: job.status === "failed" ? "error" : "queued",
+      processingError: job.lastError,
+    });
+  }
+
+  const orphaned = await storage.failOrphanedLabResults();
+  if (recovered.length > 0 || orphaned > 0) {
+    console.log(`Lab worker recovered ${recovered.length} interrupted job(s), failed ${orphaned} orphaned result(s)`);
+  }
+
+  wakeLabWorker();
+}
+
+/**
+ * Ask the worker to poll now instead of waiting for the next interval.
+ */
+function wakeLabWorker() {
+  if (!started) return;
+  if (pollTimer) clearTimeout(pollTimer);
+  pollTimer = setTimeout(pollLabJobs, 0);
+}
+
+async function pollLabJobs() {
+  pollTimer = undefined;
+  if (polling) {
+    // Woken mid-poll: look again once the current poll has finished.
+    pollTimer = setTimeout(pollLabJobs, POLL_INTERVAL_MS);
+    return;
+  }
+  polling = true;
+
+  try {
+    const free = LAB_JOB_CONCURRENCY - activeJobs;
+    if (free > 0) {
+      for (const job of await storage.claimDueLabJobs(free)) {
+        activeJobs += 1;
+        void runJob(job).finally(() => {
+          activeJobs -= 1;
+          wakeLabWorker();
+        });
+      }
+    }
+  } catch (error) {
+    console.error("Error polling lab jobs:", error);
+  } finally {
+    polling = false;
+    if (!pollTimer) pollTimer = setTimeout(pollLabJobs, POLL_INTERVAL_MS);
+  }
+}
+
+/**
+ * Reject if a promise doesn't settle in time, aborting the work behind it. The work stops at its
+ * next abort check; anything it tries to save after that is fenced off by the job's attempt count.
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number, controller: AbortController): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      const error = new Error(`Timed out after ${Math.round(ms / 1000)}s`);
+      controller.abort(error);
+      reject(error);
+    }, ms);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      },
+    );
+  });
+}
+
+/**
+ * Run one claimed job and record the outcome.
+ *
+ * Postconditions:
+ * - Success: job "completed" (upload bytes dropped), lab result "completed" with no processingError.
+ * - Retryable failure with attempts left: job re-queued with backoff, lab result "queued".
+ * - Otherwise: job "failed" with lastError, lab result "error".
+ * - Any failure's message is copied to the lab result's processingError so the user can see it.
+ * - Returns only once the attempt has stopped, even after a timeout, so an abandoned attempt keeps
+ *   its concurrency slot until then.
+ */
+async function runJob(job: LabJob) {
+  const { userId, labResultId } = job;
+  const controller = new AbortController();
+
+  const setStage = async (stage: LabProcessingStage) => {
+    controller.signal.throwIfAborted();
+    if (!(await storage.setLabJobStage(job, stage))) {
+      throw new Error("This attempt was superseded by a retry");
+    }
+  };
+
+  const attempt = runLabJob(job, setStage, controller.signal);
+  try {
+    await withTimeout(attempt, JOB_TIMEOUT_MS, controller);
+
+    await storage.updateLabJob(userId, job.id, {
+      status: "completed",
+      stage: null,
+      lockedAt: null,
+      lastError: null,
+      fileData: null,
+    });
+    await storage.updateLabResult(userId, labResultId, { status: "completed", processingError: null });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Lab job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, error);
+
+    try {
+      if (!(error instanceof NonRetryableJobError) && job.attempts < job.maxAttempts) {
+        const delaySeconds = RETRY_BASE_DELAY_SECONDS * 2 ** (job.attempts - 1);
+        await storage.retryLabJobLater(job.id, delaySeconds, message);
+        await storage.updateLabResult(userId, labResultId, { status: "queued", processingError: message });
+      } else {
+        await storage.updateLabJob(userId, job.id, {
+          status: "failed",
+          stage: null,
+          lockedAt: null,
+          lastError: message,
+        });
+        await storage.updateLabResult(userId, labResultId, { status: "error", processingError: message });
+      }
+    } catch (recordError) {
+      console.error(`Error recording failure of lab job ${job.id}:`, recordError);
+    }
+  } finally {
+    await attempt.catch(() => undefined);
+  }
+}
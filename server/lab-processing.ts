@@ -0,0 +1,222 @@
+// server/lab-processing.ts
+import { storage } from "./storage";
+import { AiDisabledError, extractLabData, type ExtractedData, type ExtractedMarker } from "./ai";
+import { extractTextFromUpload, type UploadKind } from "./ocr";
+import { getMarkerDefinition, resolveMarkerCode } from "./markers";
+import type { InsertHealthMarker, InsertRecommendation, LabJob, LabProcessingStage } from "@shared/schema";
+
+/**
+ * A failure that retrying cannot fix (e.g. a blank scan); the job fails on the first attempt.
+ */
+export class NonRetryableJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NonRetryableJobError";
+  }
+}
+
+/**
+ * Remove characters that Postgres text columns cannot store (notably the null byte \u0000).
+ *
+ * @param value - Any value to be stored as text.
+ * @returns A safe string, or null if the input is null/undefined.
+ *
+ * Preconditions:
+ * - value may be null/undefined or any type.
+ * Postconditions:
+ * - Returned string contains no \u0000 characters.
+ */
+export function sanitizeForPostgresText(value: unknown): string | null {
+  if (value == null) return null;
+  return String(value).replace(/\u0000/g, "");
+}
+
+/**
+ * Extract the first numeric token from a value and return it as a numeric string.
+ * Handles common lab formats like "<1", ">120", "120-160", and "0 /100 WBC".
+ *
+ * @param value - Raw value (number | string | null | undefined | unknown).
+ * @returns A numeric string (e.g., "0.2") or null if no number is present.
+ *
+ * Preconditions:
+ * - value may be null/undefined or contain units/symbols.
+ * Postconditions:
+ * - Never returns ""/"null"/"undefined".
+ */
+function extractFirstNumberStringOrNull(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? String(value) : null;
+  }
+
+  if (typeof value === "string") {
+    const s = value.trim();
+    if (!s) return null;
+
+    const match = s.match(/-?\d+(?:\.\d+)?/);
+    if (!match) return null;
+
+    const n = Number(match[0]);
+    return Number.isFinite(n) ? String(n) : null;
+  }
+
+  return null;
+}
+
+/**
+ * Load the user's confirmed marker label mappings.
+ *
+ * @param userId - Owner of the aliases
+ * @returns Normalized alias -> canonical code, for resolveMarkerCode.
+ */
+export async function getUserMarkerAliases(userId: string): Promise<Map<string, string>> {
+  const aliases = await storage.getMarkerAliases(userId);
+  return new Map(aliases.map((a) => [a.alias, a.canonicalCode]));
+}
+
+/**
+ * Turn AI recommendations into rows for a lab result.
+ *
+ * @param labResultId - ID of the lab result the recommendations belong to
+ * @param recs - Recommendations as returned by extractLabData
+ *
+ * Postconditions:
+ * - All strings are sanitized so Postgres won't choke on null bytes.
+ */
+function toRecommendationRows(labResultId: number, recs: ExtractedData["recommendations"]): InsertRecommendation[] {
+  return recs.map((rec) => ({
+    labResultId,
+    type: sanitizeForPostgresText(rec.type) ?? "general",
+    title: sanitizeForPostgresText(rec.title) ?? "",
+    description: sanitizeForPostgresText(rec.description) ?? "",
+    priority: sanitizeForPostgresText(rec.priority) ?? "low",
+    relatedMarker: sanitizeForPostgresText(rec.relatedMarker),
+    actionItems: Array.isArray(rec.actionItems)
+      ? rec.actionItems
+          .map((x) => sanitizeForPostgresText(x) ?? "")
+          .filter((x) => x.trim().length > 0)
+      : [],
+  }));
+}
+
+/**
+ * Turn markers extracted by Gemini into rows, mapped onto the canonical registry.
+ *
+ * @param userId - Owner of the lab result
+ * @param labResultId - ID of the lab result the markers belong to
+ * @param markers - Markers as returned by extractLabData
+ *
+ * Postconditions:
+ * - Markers without a numeric value are skipped, not fatal.
+ */
+async function toMarkerRows(userId: string, labResultId: number, markers: ExtractedMarker[]): Promise<InsertHealthMarker[]> {
+  const userAliases = await getUserMarkerAliases(userId);
+  const rows: InsertHealthMarker[] = [];
+  for (const marker of markers) {
+    const name = sanitizeForPostgresText(marker.name) ?? "";
+    const unit = sanitizeForPostgresText(marker.unit);
+    const status = sanitizeForPostgresText(marker.status) ?? "unknown";
+
+    // Map the free-text label onto the registry; unknown labels are saved with no code for review.
+    const canonicalCode = resolveMarkerCode(name, userAliases) ?? null;
+    const definition = canonicalCode ? getMarkerDefinition(canonicalCode) : undefined;
+    const category = definition?.category ?? sanitizeForPostgresText(marker.category) ?? "other";
+
+    // value is numeric in Postgres, so we must have a numeric string.
+    const valueNum = extractFirstNumberStringOrNull(marker.value);
+    if (valueNum === null) {
+      console.warn("Skipping marker (no numeric value):", name, marker.value);
+      continue;
+    }
+
+    const normalMinNum = extractFirstNumberStringOrNull(marker.normalMin);
+    const normalMaxNum = extractFirstNumberStringOrNull(marker.normalMax);
+
+    rows.push({
+      labResultId,
+      name,
+      value: valueNum, // ✅ never "" / "null"
+      unit,
+      normalMin: normalMinNum, // null or numeric string
+      normalMax: normalMaxNum, // null or numeric string
+      status,
+      category,
+      canonicalCode,
+    });
+  }
+  return rows;
+}
+
+/**
+ * Run one attempt of a lab processing job: parse the upload (if its text isn't stored yet),
+ * extract markers and recommendations with Gemini, then replace what was saved before.
+ *
+ * @param job - Claimed job (fileData is only needed until rawText has been stored)
+ * @param setStage - Records progress on the job and the lab result's status
+ * @param signal - Aborted when the caller gave up on this attempt (timeout)
+ * @throws The signal's reason once it is aborted, before the next stage or write.
+ *
+ * Preconditions:
+ * - The caller owns the job (status "running") and handles retries and final status.
+ * Postconditions:
+ * - rawText is stored as soon as it is extracted, so a later failure doesn't repeat OCR.
+ * - Manual entries keep their markers; only recommendations are regenerated.
+ * - Safe to re-run: the saving stage replaces previous markers/recommendations in one transaction,
+ *   and only while this attempt is still the job's current one.
+ */
+export async function runLabJob(
+  job: LabJob,
+  setStage: (stage: LabProcessingStage) => Promise<void>,
+  signal: AbortSignal,
+) {
+  const { userId, labResultId } = job;
+
+  const labResult = await storage.getLabResult(userId, labResultId);
+  if (!labResult) {
+    throw new NonRetryableJobError("Lab result no longer exists");
+  }
+
+  // 1) Extract text: PDF text layer, or local OCR for images and scanned PDFs
+  let rawText = labResult.rawText ?? "";
+  if (rawText.trim().length === 0) {
+    if (!job.fileData || !job.fileKind) {
+      throw new NonRetryableJobError("No stored text or file to process");
+    }
+
+    await setStage("parsing");
+    const extracted = await extractTextFromUpload(job.fileData, job.fileKind as UploadKind);
+    rawText = sanitizeForPostgresText(extracted.text) ?? "";
+
+    if (rawText.trim().length === 0) {
+      throw new NonRetryableJobError(`No text could be extracted from upload (${extracted.source})`);
+    }
+
+    signal.throwIfAborted();
+    await storage.updateLabResult(userId, labResultId, { rawText });
+  }
+
+  // 2) Send extracted text to Gemini
+  await setStage("extracting");
+  let extractedData: ExtractedData;
+  try {
+    extractedData = await extractLabData(rawText);
+  } catch (error) {
+    if (!(error instanceof AiDisabledError)) throw error;
+    // Manual entries already have their markers; they just go without recommendations.
+    if (labResult.source !== "manual") {
+      throw new NonRetryableJobError("AI features are disabled, so markers could not be extracted");
+    }
+    extractedData = { markers: [], recommendations: [] };
+  }
+
+  // 3) Replace previous markers and recommendations
+  await setStage("saving");
+  const saved = await storage.saveLabJobOutput(job, {
+    markers: labResult.source === "manual" ? null : await toMarkerRows(userId, labResultId, extractedData.markers),
+    recommendations: toRecommendationRows(labResultId, extractedData.recommendations),
+  });
+  if (!saved) {
+    throw new Error("This attempt was superseded by a retry; its results were discarded");
+  }
+}
@@ -0,0 +1,323 @@
+// server/markers.ts
+import type { MarkerDefinition } from "@shared/schema";
+
+/**
+ * Canonical marker registry.
+ *
+ * Lab reports (and Gemini) name the same test many ways; every stored marker is mapped onto one of
+ * these codes so results can be compared across reports. Aliases are matched after
+ * normalizeMarkerLabel, so case, spacing and punctuation variants don't need listing.
+ */
+export const MARKER_DEFINITIONS: MarkerDefinition[] = [
+  // Vitamins
+  {
+    code: "vitamin_d",
+    displayName: "Vitamin D (25-OH)",
+    aliases: [
+      "Vitamin D",
+      "Vit D",
+      "Vitamin D, 25-Hydroxy",
+      "25-Hydroxyvitamin D",
+      "25-Hydroxy Vitamin D",
+      "25(OH)D",
+      "25-OH Vitamin D",
+      "Vitamin D Total",
+      "Calcidiol",
+    ],
+    defaultUnit: "ng/mL",
+    category: "vitamins",
+  },
+  {
+    code: "vitamin_b12",
+    displayName: "Vitamin B12",
+    aliases: ["B12", "Vit B12", "Cobalamin", "Cyanocobalamin", "Vitamin B-12"],
+    defaultUnit: "pg/mL",
+    category: "vitamins",
+  },
+  {
+    code: "folate",
+    displayName: "Folate",
+    aliases: ["Folic Acid", "Serum Folate", "Vitamin B9"],
+    defaultUnit: "ng/mL",
+    category: "vitamins",
+  },
+
+  // Minerals
+  {
+    code: "ferritin",
+    displayName: "Ferritin",
+    aliases: ["Serum Ferritin", "Iron (Ferritin)", "Ferritin, Serum"],
+    defaultUnit: "ng/mL",
+    category: "minerals",
+  },
+  {
+    code: "iron",
+    displayName: "Iron",
+    aliases: ["Serum Iron", "Iron, Serum", "Fe", "Iron Total"],
+    defaultUnit: "µg/dL",
+    category: "minerals",
+  },
+  {
+    code: "tibc",
+    displayName: "TIBC",
+    aliases: ["Total Iron Binding Capacity", "Iron Binding Capacity"],
+    defaultUnit: "µg/dL",
+    category: "minerals",
+  },
+  {
+    code: "transferrin_saturation",
+    displayName: "Transferrin Saturation",
+    aliases: ["Iron Saturation", "% Saturation", "TSAT"],
+    defaultUnit: "%",
+    category: "minerals",
+  },
+  {
+    code: "magnesium",
+    displayName: "Magnesium",
+    aliases: ["Mg", "Serum Magnesium", "Magnesium, Serum"],
+    defaultUnit: "mg/dL",
+    category: "minerals",
+  },
+  {
+    code: "calcium",
+    displayName: "Calcium",
+    aliases: ["Ca", "Serum Calcium", "Calcium, Serum", "Calcium Total"],
+    defaultUnit: "mg/dL",
+    category: "minerals",
+  },
+  {
+    code: "zinc",
+    displayName: "Zinc",
+    aliases: ["Zn", "Serum Zinc", "Zinc, Plasma"],
+    defaultUnit: "µg/dL",
+    category: "minerals",
+  },
+  {
+    code: "potassium",
+    displayName: "Potassium",
+    aliases: ["K", "Serum Potassium", "Potassium, Serum"],
+    defaultUnit: "mmol/L",
+    category: "minerals",
+  },
+  {
+    code: "sodium",
+    displayName: "Sodium",
+    aliases: ["Na", "Serum Sodium", "Sodium, Serum"],
+    defaultUnit: "mmol/L",
+    category: "minerals",
+  },
+
+  // Blood count
+  {
+    code: "hemoglobin",
+    displayName: "Hemoglobin",
+    aliases: ["Hgb", "Hb", "Haemoglobin"],
+    defaultUnit: "g/dL",
+    category: "blood",
+  },
+  {
+    code: "hematocrit",
+    displayName: "Hematocrit",
+    aliases: ["Hct", "Haematocrit", "Packed Cell Volume", "PCV"],
+    defaultUnit: "%",
+    category: "blood",
+  },
+  {
+    code: "rbc",
+    displayName: "Red Blood Cells",
+    aliases: ["RBC", "RBC Count", "Red Blood Cell Count", "Erythrocytes"],
+    defaultUnit: "10^6/µL",
+    category: "blood",
+  },
+  {
+    code: "wbc",
+    displayName: "White Blood Cells",
+    aliases: ["WBC", "WBC Count", "White Blood Cell Count", "Leukocytes"],
+    defaultUnit: "10^3/µL",
+    category: "blood",
+  },
+  {
+    code: "platelets",
+    displayName: "Platelets",
+    aliases: ["PLT", "Platelet Count", "Thrombocytes"],
+    defaultUnit: "10^3/µL",
+    category: "blood",
+  },
+  {
+    code: "mcv",
+    displayName: "MCV",
+    aliases: ["Mean Corpuscular Volume", "Mean Cell Volume"],
+    defaultUnit: "fL",
+    category: "blood",
+  },
+
+  // Hormones
+  {
+    code: "tsh",
+    displayName: "TSH",
+    aliases: ["Thyroid Stimulating Hormone", "Thyrotropin"],
+    defaultUnit: "mIU/L",
+    category: "hormones",
+  },
+  {
+    code: "free_t4",
+    displayName: "Free T4",
+    aliases: ["FT4", "Free Thyroxine", "Thyroxine Free", "T4 Free"],
+    defaultUnit: "ng/dL",
+    category: "hormones",
+  },
+  {
+    code: "free_t3",
+    displayName: "Free T3",
+    aliases: ["FT3", "Free Triiodothyronine", "T3 Free"],
+    defaultUnit: "pg/mL",
+    category: "hormones",
+  },
+  {
+    code: "testosterone",
+    displayName: "Testosterone",
+    aliases: ["Total Testosterone", "Testosterone Total", "Testosterone, Serum"],
+    defaultUnit: "ng/dL",
+    category: "hormones",
+  },
+  {
+    code: "cortisol",
+    displayName: "Cortisol",
+    aliases: ["Serum Cortisol", "Cortisol AM", "Morning Cortisol"],
+    defaultUnit: "µg/dL",
+    category: "hormones",
+  },
+
+  // Lipids
+  {
+    code: "total_cholesterol",
+    displayName: "Total Cholesterol",
+    aliases: ["Cholesterol", "Cholesterol Total", "Cholesterol, Total", "TC"],
+    defaultUnit: "mg/dL",
+    category: "lipids",
+  },
+  {
+    code: "ldl",
+    displayName: "LDL Cholesterol",
+    aliases: ["LDL", "LDL-C", "LDL Cholesterol Calc", "Low Density Lipoprotein"],
+    defaultUnit: "mg/dL",
+    category: "lipids",
+  },
+  {
+    code: "hdl",
+    displayName: "HDL Cholesterol",
+    aliases: ["HDL", "HDL-C", "High Density Lipoprotein"],
+    defaultUnit: "mg/dL",
+    category: "lipids",
+  },
+  {
+    code: "triglycerides",
+    displayName: "Triglycerides",
+    aliases: ["TG", "Trigs", "Triglyceride"],
+    defaultUnit: "mg/dL",
+    category: "lipids",
+  },
+
+  // Metabolic
+  {
+    code: "glucose",
+    displayName: "Glucose",
+    aliases: ["Fasting Glucose", "Glucose (fasting)", "Blood Glucose", "Blood Sugar", "Fasting Blood Sugar", "FBS", "FPG"],
+    defaultUnit: "mg/dL",
+    category: "metabolic",
+  },
+  {
+    code: "hba1c",
+    displayName: "HbA1c",
+    aliases: ["A1c", "Hemoglobin A1c", "Glycated Hemoglobin", "Glycohemoglobin", "Haemoglobin A1c"],
+    defaultUnit: "%",
+    category: "metabolic",
+  },
+  {
+    code: "creatinine",
+    displayName: "Creatinine",
+    aliases: ["Serum Creatinine", "Creatinine, Serum", "Creat"],
+    defaultUnit: "mg/dL",
+    category: "metabolic",
+  },
+  {
+    code: "egfr",
+    displayName: "eGFR",
+    aliases: ["Estimated GFR", "GFR", "Glomerular Filtration Rate"],
+    defaultUnit: "mL/min/1.73m²",
+    category: "metabolic",
+  },
+  {
+    code: "bun",
+    displayName: "BUN",
+    aliases: ["Blood Urea Nitrogen", "Urea Nitrogen"],
+    defaultUnit: "mg/dL",
+    category: "metabolic",
+  },
+  {
+    code: "alt",
+    displayName: "ALT",
+    aliases: ["SGPT", "Alanine Aminotransferase", "ALT (SGPT)"],
+    defaultUnit: "U/L",
+    category: "metabolic",
+  },
+  {
+    code: "ast",
+    displayName: "AST",
+    aliases: ["SGOT", "Aspartate Aminotransferase", "AST (SGOT)"],
+    defaultUnit: "U/L",
+    category: "metabolic",
+  },
+  {
+    code: "crp",
+    displayName: "C-Reactive Protein",
+    aliases: ["CRP", "hs-CRP", "High Sensitivity CRP", "C Reactive Protein"],
+    defaultUnit: "mg/L",
+    category: "metabolic",
+  },
+];
+
+/**
+ * Reduce a marker label to a comparison key.
+ *
+ * @param label - Marker name as printed on a report, e.g. "Vitamin D, 25-Hydroxy".
+ * @returns Lower-case letters and digits only, e.g. "vitamind25hydroxy".
+ *
+ * Postconditions:
+ * - "25(OH)D", "25-OH-D" and "25 oh d" all produce the same key.
+ */
+export function normalizeMarkerLabel(label: string): string {
+  return label
+    .normalize("NFKD")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+}
+
+const definitionsByCode = new Map(MARKER_DEFINITIONS.map((d) => [d.code, d]));
+
+const codesByLabel = new Map<string, string>();
+for (const definition of MARKER_DEFINITIONS) {
+  for (const label of [definition.code, definition.displayName, ...definition.aliases]) {
+    codesByLabel.set(normalizeMarkerLabel(label), definition.code);
+  }
+}
+
+/**
+ * Look up a registry entry by code.
+ */
+export function getMarkerDefinition(code: string): MarkerDefinition | undefined {
+  return definitionsByCode.get(code);
+}
+
+/**
+ * Map a free-text marker label onto a registry code.
+ *
+ * @param label - Marker name from an upload or manual entry.
+ * @param userAliases - The user's confirmed mappings (normalized alias -> code), checked first.
+ * @returns The canonical code, or undefined if the label needs review.
+ */
+export function resolveMarkerCode(label: string, userAliases?: Map<string, string>): string | undefined {
+  const key = normalizeMarkerLabel(label);
+  if (!key) return undefined;
+  return userAliases?.get(key) ?? codesByLabel.get(key);
+}
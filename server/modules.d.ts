@@ -0,0 +1,17 @@
+// Type declarations for dependencies that ship without their own.
+
+declare module "heic-convert" {
+  interface HeicConvertOptions {
+    buffer: Buffer | Uint8Array;
+    format: "JPEG" | "PNG";
+    quality?: number;
+  }
+
+  function heicConvert(options: HeicConvertOptions): Promise<ArrayBuffer>;
+  export default heicConvert;
+}
+
+declare module "@tesseract.js-data/eng" {
+  const data: { code: string; gzip: boolean; langPath: string };
+  export default data;
+}
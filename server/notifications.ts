@@ -0,0 +1,187 @@
+// server/notifications.ts
+import { storage } from "./storage";
+import { toMinutes } from "./scheduler";
+import { generatePillDoses } from "./doses";
+import { localDateTime } from "@shared/pill-schedule";
+import {
+  timeBlocks,
+  timeBlockWindows,
+  type InsertNotificationLogEntry,
+  type NotificationLogEntry,
+  type PillDose,
+} from "@shared/schema";
+
+// How often the scheduler looks for notifications that are due
+const TICK_MS = 60 * 1000;
+
+// A notification whose time passed less than this long ago still goes out (a slow tick or a
+// restart); the log's idempotency keys keep it from going out twice
+const CATCH_UP_MINUTES = 5;
+
+// How long log entries are kept
+const LOG_RETENTION_DAYS = 30;
+
+const weekdays = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+/**
+ * A delivery channel (Web Push, ...): called once for each newly logged notification.
+ */
+export type NotificationChannel = (entry: NotificationLogEntry) => Promise<void>;
+
+const channels: NotificationChannel[] = [];
+let tickTimer: NodeJS.Timeout | undefined;
+
+/**
+ * Deliver every notification logged from now on through a channel as well. Open app tabs don't
+ * need one: they read the log (GET /api/notifications).
+ */
+export function addNotificationChannel(channel: NotificationChannel) {
+  channels.push(channel);
+}
+
+// Whether a HH:MM time fell within the last CATCH_UP_MINUTES
+const isDue = (time: string, now: { minutes: number }) =>
+  now.minutes >= toMinutes(time) && now.minutes < toMinutes(time) + CATCH_UP_MINUTES;
+
+async function pillNames(userId: string, doses: PillDose[]): Promise<string> {
+  const [medications, supplements] = await Promise.all([storage.getMedications(userId), storage.getSupplements(userId)]);
+  return doses
+    .map((dose) =>
+      dose.pillType === "medication"
+        ? medications.find((m) => m.id === dose.pillId)?.name
+        : supplements.find((s) => s.id === dose.pillId)?.name,
+    )
+    .filter(Boolean)
+    .join(", ");
+}
+
+/**
+ * The notifications due for a user right now, in their time zone.
+ *
+ * @param userId - Whose notifications to work out
+ * @param timeZone - The user's time zone (IANA name); the server's when undefined
+ * @param now - The current time
+ * @returns Each time block's open pills when the block starts, snoozed doses whose snooze just ran
+ *   out, and reminders at their time on their days. Already-logged ones are included too; logging
+ *   drops them by idempotency key.
+ */
+export async function dueNotifications(
+  userId: string,
+  timeZone: string | undefined,
+  now: Date = new Date(),
+): Promise<InsertNotificationLogEntry[]> {
+  const local = localDateTime(now, timeZone);
+  const due: InsertNotificationLogEntry[] = [];
+
+  // Only create the day's dose rows once a block is starting
+  const blockStarting = timeBlocks.some((block) => isDue(timeBlockWindows[block].start, local));
+  const doses = blockStarting
+    ? await generatePillDoses(userId, local.date, timeZone)
+    : await storage.getPillDosesByDate(userId, local.date);
+
+  for (const timeBlock of timeBlocks) {
+    const open = doses.filter(
+      (d) => d.scheduledTimeBlock === timeBlock && (d.status === "pending" || d.status === "snoozed"),
+    );
+    if (open.length === 0) continue;
+    const pills = { date: local.date, timeBlock, doseIds: open.map((d) => d.id) };
+
+    if (isDue(timeBlockWindows[timeBlock].start, local)) {
+      due.push({
+        idempotencyKey: `pills:${local.date}:${timeBlock}`,
+        kind: "pills",
+        title: `Time for your ${timeBlock} pills`,
+        body: await pillNames(userId, open),
+        url: "/planner",
+        doses: pills,
+        dueAt: now,
+      });
+    }
+
+    // A snooze covers the whole block, so its doses share one snoozedUntil
+    const snoozedUntil = open.find((d) => d.status === "snoozed" && d.snoozedUntil)?.snoozedUntil;
+    const overdueBy = snoozedUntil ? now.getTime() - snoozedUntil.getTime() : -1;
+    if (snoozedUntil && overdueBy >= 0 && overdueBy < CATCH_UP_MINUTES * 60 * 1000) {
+      due.push({
+        idempotencyKey: `snooze:${local.date}:${timeBlock}:${snoozedUntil.toISOString()}`,
+        kind: "snooze",
+        title: `Time for your ${timeBlock} pills (snoozed)`,
+        body: await pillNames(userId, open),
+        url: "/planner",
+        doses: pills,
+        dueAt: snoozedUntil,
+      });
+    }
+  }
+
+  const weekday = weekdays[new Date(`${local.date}T00:00:00Z`).getUTCDay()];
+  for (const reminder of await storage.getReminders(userId)) {
+    if (!reminder.enabled || !(reminder.days ?? []).includes(weekday) || !isDue(reminder.time, local)) continue;
+    due.push({
+      idempotencyKey: `reminder:${reminder.id}:${local.date}`,
+      kind: "reminder",
+      title: reminder.title,
+      body: `It's time for your ${reminder.type} reminder.`,
+      url: "/reminders",
+      doses: null,
+      dueAt: now,
+    });
+  }
+  return due;
+}
+
+/**
+ * Log a user's due notifications and deliver the new ones through every channel.
+ *
+ * @returns How many notifications were new.
+ *
+ * Postconditions:
+ * - A notification whose idempotency key is already in the log is neither logged nor delivered again.
+ * - A failing channel is logged and doesn't stop the other channels.
+ */
+export async function notifyUser(userId: string, timeZone: string | undefined, now: Date = new Date()): Promise<number> {
+  let sent = 0;
+  for (const notification of await dueNotifications(userId, timeZone, now)) {
+    const entry = await storage.logNotification(userId, notification);
+    if (!entry) continue;
+    sent++;
+    for (const channel of channels) {
+      try {
+        await channel(entry);
+      } catch (error) {
+        console.error(`Error delivering notification ${entry.id}:`, error);
+      }
+    }
+  }
+  return sent;
+}
+
+/**
+ * Start the notification scheduler, the one place pill and reminder notifications are decided.
+ *
+ * Postconditions:
+ * - Runs now, then every TICK_MS over every user; a failed run is logged and retried next time.
+ * - Log entries older than LOG_RETENTION_DAYS are deleted.
+ */
+export function startNotificationScheduler() {
+  if (tickTimer) return;
+
+  const tick = async () => {
+    try {
+      const now = new Date();
+      for (const user of await storage.getUsers()) {
+        try {
+          await notifyUser(user.id, user.preferences?.timeZone, now);
+        } catch (error) {
+          console.error(`Error scheduling notifications for user ${user.id}:`, error);
+        }
+      }
+      await storage.deleteNotificationsBefore(new Date(now.getTime() - LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000));
+    } catch (error) {
+      console.error("Error scheduling notifications:", error);
+    } finally {
+      tickTimer = setTimeout(tick, TICK_MS);
+    }
+  };
+  tickTimer = setTimeout(tick, 0);
+}
@@ -0,0 +1,146 @@
+// server/ocr.ts
+import { PDFParse } from "pdf-parse";
+import { createWorker, OEM, type Worker } from "tesseract.js";
+import heicConvert from "heic-convert";
+// Bundled English model so OCR never needs network access.
+import engData from "@tesseract.js-data/eng";
+
+export type UploadKind = "pdf" | "image" | "heic";
+
+export type TextSource = "pdf-text" | "pdf-ocr" | "image-ocr";
+
+export interface ExtractedText {
+  text: string;
+  source: TextSource;
+}
+
+// A PDF text layer shorter than this is treated as a scan (usually just whitespace or a page number).
+const MIN_PDF_TEXT_CHARS = 20;
+
+// Render scanned PDF pages at 2x so small lab-report fonts survive OCR.
+const PDF_OCR_SCALE = 2;
+
+/**
+ * Detect what kind of lab upload we received, preferring the file's magic bytes over the
+ * client-supplied MIME type (phones often send HEIC as application/octet-stream).
+ *
+ * @param buffer - Raw uploaded bytes.
+ * @param mimeType - MIME type reported by the client (may be wrong or generic).
+ * @returns The upload kind, or undefined if the file is not a supported PDF/image.
+ */
+export function detectUploadKind(buffer: Buffer, mimeType?: string): UploadKind | undefined {
+  if (buffer.subarray(0, 5).toString("latin1") === "%PDF-") return "pdf";
+
+  // PNG
+  if (buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return "image";
+  // JPEG
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return "image";
+  // WebP ("RIFF....WEBP")
+  if (buffer.subarray(0, 4).toString("latin1") === "RIFF" && buffer.subarray(8, 12).toString("latin1") === "WEBP") {
+    return "image";
+  }
+  // HEIC/HEIF ("....ftypheic" etc.)
+  if (buffer.subarray(4, 8).toString("latin1") === "ftyp") {
+    const brand = buffer.subarray(8, 12).toString("latin1");
+    if (["heic", "heix", "hevc", "hevx", "heim", "heis", "mif1", "msf1"].includes(brand)) return "heic";
+  }
+
+  // Fall back to the declared type for anything we could not sniff.
+  if (mimeType === "application/pdf") return "pdf";
+  if (mimeType === "image/heic" || mimeType === "image/heif") return "heic";
+  if (mimeType === "image/png" || mimeType === "image/jpeg" || mimeType === "image/webp") return "image";
+
+  return undefined;
+}
+
+let workerPromise: Promise<Worker> | undefined;
+
+/**
+ * Lazily create a single shared Tesseract worker (model load is the expensive part).
+ *
+ * Postconditions:
+ * - Uses the bundled eng model; nothing is downloaded or cached to disk.
+ * - A failed start is not cached, so the next call retries.
+ */
+function getWorker(): Promise<Worker> {
+  if (!workerPromise) {
+    workerPromise = createWorker("eng", OEM.LSTM_ONLY, {
+      langPath: engData.langPath,
+      gzip: engData.gzip,
+      cacheMethod: "none",
+    }).catch((error) => {
+      workerPromise = undefined;
+      throw error;
+    });
+  }
+  return workerPromise;
+}
+
+/**
+ * Run OCR on a single PNG/JPEG/WebP image.
+ *
+ * @param image - Image bytes.
+ * @returns Recognised text (may be empty).
+ */
+export async function recognizeImage(image: Buffer): Promise<string> {
+  const worker = await getWorker();
+  const { data } = await worker.recognize(image);
+  return data.text ?? "";
+}
+
+/**
+ * Extract text from a PDF, falling back to OCR of rendered pages when the text layer is empty
+ * (scanned/photographed reports saved as PDF).
+ *
+ * @param buffer - Raw PDF bytes.
+ * @returns Text plus which path produced it.
+ */
+async function extractPdfText(buffer: Buffer): Promise<ExtractedText> {
+  const parser = new PDFParse({ data: buffer });
+  try {
+    const parsed = await parser.getText();
+    if (parsed.text.replace(/\s+/g, "").length >= MIN_PDF_TEXT_CHARS) {
+      return { text: parsed.text, source: "pdf-text" };
+    }
+
+    const screenshots = await parser.getScreenshot({
+      scale: PDF_OCR_SCALE,
+      imageBuffer: true,
+      imageDataUrl: false,
+    });
+
+    const pageTexts: string[] = [];
+    for (const page of screenshots.pages) {
+      pageTexts.push(await recognizeImage(Buffer.from(page.data)));
+    }
+
+    return { text: pageTexts.join("\n\n"), source: "pdf-ocr" };
+  } finally {
+    await parser.destroy();
+  }
+}
+
+/**
+ * Turn an uploaded lab report into plain text for the extraction pipeline.
+ *
+ * @param buffer - Raw uploaded bytes.
+ * @param kind - Result of detectUploadKind.
+ * @returns Extracted text and its source.
+ *
+ * Preconditions:
+ * - kind was detected from the same buffer.
+ * Postconditions:
+ * - Throws if the file cannot be decoded; the caller records the error on the lab result.
+ */
+export async function extractTextFromUpload(buffer: Buffer, kind: UploadKind): Promise<ExtractedText> {
+  switch (kind) {
+    case "pdf":
+      return extractPdfText(buffer);
+    case "heic": {
+      const png = await heicConvert({ buffer, format: "PNG" });
+      return { text: await recognizeImage(Buffer.from(png)), source: "image-ocr" };
+    }
+    case "image":
+      return { text: await recognizeImage(buffer), source: "image-ocr" };
+  }
+}
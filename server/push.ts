@@ -0,0 +1,189 @@
+// server/push.ts
+import { createHmac, timingSafeEqual } from "crypto";
+import webpush from "web-push";
+import { storage } from "./storage";
+import { getSessionSecret } from "./auth";
+import { snoozeTimeBlock } from "./doses";
+import { updateDoseWithInventory } from "./inventory";
+import { addNotificationChannel } from "./notifications";
+import {
+  defaultSnoozeSettings,
+  type PillDose,
+  type PushAction,
+  type PushPayload,
+  type PushStatus,
+  type PushSubscriptionRecord,
+  type NotificationDoses,
+} from "@shared/schema";
+
+// How long the "Taken" and "Snooze" buttons of a pill notification keep working
+const ACTION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+let status: PushStatus | undefined;
+
+/**
+ * Whether push notifications are configured, from the VAPID_* environment variables
+ * (generate them with `npm run vapid`).
+ *
+ * Postconditions:
+ * - Configured once; missing or invalid keys leave push disabled with a warning.
+ */
+export function getPushStatus(): PushStatus {
+  if (status) return status;
+
+  const publicKey = process.env.VAPID_PUBLIC_KEY?.trim();
+  const privateKey = process.env.VAPID_PRIVATE_KEY?.trim();
+  if (!publicKey || !privateKey) {
+    status = { enabled: false, publicKey: null };
+    return status;
+  }
+
+  try {
+    webpush.setVapidDetails(process.env.VAPID_SUBJECT?.trim() || "mailto:admin@localhost", publicKey, privateKey);
+    status = { enabled: true, publicKey };
+  } catch (error) {
+    console.warn("Invalid VAPID keys; push notifications are disabled:", error);
+    status = { enabled: false, publicKey: null };
+  }
+  return status;
+}
+
+// What a pill notification's action buttons may do: these doses of this block, until exp, while
+// the subscription it was sent to is still the user's (logging out deletes it)
+type ActionClaims = NotificationDoses & {
+  userId: string;
+  endpoint: string;
+  exp: number; // ms since epoch
+};
+
+function sign(body: string): string {
+  return createHmac("sha256", getSessionSecret()).update(body).digest("base64url");
+}
+
+function signActionToken(claims: ActionClaims): string {
+  const body = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  return `${body}.${sign(body)}`;
+}
+
+/**
+ * Read an action token, or null when it's forged, malformed or expired.
+ */
+function verifyActionToken(token: string): ActionClaims | null {
+  const [body, signature] = token.split(".");
+  if (!body || !signature) return null;
+
+  const expected = Buffer.from(sign(body));
+  const supplied = Buffer.from(signature);
+  if (expected.length !== supplied.length || !timingSafeEqual(expected, supplied)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(body, "base64url").toString()) as ActionClaims;
+    return claims.exp > Date.now() ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Send a notification to every browser a user subscribed.
+ *
+ * @param subscriptions - The user's subscriptions
+ * @param payloadFor - What the service worker shows, per subscription
+ * @returns How many browsers the push service accepted it for.
+ *
+ * Postconditions:
+ * - Subscriptions the push service reports as gone (404/410) are deleted; other failures are logged.
+ */
+async function sendPush(
+  subscriptions: PushSubscriptionRecord[],
+  payloadFor: (subscription: PushSubscriptionRecord) => PushPayload,
+): Promise<number> {
+  let delivered = 0;
+  for (const subscription of subscriptions) {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        JSON.stringify(payloadFor(subscription)),
+        { TTL: 60 * 60 },
+      );
+      delivered++;
+    } catch (error) {
+      const statusCode = (error as { statusCode?: number }).statusCode;
+      if (statusCode === 404 || statusCode === 410) {
+        await storage.deleteExpiredPushSubscription(subscription.endpoint);
+      } else {
+        console.error("Error sending push notification:", error);
+      }
+    }
+  }
+  return delivered;
+}
+
+/**
+ * Start delivering logged notifications by Web Push.
+ *
+ * Postconditions:
+ * - Does nothing when push isn't configured.
+ * - Otherwise every new notification goes to the user's subscribed browsers; pill notifications
+ *   carry an action token for "Taken" and "Snooze", and the log entry records when a push got out.
+ */
+export function startPushChannel() {
+  if (!getPushStatus().enabled) {
+    console.log("Push notifications are disabled (VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY not set)");
+    return;
+  }
+
+  addNotificationChannel(async (entry) => {
+    const subscriptions = await storage.getPushSubscriptions(entry.userId);
+    if (subscriptions.length === 0) return;
+
+    const delivered = await sendPush(subscriptions, ({ endpoint }) => ({
+      title: entry.title,
+      body: entry.body,
+      tag: entry.idempotencyKey,
+      url: entry.url,
+      actionToken: entry.doses
+        ? signActionToken({ userId: entry.userId, endpoint, ...entry.doses, exp: Date.now() + ACTION_TOKEN_TTL_MS })
+        : undefined,
+    }));
+    if (delivered > 0) await storage.markNotificationPushed(entry.id);
+  });
+}
+
+/**
+ * Carry out a pill notification's "Taken" or "Snooze" button.
+ *
+ * @param request - The action and the token from the notification
+ * @returns The doses it changed, or null if the token is invalid or expired, or the subscription it
+ *   was sent to was deleted (the user logged out or turned push off on that browser).
+ * @throws SnoozeLimitError when snoozing doses that were snoozed the maximum number of times.
+ *
+ * Postconditions:
+ * - "taken" marks the notification's doses taken (with inventory), leaving ones already taken,
+ *   skipped or missed alone; "snooze" snoozes the block with the user's default duration.
+ */
+export async function handlePushAction(request: PushAction): Promise<PillDose[] | null> {
+  const claims = verifyActionToken(request.token);
+  if (!claims) return null;
+  const subscriptions = await storage.getPushSubscriptions(claims.userId);
+  if (!subscriptions.some((s) => s.endpoint === claims.endpoint)) return null;
+
+  if (request.action === "snooze") {
+    const user = await storage.getUser(claims.userId);
+    const settings = user?.preferences?.snooze ?? defaultSnoozeSettings;
+    return snoozeTimeBlock(claims.userId, { date: claims.date, timeBlock: claims.timeBlock }, settings);
+  }
+
+  const updated: PillDose[] = [];
+  for (const id of claims.doseIds) {
+    const dose = await storage.getPillDose(claims.userId, id);
+    if (!dose || (dose.status !== "pending" && dose.status !== "snoozed")) continue;
+    const taken = await updateDoseWithInventory(claims.userId, id, {
+      status: "taken",
+      takenAt: new Date(),
+      snoozedUntil: null,
+    });
+    if (taken) updated.push(taken);
+  }
+  return updated;
+}
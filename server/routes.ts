@@ -1,11 +1,23 @@
 // server/routes.ts
-import { PDFParse } from "pdf-parse";
-
 import type { Express, Request, Response } from "express";
 import type { Server } from "http";
 import multer from "multer";
 import { storage } from "./storage";
-import { extractLabData, checkInteractions } from "./gemini";
+import { setupAuth, requireAuth, getUserId, toPublicUser } from "./auth";
+import { getAiStatus } from "./ai";
+import { detectUploadKind, type UploadKind } from "./ocr";
+import { enqueueLabJob } from "./jobs";
+import { getUserMarkerAliases } from "./lab-processing";
+import { MARKER_DEFINITIONS, getMarkerDefinition, normalizeMarkerLabel, resolveMarkerCode } from "./markers";
+import { normalizeHealthMarker } from "./units";
+import { runInteractionCheck } from "./interaction-check";
+import { allowTogether, updateInteractionStatus } from "./interaction-status";
+import { FixedTimingError, applySchedule, runAutoSchedule } from "./scheduler";
+import { detectPillConflicts } from "./conflicts";
+import { recordRefill, syncRefillReminder, updateDoseWithInventory } from "./inventory";
+import { computeAdherence } from "./adherence";
+import { SnoozeLimitError, dropStaleDoses, generatePillDoses, snoozeTimeBlock } from "./doses";
+import { getPushStatus, handlePushAction } from "./push";
 import {
   insertMedicationSchema,
   insertSupplementSchema,
@@ -13,8 +25,34 @@ import {
   insertPillStackSchema,
   insertPillDoseSchema,
   healthProfileSchema,
+  manualLabResultSchema,
+  markerReviewSchema,
+  interactionStatusUpdateSchema,
+  applyScheduleSchema,
+  allowTogetherSchema,
+  pillScheduleSchema,
+  doseSlotsSchema,
+  pillCourseSchema,
+  pillRefillSchema,
+  pillInventorySchema,
+  adherenceQuerySchema,
+  snoozeRequestSchema,
+  defaultSnoozeSettings,
+  pushSubscriptionSchema,
+  pushActionSchema,
+  userPreferencesSchema,
+  labResultActiveStatuses,
   type HealthProfile,
   type HealthProfileStatus,
+  type ManualLabResult,
+  type MarkerReviewItem,
+  type PillCourse,
+  type PillRef,
+  type MarkerHistory,
+  type MarkerHistoryPoint,
+  type HealthMarker,
+  type UnitSystem,
+  type UserPreferences,
 } from "@shared/schema";
 
 const upload = multer({ storage: multer.memoryStorage() });
@@ -82,13 +120,63 @@ function requireIntParam(req: Request, res: Response, key: string): number | und
   return n;
 }
 
+/**
+ * Check the treatment course a pill update would leave it with.
+ *
+ * @param updateData - The update body; course dates it doesn't mention keep their current values
+ * @param current - The pill as stored
+ * @returns The safeParse result for the resulting course dates.
+ */
+function parseCourseUpdate(updateData: Record<string, unknown>, current: PillCourse) {
+  return pillCourseSchema.safeParse({
+    courseStartDate: "courseStartDate" in updateData ? updateData.courseStartDate : current.courseStartDate,
+    courseEndDate: "courseEndDate" in updateData ? updateData.courseEndDate : current.courseEndDate,
+  });
+}
+
+/**
+ * Read the authenticated user's preferred unit system for marker display.
+ *
+ * Preconditions:
+ * - requireAuth has already run for this request (req.user is loaded fresh per request).
+ */
+function getUnitSystem(req: Request): UnitSystem {
+  return req.user?.preferences?.unitSystem ?? "conventional";
+}
+
 export async function registerRoutes(httpServer: Server, app: Express): Promise<Server> {
+  // Sessions + /api/auth/* must be installed before the auth gate below.
+  setupAuth(app);
+
+  // Notification buttons: the service worker may have no session, so the signed token in the
+  // notification authorizes the change instead
+  app.post("/api/push/actions", async (req: Request, res: Response) => {
+    try {
+      const parsed = pushActionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const doses = await handlePushAction(parsed.data);
+      if (!doses) return res.status(401).json({ error: "Invalid or expired notification action" });
+      res.json(doses);
+    } catch (error) {
+      if (error instanceof SnoozeLimitError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Error handling notification action:", error);
+      res.status(500).json({ error: "Failed to handle notification action" });
+    }
+  });
+
+  app.use("/api", requireAuth);
+
   // =========================================================
   // Lab Results
   // =========================================================
-  app.get("/api/lab-results", async (_req: Request, res: Response) => {
+  app.get("/api/lab-results", async (req: Request, res: Response) => {
     try {
-      const results = await storage.getLabResults();
+      const userId = getUserId(req);
+      const results = await storage.getLabResults(userId);
       res.json(results);
     } catch (error) {
       console.error("Error fetching lab results:", error);
@@ -98,18 +186,24 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   app.post("/api/lab-results/upload", upload.single("file"), async (req: Request, res: Response) => {
     try {
+      const userId = getUserId(req);
       if (!req.file) {
         return res.status(400).json({ error: "No file uploaded" });
       }
 
-      const labResult = await storage.createLabResult({
+      const kind = detectUploadKind(req.file.buffer, req.file.mimetype);
+      if (!kind) {
+        return res.status(400).json({ error: "Unsupported file type (use PDF, PNG, JPG, WebP or HEIC)" });
+      }
+
+      const labResult = await storage.createLabResult(userId, {
         fileName: req.file.originalname,
-        status: "processing",
+        status: "queued",
         rawText: null,
       });
 
-      // Fire-and-forget processing (do not block response)
-      void processLabResult(labResult.id, req.file.buffer);
+      // The file is kept with the job so processing survives restarts and retries.
+      await enqueueLabJob(userId, labResult.id, { data: req.file.buffer, kind });
 
       res.status(201).json(labResult);
     } catch (error) {
@@ -118,156 +212,134 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  /**
-   * Remove characters that Postgres text columns cannot store (notably the null byte \u0000).
-   *
-   * @param value - Any value to be stored as text.
-   * @returns A safe string, or null if the input is null/undefined.
-   *
-   * Preconditions:
-   * - value may be null/undefined or any type.
-   * Postconditions:
-   * - Returned string contains no \u0000 characters.
-   */
-  function sanitizeForPostgresText(value: unknown): string | null {
-    if (value == null) return null;
-    return String(value).replace(/\u0000/g, "");
-  }
+  app.post("/api/lab-results/manual", async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = manualLabResultSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
 
-  /**
-   * Extract the first numeric token from a value and return it as a numeric string.
-   * Handles common lab formats like "<1", ">120", "120-160", and "0 /100 WBC".
-   *
-   * @param value - Raw value (number | string | null | undefined | unknown).
-   * @returns A numeric string (e.g., "0.2") or null if no number is present.
-   *
-   * Preconditions:
-   * - value may be null/undefined or contain units/symbols.
-   * Postconditions:
-   * - Never returns ""/"null"/"undefined".
-   */
-  function extractFirstNumberStringOrNull(value: unknown): string | null {
-    if (value === null || value === undefined) return null;
+      const entry = parsed.data;
+      const rawText = formatManualLabText(entry);
 
-    if (typeof value === "number") {
-      return Number.isFinite(value) ? String(value) : null;
-    }
+      const labResult = await storage.createLabResult(userId, {
+        fileName: entry.title || `Manual entry (${entry.collectionDate})`,
+        status: "queued",
+        source: "manual",
+        collectionDate: entry.collectionDate,
+        rawText,
+      });
 
-    if (typeof value === "string") {
-      const s = value.trim();
-      if (!s) return null;
+      // Markers are saved up front: the user's numbers are authoritative, only advice comes from AI.
+      const userAliases = await getUserMarkerAliases(userId);
+      const markers = [];
+      for (const marker of entry.markers) {
+        markers.push(
+          await storage.createHealthMarker(userId, {
+            labResultId: labResult.id,
+            name: marker.name,
+            value: String(marker.value),
+            unit: marker.unit || null,
+            normalMin: marker.normalMin != null ? String(marker.normalMin) : null,
+            normalMax: marker.normalMax != null ? String(marker.normalMax) : null,
+            status: computeMarkerStatus(marker.value, marker.normalMin, marker.normalMax),
+            category: marker.category,
+            canonicalCode: resolveMarkerCode(marker.name, userAliases) ?? null,
+          }),
+        );
+      }
 
-      const match = s.match(/-?\d+(?:\.\d+)?/);
-      if (!match) return null;
+      // Recommendations are generated in the background
+      await enqueueLabJob(userId, labResult.id);
 
-      const n = Number(match[0]);
-      return Number.isFinite(n) ? String(n) : null;
+      const unitSystem = getUnitSystem(req);
+      res.status(201).json({ ...labResult, markers: markers.map((m) => normalizeHealthMarker(m, unitSystem)) });
+    } catch (error) {
+      console.error("Error creating manual lab result:", error);
+      res.status(500).json({ error: "Failed to create lab result" });
     }
-
-    return null;
-  }
+  });
 
   /**
-   * Process a lab result asynchronously.
+   * Classify a marker value against its reference range.
    *
-   * @param labResultId - ID of the lab result record
-   * @param fileBuffer - Uploaded PDF buffer
+   * @param value - Measured value.
+   * @param normalMin - Lower bound of the reference range, if known.
+   * @param normalMax - Upper bound of the reference range, if known.
+   * @returns "low", "high", "normal", or "unknown" when no bound is given.
    *
-   * Preconditions:
-   * - labResultId exists in storage.
-   * - fileBuffer is the raw PDF bytes.
    * Postconditions:
-   * - Updates lab result status to "completed" or "error".
-   * - Stores extracted rawText when possible (even on partial failure).
+   * - Bounds are inclusive (a value equal to normalMax is "normal").
    */
-  async function processLabResult(labResultId: number, fileBuffer: Buffer) {
-    // Keep rawText outside the try so we can store it even if later steps fail.
-    let rawText = "";
-
-    try {
-      // 1) Extract real text from the PDF
-      const parser = new PDFParse({ data: fileBuffer });
-      const parsed = await parser.getText();
-      await parser.destroy();
-
-      rawText = sanitizeForPostgresText(parsed.text) ?? "";
+  function computeMarkerStatus(value: number, normalMin?: number | null, normalMax?: number | null): string {
+    if (normalMin == null && normalMax == null) return "unknown";
+    if (normalMin != null && value < normalMin) return "low";
+    if (normalMax != null && value > normalMax) return "high";
+    return "normal";
+  }
 
-      // 2) Send extracted text to Gemini
-      const extractedData = await extractLabData(rawText);
+  /**
+   * Render a manual entry as lab-report-like text, one marker per line.
+   * Stored as rawText and fed to extractLabData so recommendations match the upload flow.
+   *
+   * @param entry - Validated manual entry.
+   * @returns Plain text such as "Vitamin D: 18 ng/mL (reference 30-100)".
+   */
+  function formatManualLabText(entry: ManualLabResult): string {
+    const lines = entry.markers.map((m) => {
+      const unit = m.unit ? ` ${m.unit}` : "";
+      let range = "";
+      if (m.normalMin != null && m.normalMax != null) range = ` (reference ${m.normalMin}-${m.normalMax})`;
+      else if (m.normalMin != null) range = ` (reference >= ${m.normalMin})`;
+      else if (m.normalMax != null) range = ` (reference <= ${m.normalMax})`;
+      return `${m.name}: ${m.value}${unit}${range}`;
+    });
+    return [`Collection date: ${entry.collectionDate}`, ...lines].join("\n");
+  }
 
-      // 3) Save markers (skip anything that can't be stored safely)
-      for (const marker of extractedData.markers) {
-        const name = sanitizeForPostgresText(marker.name) ?? "";
-        const unit = sanitizeForPostgresText(marker.unit);
-        const status = sanitizeForPostgresText(marker.status) ?? "unknown";
-        const category = sanitizeForPostgresText(marker.category) ?? "other";
+  app.post("/api/lab-results/:id/reprocess", async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const id = requireIntParam(req, res, "id");
+      if (id === undefined) return;
 
-        // value is numeric in Postgres, so we must have a numeric string.
-        const valueNum = extractFirstNumberStringOrNull(marker.value);
-        if (valueNum === null) {
-          console.warn("Skipping marker (no numeric value):", name, marker.value);
-          continue;
-        }
+      const labResult = await storage.getLabResult(userId, id);
+      if (!labResult) {
+        return res.status(404).json({ error: "Lab result not found" });
+      }
+      if ((labResultActiveStatuses as readonly string[]).includes(labResult.status)) {
+        return res.status(409).json({ error: "Lab result is already being processed" });
+      }
 
-        const normalMinNum = extractFirstNumberStringOrNull(marker.normalMin);
-        const normalMaxNum = extractFirstNumberStringOrNull(marker.normalMax);
-
-        try {
-          await storage.createHealthMarker({
-            labResultId,
-            name,
-            value: valueNum, // ✅ never "" / "null"
-            unit,
-            normalMin: normalMinNum, // null or numeric string
-            normalMax: normalMaxNum, // null or numeric string
-            status,
-            category,
-          });
-        } catch (markerError) {
-          // Don't fail the entire PDF because one marker is malformed.
-          console.warn("Skipping marker (DB insert failed):", name, markerError);
+      // Re-run on the stored text; if OCR never produced any, retry the original file instead.
+      let file: { data: Buffer; kind: UploadKind; fromJobId: number } | undefined;
+      if (!labResult.rawText || labResult.rawText.trim().length === 0) {
+        const lastJob = await storage.getLatestLabJob(userId, id);
+        if (!lastJob?.fileData || !lastJob.fileKind) {
+          return res.status(400).json({ error: "No text was extracted from this file; please upload it again" });
         }
+        // Only the new job needs to hold the bytes; the old copy is cleared once it exists.
+        file = { data: lastJob.fileData, kind: lastJob.fileKind as UploadKind, fromJobId: lastJob.id };
       }
 
-      // 4) Save recommendations (sanitize strings so Postgres won't choke on null bytes)
-      for (const rec of extractedData.recommendations) {
-        await storage.createRecommendation({
-          labResultId,
-          type: sanitizeForPostgresText(rec.type) ?? "general",
-          title: sanitizeForPostgresText(rec.title) ?? "",
-          description: sanitizeForPostgresText(rec.description) ?? "",
-          priority: sanitizeForPostgresText(rec.priority) ?? "low",
-          relatedMarker: sanitizeForPostgresText(rec.relatedMarker),
-          actionItems: Array.isArray(rec.actionItems)
-            ? rec.actionItems
-                .map((x) => sanitizeForPostgresText(x) ?? "")
-                .filter((x) => x.trim().length > 0)
-            : [],
-        });
-      }
+      await enqueueLabJob(userId, id, file);
+      const updated = await storage.getLabResult(userId, id);
 
-      // 5) Store rawText + mark completed
-      await storage.updateLabResult(labResultId, {
-        status: "completed",
-        rawText,
-      });
+      res.status(202).json(updated);
     } catch (error) {
-      console.error("Error processing lab result:", error);
-
-      // Store whatever rawText we were able to extract, even on failure.
-      await storage.updateLabResult(labResultId, {
-        status: "error",
-        rawText: rawText.length > 0 ? rawText : null,
-      });
+      console.error("Error reprocessing lab result:", error);
+      res.status(500).json({ error: "Failed to reprocess lab result" });
     }
-  }
+  });
 
   app.delete("/api/lab-results/:id", async (req: Request, res: Response) => {
     try {
+      const userId = getUserId(req);
       const id = requireIntParam(req, res, "id");
       if (id === undefined) return;
 
-      await storage.deleteLabResult(id);
+      await storage.deleteLabResult(userId, id);
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting lab result:", error);
@@ -278,22 +350,173 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
   // =========================================================
   // Health Markers
   // =========================================================
-  app.get("/api/health-markers", async (_req: Request, res: Response) => {
+  app.get("/api/health-markers", async (req: Request, res: Response) => {
     try {
-      const markers = await storage.getHealthMarkers();
-      res.json(markers);
+      const userId = getUserId(req);
+      const unitSystem = getUnitSystem(req);
+      const markers = await storage.getHealthMarkers(userId);
+      res.json(markers.map((m) => normalizeHealthMarker(m, unitSystem)));
     } catch (error) {
       console.error("Error fetching health markers:", error);
       res.status(500).json({ error: "Failed to fetch health markers" });
     }
   });
 
+  /**
+   * Retry registry matching for the user's unrecognised markers.
+   * The registry and the user's aliases grow over time, so labels that failed at upload may match now.
+   *
+   * @param userId - Owner of the markers
+   * @returns Markers that are still unrecognised.
+   *
+   * Postconditions:
+   * - Newly recognised markers have their canonicalCode saved.
+   */
+  async function resolvePendingMarkers(userId: string): Promise<HealthMarker[]> {
+    const userAliases = await getUserMarkerAliases(userId);
+    const stillUnmatched: HealthMarker[] = [];
+
+    for (const marker of await storage.getUnmatchedHealthMarkers(userId)) {
+      const canonicalCode = resolveMarkerCode(marker.name, userAliases);
+      if (canonicalCode) {
+        await storage.updateHealthMarker(userId, marker.id, { canonicalCode });
+      } else {
+        stillUnmatched.push(marker);
+      }
+    }
+
+    return stillUnmatched;
+  }
+
+  app.get("/api/health-markers/history", async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const code = getQueryString(req, "marker");
+      if (!code) {
+        return res.status(400).json({ error: "marker query parameter is required" });
+      }
+
+      const definition = getMarkerDefinition(code);
+      if (!definition) {
+        return res.status(400).json({ error: "Unknown marker code" });
+      }
+
+      await resolvePendingMarkers(userId);
+
+      const unitSystem = getUnitSystem(req);
+      const rows = await storage.getHealthMarkerHistory(userId, code);
+
+      const points: MarkerHistoryPoint[] = rows
+        .map(({ marker, collectionDate, uploadDate }) => {
+          const normalized = normalizeHealthMarker(marker, unitSystem);
+          return {
+            markerId: marker.id,
+            labResultId: marker.labResultId,
+            date: collectionDate ?? uploadDate.toISOString().slice(0, 10),
+            reportedName: marker.name,
+            value: normalized.displayValue,
+            unit: normalized.displayUnit,
+            normalMin: normalized.displayNormalMin,
+            normalMax: normalized.displayNormalMax,
+            status: marker.status,
+          };
+        })
+        .sort((a, b) => a.date.localeCompare(b.date) || a.markerId - b.markerId);
+
+      // Pick the unit most readings share so the client plots one comparable series.
+      const unitCounts = new Map<string | null, number>();
+      for (const point of points) unitCounts.set(point.unit, (unitCounts.get(point.unit) ?? 0) + 1);
+      let unit: string | null = null;
+      let best = 0;
+      for (const [candidate, count] of Array.from(unitCounts)) {
+        if (count > best) {
+          unit = candidate;
+          best = count;
+        }
+      }
+
+      const history: MarkerHistory = {
+        code,
+        displayName: definition.displayName,
+        unit,
+        points,
+      };
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching marker history:", error);
+      res.status(500).json({ error: "Failed to fetch marker history" });
+    }
+  });
+
+  app.get("/api/health-markers/review", async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const unmatched = await resolvePendingMarkers(userId);
+
+      const pending = new Map<string, MarkerReviewItem>();
+      for (const marker of unmatched) {
+        const key = normalizeMarkerLabel(marker.name);
+        const item = pending.get(key) ?? { name: marker.name, occurrences: 0, labResultIds: [] };
+        item.occurrences += 1;
+        if (marker.labResultId != null && !item.labResultIds.includes(marker.labResultId)) {
+          item.labResultIds.push(marker.labResultId);
+        }
+        pending.set(key, item);
+      }
+
+      res.json(Array.from(pending.values()).sort((a, b) => b.occurrences - a.occurrences));
+    } catch (error) {
+      console.error("Error fetching marker review list:", error);
+      res.status(500).json({ error: "Failed to fetch marker review list" });
+    }
+  });
+
+  app.post("/api/health-markers/review", async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = markerReviewSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+
+      const { name, canonicalCode } = parsed.data;
+      if (!getMarkerDefinition(canonicalCode)) {
+        return res.status(400).json({ error: "Unknown marker code" });
+      }
+
+      const alias = normalizeMarkerLabel(name);
+      if (!alias) {
+        return res.status(400).json({ error: "Marker name must contain letters or digits" });
+      }
+
+      // Remember the mapping for future uploads, then apply it to what's already stored.
+      await storage.upsertMarkerAlias(userId, alias, canonicalCode);
+
+      let updated = 0;
+      for (const marker of await storage.getUnmatchedHealthMarkers(userId)) {
+        if (normalizeMarkerLabel(marker.name) !== alias) continue;
+        await storage.updateHealthMarker(userId, marker.id, { canonicalCode });
+        updated += 1;
+      }
+
+      res.json({ alias, canonicalCode, updated });
+    } catch (error) {
+      console.error("Error saving marker mapping:", error);
+      res.status(500).json({ error: "Failed to save marker mapping" });
+    }
+  });
+
+  app.get("/api/marker-definitions", async (_req: Request, res: Response) => {
+    res.json(MARKER_DEFINITIONS);
+  });
+
   // =========================================================
   // Medications
   // =========================================================
-  app.get("/api/medications", async (_req: Request, res: Response) => {
+  app.get("/api/medications", async (req: Request, res: Response) => {
     try {
-      const meds = await storage.getMedications();
+      const userId = getUserId(req);
+      const meds = await storage.getMedications(userId);
       res.json(meds);
     } catch (error) {
       console.error("Error fetching medications:", error);
@@ -303,10 +526,11 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   app.get("/api/medications/:id", async (req: Request, res: Response) => {
     try {
+      const userId = getUserId(req);
       const id = requireIntParam(req, res, "id");
       if (id === undefined) return;
 
-      const medication = await storage.getMedication(id);
+      const medication = await storage.getMedication(userId, id);
       if (!medication) return res.status(404).json({ error: "Medication not found" });
 
       res.json(medication);
@@ -318,12 +542,19 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   app.post("/api/medications", async (req: Request, res: Response) => {
     try {
+      const userId = getUserId(req);
       const parsed = insertMedicationSchema.safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({ error: parsed.error.errors });
       }
-      const medication = await storage.createMedication(parsed.data);
-      res.status(201).json(medication);
+      const course = pillCourseSchema.safeParse(parsed.data);
+      if (!course.success) {
+        return res.status(400).json({ error: course.error.errors });
+      }
+      const medication = await storage.createMedication(userId, parsed.data);
+      await syncRefillReminder(userId, { type: "medication", id: medication.id });
+      const conflictReport = await detectPillConflicts(userId, { type: "medication", id: medication.id });
+      res.status(201).json({ ...medication, conflictReport });
     } catch (error) {
       console.error("Error creating medication:", error);
       res.status(500).json({ error: "Failed to create medication" });
@@ -332,18 +563,50 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   app.patch("/api/medications/:id", async (req: Request, res: Response) => {
     try {
+      const userId = getUserId(req);
       const id = requireIntParam(req, res, "id");
       if (id === undefined) return;
 
       // Avoid passing DB-managed fields (like createdAt) back into Drizzle.
       const updateData: Record<string, unknown> = { ...(req.body as Record<string, unknown>) };
       delete updateData.id;
+      delete updateData.userId;
       delete updateData.createdAt;
+      delete updateData.scheduleChangedAt;
+      if (updateData.schedule !== undefined) {
+        const schedule = pillScheduleSchema.safeParse(updateData.schedule);
+        if (!schedule.success) {
+          return res.status(400).json({ error: schedule.error.errors });
+        }
+        updateData.schedule = schedule.data;
+      }
+      if (updateData.doseSlots !== undefined) {
+        const doseSlots = doseSlotsSchema.safeParse(updateData.doseSlots);
+        if (!doseSlots.success) {
+          return res.status(400).json({ error: doseSlots.error.errors });
+        }
+        updateData.doseSlots = doseSlots.data;
+      }
+      const inventory = pillInventorySchema.safeParse(updateData);
+      if (!inventory.success) {
+        return res.status(400).json({ error: inventory.error.errors });
+      }
+      if ("courseStartDate" in updateData || "courseEndDate" in updateData) {
+        const current = await storage.getMedication(userId, id);
+        if (!current) return res.status(404).json({ error: "Medication not found" });
+        const course = parseCourseUpdate(updateData, current);
+        if (!course.success) {
+          return res.status(400).json({ error: course.error.errors });
+        }
+      }
 
-      const medication = await storage.updateMedication(id, updateData);
+      const medication = await storage.updateMedication(userId, id, updateData);
       if (!medication) return res.status(404).json({ error: "Medication not found" });
 
-      res.json(medication);
+      await dropStaleDoses(userId, { type: "medication", id }, medication, req.user?.preferences?.timeZone);
+      await syncRefillReminder(userId, { type: "medication", id });
+      const conflictReport = await detectPillConflicts(userId, { type: "medication", id });
+      res.json({ ...medication, conflictReport });
     } catch (error) {
       console.error("Error updating medication:", error, "BODY:", req.body);
       res.status(500).json({ error: "Failed to update medication" });
@@ -352,10 +615,12 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   app.delete("/api/medications/:id", async (req: Request, res: Response) => {
     try {
+      const userId = getUserId(req);
       const id = requireIntParam(req, res, "id");
       if (id === undefined) return;
 
-      await storage.deleteMedication(id);
+      await storage.deleteMedication(userId, id);
+      await syncRefillReminder(userId, { type: "medication", id });
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting medication:", error);
@@ -366,9 +631,10 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
   // =========================================================
   // Supplements
   // =========================================================
-  app.get("/api/supplements", async (_req: Request, res: Response) => {
+  app.get("/api/supplements", async (req: Request, res: Response) => {
     try {
-      const supps = await storage.getSupplements();
+      const userId = getUserId(req);
+      const supps = await storage.getSupplements(userId);
       res.json(supps);
     } catch (error) {
       console.error("Error fetching supplements:", error);
@@ -378,10 +644,11 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   app.get("/api/supplements/:id", async (req: Request, res: Response) => {
     try {
+      const userId = getUserId(req);
       const id = requireIntParam(req, res, "id");
       if (id === undefined) return;
 
-      const supplement = await storage.getSupplement(id);
+      const supplement = await storage.getSupplement(userId, id);
       if (!supplement) return res.status(404).json({ error: "Supplement not found" });
 
       res.json(supplement);
@@ -393,12 +660,19 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   app.post("/api/supplements", async (req: Request, res: Response) => {
     try {
+      const userId = getUserId(req);
       const parsed = insertSupplementSchema.safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({ error: parsed.error.errors });
       }
-      const supplement = await storage.createSupplement(parsed.data);
-      res.status(201).json(supplement);
+      const course = pillCourseSchema.safeParse(parsed.data);
+      if (!course.success) {
+        return res.status(400).json({ error: course.error.errors });
+      }
+      const supplement = await storage.createSupplement(userId, parsed.data);
+      await syncRefillReminder(userId, { type: "supplement", id: supplement.id });
+      const conflictReport = await detectPillConflicts(userId, { type: "supplement", id: supplement.id });
+      res.status(201).json({ ...supplement, conflictReport });
     } catch (error) {
       console.error("Error creating supplement:", error);
       res.status(500).json({ error: "Failed to create supplement" });
@@ -407,18 +681,50 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   app.patch("/api/supplements/:id", async (req: Request, res: Response) => {
     try {
+      const userId = getUserId(req);
       const id = requireIntParam(req, res, "id");
       if (id === undefined) return;
 
       // Avoid passing DB-managed fields (like createdAt) back into Drizzle.
       const updateData: Record<string, unknown> = { ...(req.body as Record<string, unknown>) };
       delete updateData.id;
+      delete updateData.userId;
       delete updateData.createdAt;
+      delete updateData.scheduleChangedAt;
+      if (updateData.schedule !== undefined) {
+        const schedule = pillScheduleSchema.safeParse(updateData.schedule);
+        if (!schedule.success) {
+          return res.status(400).json({ error: schedule.error.errors });
+        }
+        updateData.schedule = schedule.data;
+      }
+      if (updateData.doseSlots !== undefined) {
+        const doseSlots = doseSlotsSchema.safeParse(updateData.doseSlots);
+        if (!doseSlots.success) {
+          return res.status(400).json({ error: doseSlots.error.errors });
+        }
+        updateData.doseSlots = doseSlots.data;
+      }
+      const inventory = pillInventorySchema.safeParse(updateData);
+      if (!inventory.success) {
+        return res.status(400).json({ error: inventory.error.errors });
+      }
+      if ("courseStartDate" in updateData || "courseEndDate" in updateData) {
+        const current = await storage.getSupplement(userId, id);
+        if (!current) return res.status(404).json({ error: "Supplement not found" });
+        const course = parseCourseUpdate(updateData, current);
+        if (!course.success) {
+          return res.status(400).json({ error: course.error.errors });
+        }
+      }
 
-      const supplement = await storage.updateSupplement(id, updateData);
+      const supplement = await storage.updateSupplement(userId, id, updateData);
       if (!supplement) return res.status(404).json({ error: "Supplement not found" });
 
-      res.json(supplement);
+      await dropStaleDoses(userId, { type: "supplement", id }, supplement, req.user?.preferences?.timeZone);
+      await syncRefillReminder(userId, { type: "supplement", id });
+      const conflictReport = await detectPillConflicts(userId, { type: "supplement", id });
+      res.json({ ...supplement, conflictReport });
     } catch (error) {
       console.error("Error updating supplement:", error, "BODY:", req.body);
       res.status(500).json({ error: "Failed to update supplement" });
@@ -427,10 +733,12 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   app.delete("/api/supplements/:id", async (req: Request, res: Response) => {
     try {
+      const userId = getUserId(req);
       const id = requireIntParam(req, res, "id");
       if (id === undefined) return;
 
-      await storage.deleteSupplement(id);
+      await storage.deleteSupplement(userId, id);
+      await syncRefillReminder(userId, { type: "supplement", id });
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting supplement:", error);
@@ -441,9 +749,10 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
   // =========================================================
   // Recommendations
   // =========================================================
-  app.get("/api/recommendations", async (_req: Request, res: Response) => {
+  app.get("/api/recommendations", async (req: Request, res: Response) => {
     try {
-      const recs = await storage.getRecommendations();
+      const userId = getUserId(req);
+      const recs = await storage.getRecommendations(userId);
       res.json(recs);
     } catch (error) {
       console.error("Error fetching recommendations:", error);
@@ -454,9 +763,10 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
   // =========================================================
   // Reminders
   // =========================================================
-  app.get("/api/reminders", async (_req: Request, res: Response) => {
+  app.get("/api/reminders", async (req: Request, res: Response) => {
     try {
-      const reminders = await storage.getReminders();
+      const userId = getUserId(req);
+      const reminders = await storage.getReminders(userId);
       res.json(reminders);
     } catch (error) {
       console.error("Error fetching reminders:", error);
@@ -466,11 +776,12 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   app.post("/api/reminders", async (req: Request, res: Response) => {
     try {
+      const userId = getUserId(req);
       const parsed = insertReminderSchema.safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({ error: parsed.error.errors });
       }
-      const reminder = await storage.createReminder(parsed.data);
+      const reminder = await storage.createReminder(userId, parsed.data);
       res.status(201).json(reminder);
     } catch (error) {
       console.error("Error creating reminder:", error);
@@ -480,10 +791,17 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   app.patch("/api/reminders/:id", async (req: Request, res: Response) => {
     try {
+      const userId = getUserId(req);
       const id = requireIntParam(req, res, "id");
       if (id === undefined) return;
 
-      const reminder = await storage.updateReminder(id, req.body);
+      // Avoid passing DB-managed fields back into Drizzle (or re-assigning ownership).
+      const updateData: Record<string, unknown> = { ...(req.body as Record<string, unknown>) };
+      delete updateData.id;
+      delete updateData.userId;
+      delete updateData.createdAt;
+
+      const reminder = await storage.updateReminder(userId, id, updateData);
       if (!reminder) {
         return res.status(404).json({ error: "Reminder not found" });
       }
@@ -496,10 +814,11 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   app.delete("/api/reminders/:id", async (req: Request, res: Response) => {
     try {
+      const userId = getUserId(req);
       const id = requireIntParam(req, res, "id");
       if (id === undefined) return;
 
-      await storage.deleteReminder(id);
+      await storage.deleteReminder(userId, id);
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting reminder:", error);
@@ -507,12 +826,20 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
+  // =========================================================
+  // AI
+  // =========================================================
+  app.get("/api/ai/status", (_req: Request, res: Response) => {
+    res.json(getAiStatus());
+  });
+
   // =========================================================
   // Interactions
   // =========================================================
-  app.get("/api/interactions", async (_req: Request, res: Response) => {
+  app.get("/api/interactions", async (req: Request, res: Response) => {
     try {
-      const interactions = await storage.getInteractions();
+      const userId = getUserId(req);
+      const interactions = await storage.getInteractions(userId);
       res.json(interactions);
     } catch (error) {
       console.error("Error fetching interactions:", error);
@@ -520,42 +847,45 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.post("/api/interactions/check", async (_req: Request, res: Response) => {
+  app.post("/api/interactions/check", async (req: Request, res: Response) => {
     try {
-      const medications = (await storage.getMedications()).filter((m) => m.active);
-      const supplements = (await storage.getSupplements()).filter((s) => s.active);
-
-      const interactionResults = await checkInteractions(
-        medications.map((m) => ({ id: m.id, name: m.name })),
-        supplements.map((s) => ({ id: s.id, name: s.name })),
-      );
+      const userId = getUserId(req);
+      res.json(await runInteractionCheck(userId));
+    } catch (error) {
+      console.error("Error checking interactions:", error);
+      res.status(500).json({ error: "Failed to check interactions" });
+    }
+  });
 
-      await storage.deleteAllInteractions();
+  app.patch("/api/interactions/:id/status", async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const id = requireIntParam(req, res, "id");
+      if (id === undefined) return;
 
-      for (const interaction of interactionResults) {
-        await storage.createInteraction({
-          medicationId: interaction.medicationId,
-          supplementId: interaction.supplementId,
-          severity: interaction.severity,
-          description: interaction.description,
-          recommendation: interaction.recommendation,
-        });
+      const parsed = interactionStatusUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
       }
 
-      const savedInteractions = await storage.getInteractions();
-      res.json(savedInteractions);
+      const interaction = await updateInteractionStatus(userId, id, parsed.data);
+      if (!interaction) {
+        return res.status(404).json({ error: "Interaction not found" });
+      }
+      res.json(interaction);
     } catch (error) {
-      console.error("Error checking interactions:", error);
-      res.status(500).json({ error: "Failed to check interactions" });
+      console.error("Error updating interaction status:", error);
+      res.status(500).json({ error: "Failed to update interaction status" });
     }
   });
 
   // =========================================================
   // Pill Stacks
   // =========================================================
-  app.get("/api/pill-stacks", async (_req: Request, res: Response) => {
+  app.get("/api/pill-stacks", async (req: Request, res: Response) => {
     try {
-      const stacks = await storage.getPillStacks();
+      const userId = getUserId(req);
+      const stacks = await storage.getPillStacks(userId);
       res.json(stacks);
     } catch (error) {
       console.error("Error fetching pill stacks:", error);
@@ -565,11 +895,12 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   app.post("/api/pill-stacks", async (req: Request, res: Response) => {
     try {
+      const userId = getUserId(req);
       const parsed = insertPillStackSchema.safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({ error: parsed.error.errors });
       }
-      const stack = await storage.createPillStack(parsed.data);
+      const stack = await storage.createPillStack(userId, parsed.data);
       res.status(201).json(stack);
     } catch (error) {
       console.error("Error creating pill stack:", error);
@@ -579,10 +910,17 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   app.patch("/api/pill-stacks/:id", async (req: Request, res: Response) => {
     try {
+      const userId = getUserId(req);
       const id = requireIntParam(req, res, "id");
       if (id === undefined) return;
 
-      const stack = await storage.updatePillStack(id, req.body);
+      // Avoid passing DB-managed fields back into Drizzle (or re-assigning ownership).
+      const updateData: Record<string, unknown> = { ...(req.body as Record<string, unknown>) };
+      delete updateData.id;
+      delete updateData.userId;
+      delete updateData.createdAt;
+
+      const stack = await storage.updatePillStack(userId, id, updateData);
       if (!stack) {
         return res.status(404).json({ error: "Pill stack not found" });
       }
@@ -595,10 +933,11 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   app.delete("/api/pill-stacks/:id", async (req: Request, res: Response) => {
     try {
+      const userId = getUserId(req);
       const id = requireIntParam(req, res, "id");
       if (id === undefined) return;
 
-      await storage.deletePillStack(id);
+      await storage.deletePillStack(userId, id);
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting pill stack:", error);
@@ -611,14 +950,22 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
   // =========================================================
   app.get("/api/pill-doses", async (req: Request, res: Response) => {
     try {
+      const userId = getUserId(req);
       const date = getQueryString(req, "date");
+      const from = getQueryString(req, "from");
+      const to = getQueryString(req, "to");
 
       if (date) {
-        const doses = await storage.getPillDosesByDate(date);
+        const doses = await storage.getPillDosesByDate(userId, date);
         return res.json(doses);
       }
 
-      const doses = await storage.getPillDoses();
+      if (from && to) {
+        const doses = await storage.getPillDosesBetween(userId, from, to);
+        return res.json(doses);
+      }
+
+      const doses = await storage.getPillDoses(userId);
       res.json(doses);
     } catch (error) {
       console.error("Error fetching pill doses:", error);
@@ -628,11 +975,12 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   app.post("/api/pill-doses", async (req: Request, res: Response) => {
     try {
+      const userId = getUserId(req);
       const parsed = insertPillDoseSchema.safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({ error: parsed.error.errors });
       }
-      const dose = await storage.createPillDose(parsed.data);
+      const dose = await storage.createPillDose(userId, parsed.data);
       res.status(201).json(dose);
     } catch (error) {
       console.error("Error creating pill dose:", error);
@@ -642,10 +990,14 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   app.patch("/api/pill-doses/:id", async (req: Request, res: Response) => {
     try {
+      const userId = getUserId(req);
       const id = requireIntParam(req, res, "id");
       if (id === undefined) return;
 
       const updateData: Record<string, unknown> = { ...req.body };
+      delete updateData.id;
+      delete updateData.userId;
+      delete updateData.createdAt;
 
       if (typeof updateData.takenAt === "string") {
         updateData.takenAt = new Date(updateData.takenAt);
@@ -654,7 +1006,8 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
         updateData.snoozedUntil = new Date(updateData.snoozedUntil);
       }
 
-      const dose = await storage.updatePillDose(id, updateData);
+      // Taking a dose (or undoing it) also updates the pill's count
+      const dose = await updateDoseWithInventory(userId, id, updateData);
       if (!dose) {
         return res.status(404).json({ error: "Pill dose not found" });
       }
@@ -665,54 +1018,34 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
+  app.post("/api/pill-doses/snooze", async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = snoozeRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const settings = req.user?.preferences?.snooze ?? defaultSnoozeSettings;
+      res.json(await snoozeTimeBlock(userId, parsed.data, settings));
+    } catch (error) {
+      if (error instanceof SnoozeLimitError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Error snoozing pill doses:", error);
+      res.status(500).json({ error: "Failed to snooze pill doses" });
+    }
+  });
+
   app.post("/api/pill-doses/generate", async (req: Request, res: Response) => {
     try {
+      const userId = getUserId(req);
       const { date } = req.body as { date?: string };
       if (!date) {
         return res.status(400).json({ error: "Date is required" });
       }
 
-      const existingDoses = await storage.getPillDosesByDate(date);
-      const existingKeys = new Set(
-        existingDoses.map((d) => `${d.pillType}-${d.pillId}-${d.scheduledTimeBlock}`),
-      );
-
-      const medications = (await storage.getMedications()).filter((m) => m.active);
-      const supplements = (await storage.getSupplements()).filter((s) => s.active);
-
-      for (const med of medications) {
-        const timeBlock = med.timeBlock || "morning";
-        const key = `medication-${med.id}-${timeBlock}`;
-        if (!existingKeys.has(key)) {
-          await storage.createPillDose({
-            pillType: "medication",
-            pillId: med.id,
-            scheduledDate: date,
-            scheduledTimeBlock: timeBlock,
-            status: "pending",
-            takenAt: null,
-            snoozedUntil: null,
-          });
-        }
-      }
-
-      for (const supp of supplements) {
-        const timeBlock = supp.timeBlock || "morning";
-        const key = `supplement-${supp.id}-${timeBlock}`;
-        if (!existingKeys.has(key)) {
-          await storage.createPillDose({
-            pillType: "supplement",
-            pillId: supp.id,
-            scheduledDate: date,
-            scheduledTimeBlock: timeBlock,
-            status: "pending",
-            takenAt: null,
-            snoozedUntil: null,
-          });
-        }
-      }
-
-      const allDoses = await storage.getPillDosesByDate(date);
+      // One dose per dose slot, and only on days the pill's schedule is due within its course
+      const allDoses = await generatePillDoses(userId, date, req.user?.preferences?.timeZone);
       res.json(allDoses);
     } catch (error) {
       console.error("Error generating pill doses:", error);
@@ -721,34 +1054,184 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
   });
 
   // =========================================================
-  // Demo User + Health Profile
+  // Pill Inventory
   // =========================================================
-  const DEMO_USER_ID = "demo-user";
+  app.get("/api/pill-refills", async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const pillType = getQueryString(req, "pillType");
+      const pillId = Number.parseInt(getQueryString(req, "pillId") ?? "", 10);
+
+      const pill: PillRef | undefined =
+        (pillType === "medication" || pillType === "supplement") && !Number.isNaN(pillId)
+          ? { type: pillType, id: pillId }
+          : undefined;
+      const refills = await storage.getPillRefills(userId, pill);
+      res.json(refills);
+    } catch (error) {
+      console.error("Error fetching pill refills:", error);
+      res.status(500).json({ error: "Failed to fetch pill refills" });
+    }
+  });
 
-  /**
-   * Ensure the demo user exists.
-   *
-   * Preconditions:
-   * - storage implements getUser/getUserByUsername/createUser/updateUser.
-   * Postconditions:
-   * - Demo user exists with healthProfile and healthProfileStatus fields initialized.
-   */
-  async function ensureDemoUser() {
-    let user = await storage.getUser(DEMO_USER_ID);
-    if (!user) {
-      user = await storage.createUser({
-        username: "demo",
-        password: "demo",
-      });
+  app.post("/api/pill-refills", async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = pillRefillSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const refill = await recordRefill(userId, parsed.data);
+      if (!refill) return res.status(404).json({ error: "Pill not found" });
+      res.status(201).json(refill);
+    } catch (error) {
+      console.error("Error recording pill refill:", error);
+      res.status(500).json({ error: "Failed to record pill refill" });
+    }
+  });
+
+  // =========================================================
+  // Pill History
+  // =========================================================
+  app.get("/api/pill-history", async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const history = await storage.getPillHistory(userId);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching pill history:", error);
+      res.status(500).json({ error: "Failed to fetch pill history" });
+    }
+  });
 
-      await storage.updateUser(user.id, {
-        healthProfile: {},
-        healthProfileStatus: { isComplete: false },
+  // =========================================================
+  // Adherence
+  // =========================================================
+  app.get("/api/adherence", async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = adherenceQuerySchema.safeParse({
+        from: getQueryString(req, "from"),
+        to: getQueryString(req, "to"),
+        timeZone: getQueryString(req, "timeZone") ?? req.user?.preferences?.timeZone,
       });
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      res.json(await computeAdherence(userId, parsed.data));
+    } catch (error) {
+      console.error("Error computing adherence:", error);
+      res.status(500).json({ error: "Failed to compute adherence" });
     }
-    return user;
-  }
+  });
+
+  // =========================================================
+  // Notifications
+  // =========================================================
+  // The notification log, oldest first: entries after the "after" id, or the latest ones.
+  // Open tabs poll this to show notifications the server scheduler logged.
+  app.get("/api/notifications", async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const after = getQueryString(req, "after");
+      const afterId = after === undefined ? undefined : Number.parseInt(after, 10);
+      if (afterId !== undefined && Number.isNaN(afterId)) {
+        return res.status(400).json({ error: "after must be a notification id" });
+      }
+      res.json(await storage.getNotificationLog(userId, afterId, 50));
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ error: "Failed to fetch notifications" });
+    }
+  });
+
+  // =========================================================
+  // Push Notifications
+  // =========================================================
+  app.get("/api/push/config", async (_req: Request, res: Response) => {
+    res.json(getPushStatus());
+  });
+
+  app.post("/api/push/subscriptions", async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      if (!getPushStatus().enabled) {
+        return res.status(503).json({ error: "Push notifications are not configured on this server" });
+      }
+      const parsed = pushSubscriptionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const subscription = await storage.savePushSubscription(userId, parsed.data, req.get("user-agent") ?? null);
+      res.status(201).json(subscription);
+    } catch (error) {
+      console.error("Error saving push subscription:", error);
+      res.status(500).json({ error: "Failed to save push subscription" });
+    }
+  });
+
+  app.delete("/api/push/subscriptions", async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const { endpoint } = req.body as { endpoint?: string };
+      if (!endpoint) {
+        return res.status(400).json({ error: "Endpoint is required" });
+      }
+      await storage.deletePushSubscription(userId, endpoint);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting push subscription:", error);
+      res.status(500).json({ error: "Failed to delete push subscription" });
+    }
+  });
+
+  // =========================================================
+  // Planner
+  // =========================================================
+  app.post("/api/planner/auto-schedule", async (req: Request, res: Response) => {
+    try {
+      res.json(await runAutoSchedule(getUserId(req)));
+    } catch (error) {
+      console.error("Error auto-scheduling pills:", error);
+      res.status(500).json({ error: "Failed to auto-schedule pills" });
+    }
+  });
+
+  app.post("/api/planner/auto-schedule/apply", async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = applyScheduleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      res.json(await applySchedule(userId, parsed.data, req.user?.preferences?.timeZone));
+    } catch (error) {
+      if (error instanceof FixedTimingError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Error applying schedule:", error);
+      res.status(500).json({ error: "Failed to apply schedule" });
+    }
+  });
+
+  app.post("/api/planner/allow-together", async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = allowTogetherSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      await allowTogether(userId, parsed.data);
+      res.json(await detectPillConflicts(userId, parsed.data.pill));
+    } catch (error) {
+      console.error("Error allowing pills together:", error);
+      res.status(500).json({ error: "Failed to allow pills together" });
+    }
+  });
 
+  // =========================================================
+  // Current User + Health Profile
+  // =========================================================
   /**
    * Compute if the health profile is complete.
    *
@@ -759,13 +1242,12 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     return typeof hp.age === "number" && typeof hp.heightCm === "number" && typeof hp.weightKg === "number";
   }
 
-  app.get("/api/me", async (_req: Request, res: Response) => {
+  app.get("/api/me", async (req: Request, res: Response) => {
     try {
-      let user = await storage.getUserByUsername("demo");
-      if (!user) user = await ensureDemoUser();
+      const user = await storage.getUser(getUserId(req));
+      if (!user) return res.status(404).json({ error: "User not found" });
 
-      const { password, ...userWithoutPassword } = user;
-      res.json(userWithoutPassword);
+      res.json(toPublicUser(user));
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ error: "Failed to fetch user" });
@@ -784,8 +1266,8 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
       const updates = parseResult.data;
 
-      let user = await storage.getUserByUsername("demo");
-      if (!user) user = await ensureDemoUser();
+      const user = await storage.getUser(getUserId(req));
+      if (!user) return res.status(404).json({ error: "User not found" });
 
       const newHealthProfile: HealthProfile = {
         ...(user.healthProfile || {}),
@@ -817,10 +1299,10 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.post("/api/me/health-profile/skip", async (_req: Request, res: Response) => {
+  app.post("/api/me/health-profile/skip", async (req: Request, res: Response) => {
     try {
-      let user = await storage.getUserByUsername("demo");
-      if (!user) user = await ensureDemoUser();
+      const user = await storage.getUser(getUserId(req));
+      if (!user) return res.status(404).json({ error: "User not found" });
 
       const newStatus: HealthProfileStatus = {
         ...(user.healthProfileStatus || { isComplete: false }),
@@ -842,5 +1324,32 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
+  app.patch("/api/me/preferences", async (req: Request, res: Response) => {
+    try {
+      const parsed = userPreferencesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+
+      const user = await storage.getUser(getUserId(req));
+      if (!user) return res.status(404).json({ error: "User not found" });
+
+      const preferences: UserPreferences = {
+        ...(user.preferences || {}),
+        ...parsed.data,
+      };
+
+      const updatedUser = await storage.updateUser(user.id, { preferences });
+      if (!updatedUser) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      res.json({ preferences: updatedUser.preferences });
+    } catch (error) {
+      console.error("Error updating preferences:", error);
+      res.status(500).json({ error: "Failed to update preferences" });
+    }
+  });
+
   return httpServer;
 }
@@ -0,0 +1,432 @@
+// server/scheduler.ts
+import { storage } from "./storage";
+import { evaluateInteractionRules, orderPillPair } from "./interaction-rules";
+import {
+  defaultMealTimes,
+  timeBlocks,
+  timeBlockWindows,
+  type ApplySchedule,
+  type AutoScheduleResult,
+  type FoodRule,
+  type Interaction,
+  type MealTimes,
+  type Medication,
+  type PillRef,
+  type ScheduleChange,
+  type ScheduleIssue,
+  type ScheduleSlot,
+  type Supplement,
+  type TimeBlock,
+} from "@shared/schema";
+import { doseSlotsOf, localDateTime } from "@shared/pill-schedule";
+
+/**
+ * Conflict-aware auto-scheduler for the pill planner.
+ *
+ * Places every dose of every active pill at a time of day so that pills that must be kept apart
+ * are, with_food doses are taken with a meal and empty_stomach doses away from meals. Medications
+ * with prescribed timings (fixedTiming) are never moved; everything else moves as little as
+ * possible, and a dose that already satisfies its constraints stays where it is. As-needed pills
+ * have no set time and aren't scheduled.
+ */
+
+const STEP_MINUTES = 30; // candidate times are on the half hour
+const WITH_FOOD_WINDOW = 30; // minutes either side of a meal that count as "with food"
+const EMPTY_STOMACH_BEFORE = 60; // an empty_stomach dose at least this long before a meal...
+const EMPTY_STOMACH_AFTER = 120; // ...or at least this long after one
+const BLOCK_CHANGE_COST = 60; // moving to another block costs as much as moving an extra hour
+
+// One dose slot of an active pill
+export type SchedulableDose = PillRef & {
+  slotId: string;
+  name: string; // the pill's name
+  label: string; // name, plus "dose N" for pills taken more than once a day
+  slot: ScheduleSlot;
+  foodRule: FoodRule;
+  fixed: boolean;
+};
+
+// Two pills that must be taken at least `minutes` apart
+export type SeparationConstraint = {
+  a: PillRef;
+  b: PillRef;
+  minutes: number;
+  reason: string;
+};
+
+export class FixedTimingError extends Error {
+  constructor(public readonly pill: PillRef) {
+    super(`Medication ${pill.id} has a prescribed timing and can't be rescheduled`);
+    this.name = "FixedTimingError";
+  }
+}
+
+const pillKey = (pill: PillRef) => `${pill.type}:${pill.id}`;
+const doseKey = (dose: SchedulableDose) => `${pillKey(dose)}#${dose.slotId}`;
+const samePill = (a: PillRef, b: PillRef) => a.type === b.type && a.id === b.id;
+
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function toClock(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+function blockAt(minutes: number): TimeBlock {
+  return (
+    timeBlocks.find((b) => minutes >= toMinutes(timeBlockWindows[b].start) && minutes < toMinutes(timeBlockWindows[b].end)) ??
+    "morning"
+  );
+}
+
+/**
+ * Where a dose currently sits: its block, and its exact time or the block's default time.
+ */
+export function currentSlot(item: { timeBlock?: string | null; scheduledTime?: string | null }): ScheduleSlot {
+  const timeBlock = (timeBlocks as readonly string[]).includes(item.timeBlock ?? "")
+    ? (item.timeBlock as TimeBlock)
+    : "morning";
+  const scheduledTime =
+    item.scheduledTime && /^([01]\d|2[0-3]):[0-5]\d$/.test(item.scheduledTime)
+      ? item.scheduledTime
+      : timeBlockWindows[timeBlock].defaultTime;
+  return { timeBlock, scheduledTime };
+}
+
+/**
+ * Why a dose at `minutes` breaks its food rule, or null if it doesn't.
+ */
+function foodIssue(rule: FoodRule, minutes: number, meals: number[]): string | null {
+  if (rule === "with_food" && !meals.some((meal) => Math.abs(meal - minutes) <= WITH_FOOD_WINDOW)) {
+    return "should be taken with a meal";
+  }
+  if (
+    rule === "empty_stomach" &&
+    !meals.every((meal) => minutes <= meal - EMPTY_STOMACH_BEFORE || minutes >= meal + EMPTY_STOMACH_AFTER)
+  ) {
+    return "should be taken on an empty stomach (1 hour before or 2 hours after a meal)";
+  }
+  return null;
+}
+
+function pillItems(medications: Medication[], supplements: Supplement[]) {
+  return [
+    ...medications.map((m) => ({ pill: { type: "medication", id: m.id } as PillRef, item: m as Medication | Supplement })),
+    ...supplements.map((s) => ({ pill: { type: "supplement", id: s.id } as PillRef, item: s as Medication | Supplement })),
+  ];
+}
+
+/**
+ * Whether the user takes two pills together on purpose: either pill has userOverride, either lists
+ * the other in allowedTogetherWith, or their interaction is dismissed.
+ */
+export function takenTogetherOnPurpose(
+  medications: Medication[],
+  supplements: Supplement[],
+  interactions: Interaction[],
+  a: PillRef,
+  b: PillRef,
+): boolean {
+  const items = pillItems(medications, supplements);
+  const first = items.find((i) => samePill(i.pill, a))?.item;
+  const second = items.find((i) => samePill(i.pill, b))?.item;
+  if (first?.userOverride || second?.userOverride) return true;
+  if ((first?.allowedTogetherWith ?? []).some((p) => samePill(p, b))) return true;
+  if ((second?.allowedTogetherWith ?? []).some((p) => samePill(p, a))) return true;
+
+  const [pillA, pillB] = orderPillPair(a, b);
+  return interactions.some(
+    (i) =>
+      i.status === "dismissed" &&
+      i.pillAType === pillA.type &&
+      i.pillAId === pillA.id &&
+      i.pillBType === pillB.type &&
+      i.pillBId === pillB.id,
+  );
+}
+
+/**
+ * Which pairs of pills must be kept apart, from the pills' separationRules, the curated rules and
+ * interactions that call for a separation. Curated rules are evaluated here too, so a pill added
+ * since the last interaction check is still kept apart from what it conflicts with.
+ *
+ * @param medications - The user's active medications
+ * @param supplements - The user's active supplements
+ * @param interactions - The user's interactions
+ * @returns One constraint per pair (the longest separation asked for).
+ *
+ * Postconditions:
+ * - Pairs taken together on purpose (allowedTogetherWith, userOverride, dismissed interactions) are left out.
+ */
+export function collectSeparations(
+  medications: Medication[],
+  supplements: Supplement[],
+  interactions: Interaction[],
+): SeparationConstraint[] {
+  const items = pillItems(medications, supplements);
+  const allowedTogether = (a: PillRef, b: PillRef) =>
+    !items.some((i) => samePill(i.pill, a)) ||
+    !items.some((i) => samePill(i.pill, b)) || // not active, so nothing to schedule
+    takenTogetherOnPurpose(medications, supplements, interactions, a, b);
+
+  const constraints = new Map<string, SeparationConstraint>();
+  const add = (a: PillRef, b: PillRef, minutes: number, reason: string) => {
+    if (minutes <= 0 || samePill(a, b) || allowedTogether(a, b)) return;
+    const [first, second] = orderPillPair(a, b);
+    const key = `${pillKey(first)}|${pillKey(second)}`;
+    const existing = constraints.get(key);
+    if (!existing || minutes > existing.minutes) constraints.set(key, { a: first, b: second, minutes, reason });
+  };
+
+  for (const { pill, item } of items) {
+    for (const rule of item.separationRules ?? []) {
+      add(pill, { type: rule.pillType, id: rule.pillId }, rule.minutesApart, rule.reason);
+    }
+  }
+  for (const interaction of interactions) {
+    if (interaction.status === "dismissed" || !interaction.separationMinutes) continue;
+    add(
+      { type: interaction.pillAType as PillRef["type"], id: interaction.pillAId },
+      { type: interaction.pillBType as PillRef["type"], id: interaction.pillBId },
+      interaction.separationMinutes,
+      interaction.mechanism ?? interaction.description,
+    );
+  }
+  const named = items.map(({ pill, item }) => ({ ...pill, name: item.name }));
+  for (const curated of evaluateInteractionRules(named)) {
+    if (!curated.separationMinutes) continue;
+    add(curated.pillA, curated.pillB, curated.separationMinutes, curated.mechanism);
+  }
+
+  return Array.from(constraints.values());
+}
+
+/**
+ * Work out a conflict-free daily plan.
+ *
+ * @param doses - Every dose of the active pills and where it sits now
+ * @param separations - Pairs to keep apart (collectSeparations); every dose of one pill is kept
+ *   apart from every dose of the other
+ * @param mealTimes - When the user eats
+ * @returns The doses that would move (with why) and what couldn't be satisfied.
+ *
+ * Postconditions:
+ * - Fixed doses never appear in changes.
+ * - Deterministic: the same input always gives the same plan.
+ */
+export function planSchedule(
+  doses: SchedulableDose[],
+  separations: SeparationConstraint[],
+  mealTimes: MealTimes,
+): AutoScheduleResult {
+  const meals = [mealTimes.breakfast, mealTimes.lunch, mealTimes.dinner].map(toMinutes);
+  const placed = new Map<string, { dose: SchedulableDose; minutes: number }>(); // dose key -> placement
+  const changes: ScheduleChange[] = [];
+  const unresolved: ScheduleIssue[] = [];
+
+  const separationsOf = (pill: PillRef) =>
+    separations
+      .filter((s) => samePill(s.a, pill) || samePill(s.b, pill))
+      .map((s) => ({ ...s, other: samePill(s.a, pill) ? s.b : s.a }));
+
+  // Separations broken if `dose` is taken at `minutes`, against the doses already placed
+  const brokenSeparations = (dose: SchedulableDose, minutes: number) =>
+    separationsOf(dose).flatMap((s) =>
+      Array.from(placed.values())
+        .filter((p) => samePill(p.dose, s.other) && Math.abs(p.minutes - minutes) < s.minutes)
+        .map((p) => ({ ...s, otherLabel: p.dose.label })),
+    );
+
+  // Prescribed timings first; they only get reported, never moved
+  const fixed = doses.filter((d) => d.fixed);
+  for (const dose of fixed) {
+    const minutes = toMinutes(dose.slot.scheduledTime);
+    for (const s of brokenSeparations(dose, minutes)) {
+      unresolved.push({
+        pills: [s.a, s.b],
+        message: `${dose.label} and ${s.otherLabel} should be ${s.minutes} minutes apart, but both have prescribed timings.`,
+      });
+    }
+    const food = foodIssue(dose.foodRule, minutes, meals);
+    if (food) {
+      unresolved.push({
+        pills: [dose],
+        message: `${dose.label} ${food}, but its timing is prescribed so it wasn't moved.`,
+      });
+    }
+    placed.set(doseKey(dose), { dose, minutes });
+  }
+
+  // Most constrained doses first, so they get the pick of the day
+  const movable = doses
+    .filter((d) => !d.fixed)
+    .sort(
+      (a, b) =>
+        separationsOf(b).length - separationsOf(a).length ||
+        Number(b.foodRule !== "either") - Number(a.foodRule !== "either") ||
+        doseKey(a).localeCompare(doseKey(b)),
+    );
+
+  const candidates: number[] = [];
+  for (let m = toMinutes(timeBlockWindows.morning.start); m < 24 * 60; m += STEP_MINUTES) candidates.push(m);
+
+  for (const dose of movable) {
+    const current = toMinutes(dose.slot.scheduledTime);
+    const cost = (minutes: number) =>
+      Math.abs(minutes - current) + (blockAt(minutes) === dose.slot.timeBlock ? 0 : BLOCK_CHANGE_COST);
+    const cheapest = (times: number[]) =>
+      times.length === 0 ? undefined : times.reduce((best, t) => (cost(t) < cost(best) ? t : best));
+
+    const options = [current, ...candidates.filter((t) => t !== current)];
+    const separated = options.filter((t) => brokenSeparations(dose, t).length === 0);
+    const satisfied = separated.filter((t) => foodIssue(dose.foodRule, t, meals) === null);
+
+    let chosen = cheapest(satisfied);
+    if (chosen === undefined) {
+      chosen = cheapest(separated);
+      if (chosen !== undefined) {
+        unresolved.push({
+          pills: [{ type: dose.type, id: dose.id }],
+          message: `${dose.label} ${foodIssue(dose.foodRule, chosen, meals)}, but no such time keeps it apart from the pills it conflicts with.`,
+        });
+      }
+    }
+    if (chosen === undefined) {
+      chosen = current;
+      for (const s of brokenSeparations(dose, current)) {
+        unresolved.push({
+          pills: [s.a, s.b],
+          message: `Couldn't find a time that keeps ${dose.label} ${s.minutes} minutes apart from ${s.otherLabel}.`,
+        });
+      }
+    }
+
+    placed.set(doseKey(dose), { dose, minutes: chosen });
+    if (chosen === current) continue;
+
+    const reasons = [
+      ...brokenSeparations(dose, current).map(
+        (s) => `Keeps it ${s.minutes} minutes apart from ${s.otherLabel}: ${s.reason}`,
+      ),
+      ...(foodIssue(dose.foodRule, current, meals)
+        ? [dose.foodRule === "with_food" ? "Moves it to a mealtime" : "Moves it away from meals"]
+        : []),
+    ];
+    changes.push({
+      pill: { type: dose.type, id: dose.id },
+      slotId: dose.slotId,
+      name: dose.label,
+      from: dose.slot,
+      to: { timeBlock: blockAt(chosen), scheduledTime: toClock(chosen) },
+      reasons,
+    });
+  }
+
+  const fixedPills = new Map(fixed.map((d) => [pillKey(d), { type: d.type, id: d.id }]));
+  return { changes, unresolved, fixed: Array.from(fixedPills.values()) };
+}
+
+export type Regimen = {
+  medications: Medication[]; // active only
+  supplements: Supplement[]; // active only
+  interactions: Interaction[];
+  doses: SchedulableDose[];
+  mealTimes: MealTimes;
+};
+
+/**
+ * Load everything the scheduler needs to know about a user's active pills.
+ */
+export async function loadRegimen(userId: string): Promise<Regimen> {
+  const medications = (await storage.getMedications(userId)).filter((m) => m.active);
+  const supplements = (await storage.getSupplements(userId)).filter((s) => s.active);
+  const interactions = await storage.getInteractions(userId);
+  const user = await storage.getUser(userId);
+
+  const toFoodRule = (rule: string | null | undefined): FoodRule =>
+    rule === "with_food" || rule === "empty_stomach" ? rule : "either";
+
+  const doses: SchedulableDose[] = pillItems(medications, supplements)
+    .filter(({ item }) => item.schedule.kind !== "as_needed")
+    .flatMap(({ pill, item }) => {
+      const slots = doseSlotsOf(item);
+      return slots.map((slot, i) => ({
+        ...pill,
+        slotId: slot.id,
+        name: item.name,
+        label: slots.length > 1 ? `${item.name} (dose ${i + 1})` : item.name,
+        slot: currentSlot(slot),
+        foodRule: toFoodRule(slot.foodRule ?? item.foodRule),
+        fixed: pill.type === "medication" && ((item as Medication).fixedTiming ?? true),
+      }));
+    });
+
+  return {
+    medications,
+    supplements,
+    interactions,
+    doses,
+    mealTimes: user?.preferences?.mealTimes ?? defaultMealTimes,
+  };
+}
+
+/**
+ * Propose a conflict-free plan for a user's active pills. Nothing is saved.
+ *
+ * @param userId - Whose pills to schedule
+ * @returns The proposed diff (see planSchedule).
+ */
+export async function runAutoSchedule(userId: string): Promise<AutoScheduleResult> {
+  const { medications, supplements, interactions, doses, mealTimes } = await loadRegimen(userId);
+  return planSchedule(doses, collectSeparations(medications, supplements, interactions), mealTimes);
+}
+
+/**
+ * Save the changes the user accepted from an auto-schedule proposal.
+ *
+ * @param userId - Owner of the pills
+ * @param accepted - The accepted changes, and the first day whose pending doses should follow them
+ *   (today in the user's time zone when left out)
+ * @param timeZone - The user's time zone (IANA name); the server's when undefined
+ * @returns How many doses were moved.
+ * @throws FixedTimingError if a change would move a medication with a prescribed timing (nothing is saved).
+ *
+ * Postconditions:
+ * - Each dose slot's timeBlock and scheduledTime are updated; pending doses for that slot from
+ *   fromDate on move with it.
+ */
+export async function applySchedule(
+  userId: string,
+  accepted: ApplySchedule,
+  timeZone: string | undefined,
+): Promise<{ moved: number }> {
+  const medications = await storage.getMedications(userId);
+  for (const { pill } of accepted.changes) {
+    if (pill.type !== "medication") continue;
+    const medication = medications.find((m) => m.id === pill.id);
+    if (medication && (medication.fixedTiming ?? true)) throw new FixedTimingError(pill);
+  }
+
+  const fromDate = accepted.fromDate ?? localDateTime(new Date(), timeZone).date;
+  let moved = 0;
+  for (const { pill, slotId, to } of accepted.changes) {
+    const item =
+      pill.type === "medication" ? await storage.getMedication(userId, pill.id) : await storage.getSupplement(userId, pill.id);
+    if (!item) continue;
+
+    const slots = doseSlotsOf(item);
+    const slot = slotId === undefined ? slots[0] : slots.find((s) => s.id === slotId);
+    if (!slot) continue;
+    const doseSlots = slots.map((s) => (s.id === slot.id ? { ...s, ...to } : s));
+    if (pill.type === "medication") {
+      await storage.updateMedication(userId, pill.id, { doseSlots });
+    } else {
+      await storage.updateSupplement(userId, pill.id, { doseSlots });
+    }
+    await storage.movePendingPillDoses(userId, pill, slot.id, fromDate, to.timeBlock);
+    moved += 1;
+  }
+  return { moved };
+}
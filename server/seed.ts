@@ -8,12 +8,53 @@ import {
   recommendations,
   pillStacks,
 } from "@shared/schema";
-import { sql } from "drizzle-orm";
+import { eq } from "drizzle-orm";
+import { storage } from "./storage";
+import { hashPassword } from "./auth";
+import { addDays } from "@shared/pill-schedule";
+
+const DEMO_USERNAME = "demo";
+// Only ever seeded outside production (see index.ts); DEMO_PASSWORD overrides the default
+const DEMO_PASSWORD = process.env.DEMO_PASSWORD || "demo";
+
+/**
+ * Find or create the demo account that owns the sample data.
+ *
+ * Postconditions:
+ * - A user named "demo" exists with a hashed password.
+ * - A demo row without a hash (a plain-text password from before accounts, or the "!" placeholder
+ *   migration 0001 creates) gets DEMO_PASSWORD; a hashed password is never reset.
+ */
+async function ensureDemoUser() {
+  const existing = await storage.getUserByUsername(DEMO_USERNAME);
+
+  // Before real accounts, the demo row was created with a plain-text password; migration 0001
+  // may also have created it with an unusable one.
+  if (existing && !existing.password.includes(".")) {
+    const updated = await storage.updateUser(existing.id, {
+      password: await hashPassword(DEMO_PASSWORD),
+    });
+    return updated ?? existing;
+  }
+
+  if (existing) return existing;
+
+  return storage.createUser({
+    username: DEMO_USERNAME,
+    password: await hashPassword(DEMO_PASSWORD),
+  });
+}
 
 export async function seedDatabase() {
   try {
+    const { id: userId } = await ensureDemoUser();
+
     // Check if data already exists
-    const existingMeds = await db.select().from(medications).limit(1);
+    const existingMeds = await db
+      .select()
+      .from(medications)
+      .where(eq(medications.userId, userId))
+      .limit(1);
     if (existingMeds.length > 0) {
       console.log("Database already seeded, skipping...");
       return;
@@ -23,6 +64,7 @@ export async function seedDatabase() {
 
     // Seed pill stacks first
     const [morningStack] = await db.insert(pillStacks).values({
+      userId,
       name: "Morning Stack",
       timeBlock: "morning",
       scheduledTime: "08:00",
@@ -30,6 +72,7 @@ export async function seedDatabase() {
     }).returning();
 
     const [eveningStack] = await db.insert(pillStacks).values({
+      userId,
       name: "Evening Stack",
       timeBlock: "evening",
       scheduledTime: "21:00",
@@ -39,9 +82,11 @@ export async function seedDatabase() {
     // Seed medications with enhanced pill planner fields
     await db.insert(medications).values([
       {
+        userId,
         name: "Lisinopril",
         dosage: "10mg",
-        frequency: "Once daily",
+        schedule: { kind: "daily" },
+        pillsOnHand: 45,
         timeOfDay: "morning",
         timeBlock: "morning",
         scheduledTime: "08:00",
@@ -56,9 +101,15 @@ export async function seedDatabase() {
         active: true,
       },
       {
+        userId,
         name: "Metformin",
         dosage: "500mg",
-        frequency: "Twice daily",
+        schedule: { kind: "daily" },
+        pillsOnHand: 20, // two a day: a refill reminder shows up after a few doses
+        doseSlots: [
+          { id: "1", timeBlock: "morning", scheduledTime: "08:00" },
+          { id: "2", timeBlock: "evening", scheduledTime: "18:30" },
+        ],
         timeOfDay: "morning",
         timeBlock: "morning",
         scheduledTime: "08:00",
@@ -73,9 +124,10 @@ export async function seedDatabase() {
         active: true,
       },
       {
+        userId,
         name: "Atorvastatin",
         dosage: "20mg",
-        frequency: "Once daily",
+        schedule: { kind: "daily" },
         timeOfDay: "evening",
         timeBlock: "bedtime",
         scheduledTime: "21:00",
@@ -92,11 +144,13 @@ export async function seedDatabase() {
     ]);
 
     // Seed supplements with enhanced pill planner fields
+    const today = new Date().toLocaleDateString("en-CA");
     await db.insert(supplements).values([
       {
+        userId,
         name: "Vitamin D3",
         dosage: "2000 IU",
-        frequency: "Once daily",
+        schedule: { kind: "daily" },
         timeOfDay: "morning",
         timeBlock: "morning",
         scheduledTime: "08:00",
@@ -112,9 +166,14 @@ export async function seedDatabase() {
         active: true,
       },
       {
+        userId,
         name: "Omega-3 Fish Oil",
         dosage: "1000mg",
-        frequency: "Twice daily",
+        schedule: { kind: "daily" },
+        doseSlots: [
+          { id: "1", timeBlock: "morning", scheduledTime: "08:00" },
+          { id: "2", timeBlock: "evening", scheduledTime: "18:30" },
+        ],
         timeOfDay: "morning",
         timeBlock: "morning",
         scheduledTime: "08:00",
@@ -130,9 +189,10 @@ export async function seedDatabase() {
         active: true,
       },
       {
+        userId,
         name: "Magnesium Glycinate",
         dosage: "400mg",
-        frequency: "Once daily",
+        schedule: { kind: "daily" },
         timeOfDay: "evening",
         timeBlock: "bedtime",
         scheduledTime: "21:00",
@@ -147,9 +207,10 @@ export async function seedDatabase() {
         active: true,
       },
       {
+        userId,
         name: "B-Complex",
         dosage: "1 capsule",
-        frequency: "Once daily",
+        schedule: { kind: "daily" },
         timeOfDay: "morning",
         timeBlock: "morning",
         scheduledTime: "08:00",
@@ -164,9 +225,12 @@ export async function seedDatabase() {
         active: true,
       },
       {
+        userId,
         name: "Iron",
         dosage: "18mg",
-        frequency: "Once daily",
+        schedule: { kind: "daily" },
+        courseStartDate: today,
+        courseEndDate: addDays(today, 12 * 7 - 1), // a 12-week trial, then recheck ferritin
         timeOfDay: "midday",
         timeBlock: "midday",
         scheduledTime: "12:00",
@@ -188,9 +252,10 @@ export async function seedDatabase() {
         active: true,
       },
       {
+        userId,
         name: "Calcium",
         dosage: "500mg",
-        frequency: "Once daily",
+        schedule: { kind: "daily" },
         timeOfDay: "evening",
         timeBlock: "evening",
         scheduledTime: "18:00",
@@ -208,6 +273,7 @@ export async function seedDatabase() {
     // Seed reminders
     await db.insert(reminders).values([
       {
+        userId,
         title: "Morning Medications",
         time: "08:00",
         days: ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"],
@@ -215,6 +281,7 @@ export async function seedDatabase() {
         enabled: true,
       },
       {
+        userId,
         title: "Take Vitamin D with breakfast",
         time: "08:30",
         days: ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"],
@@ -222,6 +289,7 @@ export async function seedDatabase() {
         enabled: true,
       },
       {
+        userId,
         title: "Evening statin dose",
         time: "21:00",
         days: ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"],
@@ -229,6 +297,7 @@ export async function seedDatabase() {
         enabled: true,
       },
       {
+        userId,
         title: "15-minute walk",
         time: "12:30",
         days: ["monday", "wednesday", "friday"],
@@ -239,6 +308,7 @@ export async function seedDatabase() {
 
     // Seed a sample lab result with markers and recommendations
     const [labResult] = await db.insert(labResults).values({
+      userId,
       fileName: "Annual_Bloodwork_2024.pdf",
       status: "completed",
       rawText: "Sample lab result data",
@@ -247,6 +317,7 @@ export async function seedDatabase() {
     // Seed health markers
     await db.insert(healthMarkers).values([
       {
+        userId,
         labResultId: labResult.id,
         name: "Vitamin D",
         value: "18",
@@ -255,8 +326,10 @@ export async function seedDatabase() {
         normalMax: "100",
         status: "low",
         category: "vitamins",
+        canonicalCode: "vitamin_d",
       },
       {
+        userId,
         labResultId: labResult.id,
         name: "Vitamin B12",
         value: "450",
@@ -265,8 +338,10 @@ export async function seedDatabase() {
         normalMax: "900",
         status: "normal",
         category: "vitamins",
+        canonicalCode: "vitamin_b12",
       },
       {
+        userId,
         labResultId: labResult.id,
         name: "Iron (Ferritin)",
         value: "35",
@@ -275,8 +350,10 @@ export async function seedDatabase() {
         normalMax: "300",
         status: "normal",
         category: "minerals",
+        canonicalCode: "ferritin",
       },
       {
+        userId,
         labResultId: labResult.id,
         name: "Hemoglobin",
         value: "14.2",
@@ -285,8 +362,10 @@ export async function seedDatabase() {
         normalMax: "17",
         status: "normal",
         category: "blood",
+        canonicalCode: "hemoglobin",
       },
       {
+        userId,
         labResultId: labResult.id,
         name: "Total Cholesterol",
         value: "225",
@@ -295,8 +374,10 @@ export async function seedDatabase() {
         normalMax: "200",
         status: "high",
         category: "lipids",
+        canonicalCode: "total_cholesterol",
       },
       {
+        userId,
         labResultId: labResult.id,
         name: "Fasting Glucose",
         value: "105",
@@ -305,12 +386,14 @@ export async function seedDatabase() {
         normalMax: "100",
         status: "high",
         category: "metabolic",
+        canonicalCode: "glucose",
       },
     ]);
 
     // Seed recommendations
     await db.insert(recommendations).values([
       {
+        userId,
         labResultId: labResult.id,
         type: "supplement",
         title: "Start Vitamin D Supplementation",
@@ -324,6 +407,7 @@ export async function seedDatabase() {
         ],
       },
       {
+        userId,
         labResultId: labResult.id,
         type: "dietary",
         title: "Heart-Healthy Diet Adjustments",
@@ -338,6 +422,7 @@ export async function seedDatabase() {
         ],
       },
       {
+        userId,
         labResultId: labResult.id,
         type: "physical",
         title: "Regular Walking Routine",
@@ -351,6 +436,7 @@ export async function seedDatabase() {
         ],
       },
       {
+        userId,
         labResultId: labResult.id,
         type: "dietary",
         title: "Blood Sugar Management",
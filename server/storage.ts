@@ -1,22 +1,33 @@
 import { db } from "./db";
-import { eq, desc, and } from "drizzle-orm";
+import { eq, desc, asc, and, or, isNull, inArray, gt, gte, lt, lte, sql } from "drizzle-orm";
 import {
   users,
   labResults,
+  labJobs,
   healthMarkers,
+  markerAliases,
   medications,
   supplements,
   recommendations,
   reminders,
   interactions,
+  interactionPairChecks,
   pillStacks,
   pillDoses,
+  pillHistory,
+  pillRefills,
+  pushSubscriptions,
+  notificationLog,
   type User,
   type InsertUser,
   type LabResult,
   type InsertLabResult,
+  type LabJob,
+  type InsertLabJob,
+  type LabProcessingStage,
   type HealthMarker,
   type InsertHealthMarker,
+  type MarkerAlias,
   type Medication,
   type InsertMedication,
   type Supplement,
@@ -27,77 +38,199 @@ import {
   type InsertReminder,
   type Interaction,
   type InsertInteraction,
+  type InteractionPairCheck,
+  type CachedInteraction,
+  type PillRef,
+  type InteractionStatus,
   type PillStack,
   type InsertPillStack,
   type PillDose,
   type InsertPillDose,
+  type PillHistoryEntry,
+  type InsertPillHistory,
+  type PillRefill,
+  type PushSubscriptionRecord,
+  type PushSubscriptionRequest,
+  type NotificationLogEntry,
+  type InsertNotificationLogEntry,
+  type DoseSlot,
+  labResultActiveStatuses,
 } from "@shared/schema";
 
+/**
+ * Keep a pill's timeBlock/scheduledTime in step with its first dose slot when the slots change.
+ */
+function withFirstSlot<T extends { doseSlots?: DoseSlot[] }>(data: T): T {
+  const first = data.doseSlots?.[0];
+  return first ? { ...data, timeBlock: first.timeBlock, scheduledTime: first.scheduledTime ?? null } : data;
+}
+
+// The columns that decide which days and dose slots a pill is due
+const scheduleColumns = ["schedule", "doseSlots", "timeBlock", "courseStartDate", "courseEndDate"] as const;
+
+/**
+ * Stamp scheduleChangedAt when an update changes which days or dose slots a pill is due, or
+ * reactivates it, so the dose sweep doesn't backfill days it wasn't set up that way.
+ */
+function withScheduleChange<T extends Partial<InsertMedication | InsertSupplement>>(
+  current: Medication | Supplement,
+  data: T,
+): T & { scheduleChangedAt?: Date } {
+  const changed =
+    scheduleColumns.some(
+      (column) => column in data && JSON.stringify(data[column] ?? null) !== JSON.stringify(current[column] ?? null),
+    ) ||
+    (data.active === true && !current.active);
+  return changed ? { ...data, scheduleChangedAt: new Date() } : data;
+}
+
+// A marker plus the dates of the lab result it came from (for time series)
+export type HealthMarkerWithDates = {
+  marker: HealthMarker;
+  collectionDate: string | null;
+  uploadDate: Date;
+};
+
+// What one lab job attempt saves: markers (null keeps the existing ones, for manual entries) and
+// recommendations, both replacing what the lab result had before
+export type LabJobOutput = {
+  markers: InsertHealthMarker[] | null;
+  recommendations: InsertRecommendation[];
+};
+
 export interface IStorage {
   // Users
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: string, data: Partial<User>): Promise<User | undefined>;
+  getUsers(): Promise<User[]>; // every user, for background sweeps
 
   // Lab Results
-  getLabResults(): Promise<LabResult[]>;
-  getLabResult(id: number): Promise<LabResult | undefined>;
-  createLabResult(data: InsertLabResult): Promise<LabResult>;
-  updateLabResult(id: number, data: Partial<InsertLabResult>): Promise<LabResult | undefined>;
-  deleteLabResult(id: number): Promise<void>;
+  getLabResults(userId: string): Promise<LabResult[]>;
+  getLabResult(userId: string, id: number): Promise<LabResult | undefined>;
+  createLabResult(userId: string, data: InsertLabResult): Promise<LabResult>;
+  updateLabResult(userId: string, id: number, data: Partial<InsertLabResult>): Promise<LabResult | undefined>;
+  deleteLabResult(userId: string, id: number): Promise<void>;
+
+  // Lab Jobs
+  // fileFromJobId: an earlier job whose copy of the upload the new one takes over (cleared with the insert)
+  createLabJob(userId: string, data: InsertLabJob, fileFromJobId?: number): Promise<LabJob>;
+  getLatestLabJob(userId: string, labResultId: number): Promise<LabJob | undefined>;
+  updateLabJob(userId: string, id: number, data: Partial<InsertLabJob>): Promise<LabJob | undefined>;
+
+  // Lab Jobs: worker side (across all users)
+  claimDueLabJobs(limit: number): Promise<LabJob[]>;
+  retryLabJobLater(id: number, delaySeconds: number, lastError: string): Promise<void>;
+  requeueRunningLabJobs(): Promise<LabJob[]>;
+  failOrphanedLabResults(): Promise<number>;
+  // Both false (and nothing written) when the attempt is no longer the job's current running one
+  setLabJobStage(job: LabJob, stage: LabProcessingStage): Promise<boolean>;
+  saveLabJobOutput(job: LabJob, output: LabJobOutput): Promise<boolean>;
 
   // Health Markers
-  getHealthMarkers(): Promise<HealthMarker[]>;
-  getHealthMarkersByLabResult(labResultId: number): Promise<HealthMarker[]>;
-  createHealthMarker(data: InsertHealthMarker): Promise<HealthMarker>;
-  deleteHealthMarkersByLabResult(labResultId: number): Promise<void>;
+  getHealthMarkers(userId: string): Promise<HealthMarker[]>;
+  getHealthMarkersByLabResult(userId: string, labResultId: number): Promise<HealthMarker[]>;
+  getUnmatchedHealthMarkers(userId: string): Promise<HealthMarker[]>;
+  getHealthMarkerHistory(userId: string, canonicalCode: string): Promise<HealthMarkerWithDates[]>;
+  createHealthMarker(userId: string, data: InsertHealthMarker): Promise<HealthMarker>;
+  updateHealthMarker(userId: string, id: number, data: Partial<InsertHealthMarker>): Promise<HealthMarker | undefined>;
+
+  // Marker Aliases
+  getMarkerAliases(userId: string): Promise<MarkerAlias[]>;
+  upsertMarkerAlias(userId: string, alias: string, canonicalCode: string): Promise<MarkerAlias>;
 
   // Medications
-  getMedications(): Promise<Medication[]>;
-  getMedication(id: number): Promise<Medication | undefined>;
-  createMedication(data: InsertMedication): Promise<Medication>;
-  updateMedication(id: number, data: Partial<InsertMedication>): Promise<Medication | undefined>;
-  deleteMedication(id: number): Promise<void>;
+  getMedications(userId: string): Promise<Medication[]>;
+  getMedication(userId: string, id: number): Promise<Medication | undefined>;
+  createMedication(userId: string, data: InsertMedication): Promise<Medication>;
+  updateMedication(userId: string, id: number, data: Partial<InsertMedication>): Promise<Medication | undefined>;
+  deleteMedication(userId: string, id: number): Promise<void>;
 
   // Supplements
-  getSupplements(): Promise<Supplement[]>;
-  getSupplement(id: number): Promise<Supplement | undefined>;
-  createSupplement(data: InsertSupplement): Promise<Supplement>;
-  updateSupplement(id: number, data: Partial<InsertSupplement>): Promise<Supplement | undefined>;
-  deleteSupplement(id: number): Promise<void>;
+  getSupplements(userId: string): Promise<Supplement[]>;
+  getSupplement(userId: string, id: number): Promise<Supplement | undefined>;
+  createSupplement(userId: string, data: InsertSupplement): Promise<Supplement>;
+  updateSupplement(userId: string, id: number, data: Partial<InsertSupplement>): Promise<Supplement | undefined>;
+  deleteSupplement(userId: string, id: number): Promise<void>;
+
+  // Treatment courses: worker side (across all users)
+  deactivateEndedMedications(userId: string, today: string): Promise<Medication[]>;
+  deactivateEndedSupplements(userId: string, today: string): Promise<Supplement[]>;
 
   // Recommendations
-  getRecommendations(): Promise<Recommendation[]>;
-  getRecommendationsByLabResult(labResultId: number): Promise<Recommendation[]>;
-  createRecommendation(data: InsertRecommendation): Promise<Recommendation>;
-  deleteRecommendationsByLabResult(labResultId: number): Promise<void>;
+  getRecommendations(userId: string): Promise<Recommendation[]>;
+  getRecommendationsByLabResult(userId: string, labResultId: number): Promise<Recommendation[]>;
 
   // Reminders
-  getReminders(): Promise<Reminder[]>;
-  getReminder(id: number): Promise<Reminder | undefined>;
-  createReminder(data: InsertReminder): Promise<Reminder>;
-  updateReminder(id: number, data: Partial<InsertReminder>): Promise<Reminder | undefined>;
-  deleteReminder(id: number): Promise<void>;
+  getReminders(userId: string): Promise<Reminder[]>;
+  getReminder(userId: string, id: number): Promise<Reminder | undefined>;
+  createReminder(userId: string, data: InsertReminder): Promise<Reminder>;
+  updateReminder(userId: string, id: number, data: Partial<InsertReminder>): Promise<Reminder | undefined>;
+  deleteReminder(userId: string, id: number): Promise<void>;
 
   // Interactions
-  getInteractions(): Promise<Interaction[]>;
-  createInteraction(data: InsertInteraction): Promise<Interaction>;
-  deleteAllInteractions(): Promise<void>;
+  getInteractions(userId: string): Promise<Interaction[]>;
+  getInteraction(userId: string, id: number): Promise<Interaction | undefined>;
+  createInteraction(userId: string, data: InsertInteraction): Promise<Interaction>;
+  confirmInteraction(userId: string, id: number, data: InsertInteraction): Promise<Interaction | undefined>;
+  setInteractionStatus(userId: string, id: number, status: InteractionStatus, note: string | null): Promise<Interaction | undefined>;
+  deleteInteraction(userId: string, id: number): Promise<void>;
+  getInteractionPairChecks(userId: string, pairKeys: string[]): Promise<InteractionPairCheck[]>;
+  saveInteractionPairCheck(userId: string, pairKey: string, result: CachedInteraction | null): Promise<void>;
 
   // Pill Stacks
-  getPillStacks(): Promise<PillStack[]>;
-  getPillStack(id: number): Promise<PillStack | undefined>;
-  createPillStack(data: InsertPillStack): Promise<PillStack>;
-  updatePillStack(id: number, data: Partial<InsertPillStack>): Promise<PillStack | undefined>;
-  deletePillStack(id: number): Promise<void>;
+  getPillStacks(userId: string): Promise<PillStack[]>;
+  getPillStack(userId: string, id: number): Promise<PillStack | undefined>;
+  createPillStack(userId: string, data: InsertPillStack): Promise<PillStack>;
+  updatePillStack(userId: string, id: number, data: Partial<InsertPillStack>): Promise<PillStack | undefined>;
+  deletePillStack(userId: string, id: number): Promise<void>;
 
   // Pill Doses
-  getPillDoses(): Promise<PillDose[]>;
-  getPillDosesByDate(date: string): Promise<PillDose[]>;
-  createPillDose(data: InsertPillDose): Promise<PillDose>;
-  updatePillDose(id: number, data: Partial<InsertPillDose>): Promise<PillDose | undefined>;
-  deletePillDose(id: number): Promise<void>;
+  getPillDoses(userId: string): Promise<PillDose[]>;
+  getPillDosesByDate(userId: string, date: string): Promise<PillDose[]>;
+  getPillDose(userId: string, id: number): Promise<PillDose | undefined>;
+  getPillDosesBetween(userId: string, from: string, to: string): Promise<PillDose[]>;
+  createPillDose(userId: string, data: InsertPillDose): Promise<PillDose>;
+  updatePillDose(userId: string, id: number, data: Partial<InsertPillDose>): Promise<PillDose | undefined>;
+  // Status change and pill count together, with the dose row locked; see updateDoseWithInventory
+  updatePillDoseWithInventory(
+    userId: string,
+    id: number,
+    data: Partial<InsertPillDose>,
+  ): Promise<{ dose: PillDose; inventoryChanged: boolean } | undefined>;
+  movePendingPillDoses(userId: string, pill: PillRef, slotId: string, fromDate: string, timeBlock: string): Promise<number>;
+  getOpenPillDosesFrom(userId: string, pill: PillRef, fromDate: string): Promise<PillDose[]>;
+  deleteOpenPillDoses(userId: string, ids: number[]): Promise<number>;
+  markPillDosesMissed(userId: string, ids: number[]): Promise<number>;
+  snoozePillDoses(userId: string, ids: number[], until: Date): Promise<PillDose[]>;
+  deletePillDose(userId: string, id: number): Promise<void>;
+
+  // Pill Inventory
+  adjustPillsOnHand(userId: string, pill: PillRef, delta: number): Promise<Medication | Supplement | undefined>;
+  getPillRefills(userId: string, pill?: PillRef): Promise<PillRefill[]>;
+  createPillRefill(userId: string, pill: PillRef, quantity: number, note: string | null): Promise<PillRefill>;
+
+  // Pill History
+  getPillHistory(userId: string): Promise<PillHistoryEntry[]>;
+  createPillHistoryEntry(userId: string, data: InsertPillHistory): Promise<PillHistoryEntry>;
+
+  // Push Subscriptions
+  getPushSubscriptions(userId: string): Promise<PushSubscriptionRecord[]>;
+  savePushSubscription(
+    userId: string,
+    subscription: PushSubscriptionRequest,
+    userAgent: string | null,
+  ): Promise<PushSubscriptionRecord>;
+  deletePushSubscription(userId: string, endpoint: string): Promise<void>;
+  deleteExpiredPushSubscription(endpoint: string): Promise<void>; // the push service said it's gone
+
+  // Notification Log
+  // undefined when the idempotency key was already logged for the user
+  logNotification(userId: string, entry: InsertNotificationLogEntry): Promise<NotificationLogEntry | undefined>;
+  getNotificationLog(userId: string, afterId: number | undefined, limit: number): Promise<NotificationLogEntry[]>;
+  markNotificationPushed(id: number): Promise<void>;
+  deleteNotificationsBefore(before: Date): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -107,6 +240,10 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUsers(): Promise<User[]> {
+    return db.select().from(users);
+  }
+
   async getUserByUsername(username: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.username, username));
     return user;
@@ -123,196 +260,824 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Lab Results
-  async getLabResults(): Promise<LabResult[]> {
-    return db.select().from(labResults).orderBy(desc(labResults.uploadDate));
+  async getLabResults(userId: string): Promise<LabResult[]> {
+    return db.select().from(labResults).where(eq(labResults.userId, userId)).orderBy(desc(labResults.uploadDate));
   }
 
-  async getLabResult(id: number): Promise<LabResult | undefined> {
-    const [result] = await db.select().from(labResults).where(eq(labResults.id, id));
+  async getLabResult(userId: string, id: number): Promise<LabResult | undefined> {
+    const [result] = await db
+      .select()
+      .from(labResults)
+      .where(and(eq(labResults.userId, userId), eq(labResults.id, id)));
     return result;
   }
 
-  async createLabResult(data: InsertLabResult): Promise<LabResult> {
-    const [created] = await db.insert(labResults).values(data).returning();
+  async createLabResult(userId: string, data: InsertLabResult): Promise<LabResult> {
+    const [created] = await db.insert(labResults).values({ ...data, userId }).returning();
     return created;
   }
 
-  async updateLabResult(id: number, data: Partial<InsertLabResult>): Promise<LabResult | undefined> {
-    const [updated] = await db.update(labResults).set(data).where(eq(labResults.id, id)).returning();
+  async updateLabResult(userId: string, id: number, data: Partial<InsertLabResult>): Promise<LabResult | undefined> {
+    const [updated] = await db
+      .update(labResults)
+      .set(data)
+      .where(and(eq(labResults.userId, userId), eq(labResults.id, id)))
+      .returning();
     return updated;
   }
 
-  async deleteLabResult(id: number): Promise<void> {
-    await db.delete(labResults).where(eq(labResults.id, id));
+  async deleteLabResult(userId: string, id: number): Promise<void> {
+    await db.delete(labResults).where(and(eq(labResults.userId, userId), eq(labResults.id, id)));
+  }
+
+  // Lab Jobs
+  async createLabJob(userId: string, data: InsertLabJob, fileFromJobId?: number): Promise<LabJob> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(labJobs).values({ ...data, userId }).returning();
+      if (fileFromJobId !== undefined) {
+        await tx
+          .update(labJobs)
+          .set({ fileData: null })
+          .where(and(eq(labJobs.userId, userId), eq(labJobs.id, fileFromJobId)));
+      }
+      return created;
+    });
+  }
+
+  async getLatestLabJob(userId: string, labResultId: number): Promise<LabJob | undefined> {
+    const [result] = await db
+      .select()
+      .from(labJobs)
+      .where(and(eq(labJobs.userId, userId), eq(labJobs.labResultId, labResultId)))
+      .orderBy(desc(labJobs.createdAt), desc(labJobs.id))
+      .limit(1);
+    return result;
+  }
+
+  async updateLabJob(userId: string, id: number, data: Partial<InsertLabJob>): Promise<LabJob | undefined> {
+    const [updated] = await db
+      .update(labJobs)
+      .set(data)
+      .where(and(eq(labJobs.userId, userId), eq(labJobs.id, id)))
+      .returning();
+    return updated;
+  }
+
+  async claimDueLabJobs(limit: number): Promise<LabJob[]> {
+    // SKIP LOCKED lets several workers poll the same table without double-claiming a job.
+    const due = db
+      .select({ id: labJobs.id })
+      .from(labJobs)
+      .where(and(eq(labJobs.status, "queued"), lte(labJobs.runAt, sql`now()`)))
+      .orderBy(asc(labJobs.runAt), asc(labJobs.id))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return db
+      .update(labJobs)
+      .set({ status: "running", lockedAt: sql`now()`, attempts: sql`${labJobs.attempts} + 1` })
+      .where(inArray(labJobs.id, due))
+      .returning();
+  }
+
+  async retryLabJobLater(id: number, delaySeconds: number, lastError: string): Promise<void> {
+    await db
+      .update(labJobs)
+      .set({
+        status: "queued",
+        stage: null,
+        lockedAt: null,
+        lastError,
+        runAt: sql`now() + ${delaySeconds} * interval '1 second'`,
+      })
+      .where(eq(labJobs.id, id));
+  }
+
+  async requeueRunningLabJobs(): Promise<LabJob[]> {
+    // A crash mid-run already spent the attempt; jobs out of attempts fail instead of looping.
+    return db
+      .update(labJobs)
+      .set({
+        status: sql`case when ${labJobs.attempts} >= ${labJobs.maxAttempts} then 'failed' else 'queued' end`,
+        stage: null,
+        lockedAt: null,
+        lastError: sql`coalesce(${labJobs.lastError}, 'Interrupted by server restart')`,
+        runAt: sql`now()`,
+      })
+      .where(eq(labJobs.status, "running"))
+      .returning();
+  }
+
+  async failOrphanedLabResults(): Promise<number> {
+    // Rows left "in progress" with no live job (e.g. from before the queue existed) can only be retried by hand.
+    const activeJobs = db
+      .select({ labResultId: labJobs.labResultId })
+      .from(labJobs)
+      .where(inArray(labJobs.status, ["queued", "running"]));
+
+    const failed = await db
+      .update(labResults)
+      .set({ status: "error", processingError: "Processing was interrupted; retry to process it again" })
+      .where(
+        and(
+          inArray(labResults.status, [...labResultActiveStatuses]),
+          sql`${labResults.id} not in ${activeJobs}`,
+        ),
+      )
+      .returning({ id: labResults.id });
+    return failed.length;
+  }
+
+  async setLabJobStage(job: LabJob, stage: LabProcessingStage): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx
+        .update(labJobs)
+        .set({ stage })
+        .where(and(eq(labJobs.id, job.id), eq(labJobs.status, "running"), eq(labJobs.attempts, job.attempts)))
+        .returning({ id: labJobs.id });
+      if (!current) return false;
+
+      await tx
+        .update(labResults)
+        .set({ status: stage })
+        .where(and(eq(labResults.userId, job.userId), eq(labResults.id, job.labResultId)));
+      return true;
+    });
+  }
+
+  async saveLabJobOutput(job: LabJob, output: LabJobOutput): Promise<boolean> {
+    const { userId, labResultId } = job;
+    return db.transaction(async (tx) => {
+      // Locking the job row fences off an attempt that timed out but kept running: once the job was
+      // re-queued or re-claimed, its status or attempt count no longer match and nothing is written.
+      const [current] = await tx
+        .select({ id: labJobs.id })
+        .from(labJobs)
+        .where(and(eq(labJobs.id, job.id), eq(labJobs.status, "running"), eq(labJobs.attempts, job.attempts)))
+        .for("update");
+      if (!current) return false;
+
+      await tx
+        .delete(recommendations)
+        .where(and(eq(recommendations.userId, userId), eq(recommendations.labResultId, labResultId)));
+      if (output.markers) {
+        await tx
+          .delete(healthMarkers)
+          .where(and(eq(healthMarkers.userId, userId), eq(healthMarkers.labResultId, labResultId)));
+        for (const marker of output.markers) {
+          try {
+            // A savepoint per marker: one malformed marker is skipped without aborting the rest
+            await tx.transaction(async (sp) => {
+              await sp.insert(healthMarkers).values({ ...marker, userId });
+            });
+          } catch (markerError) {
+            console.warn("Skipping marker (DB insert failed):", marker.name, markerError);
+          }
+        }
+      }
+      if (output.recommendations.length > 0) {
+        await tx.insert(recommendations).values(output.recommendations.map((rec) => ({ ...rec, userId })));
+      }
+      return true;
+    });
   }
 
   // Health Markers
-  async getHealthMarkers(): Promise<HealthMarker[]> {
-    return db.select().from(healthMarkers);
+  async getHealthMarkers(userId: string): Promise<HealthMarker[]> {
+    return db.select().from(healthMarkers).where(eq(healthMarkers.userId, userId));
+  }
+
+  async getHealthMarkersByLabResult(userId: string, labResultId: number): Promise<HealthMarker[]> {
+    return db
+      .select()
+      .from(healthMarkers)
+      .where(and(eq(healthMarkers.userId, userId), eq(healthMarkers.labResultId, labResultId)));
   }
 
-  async getHealthMarkersByLabResult(labResultId: number): Promise<HealthMarker[]> {
-    return db.select().from(healthMarkers).where(eq(healthMarkers.labResultId, labResultId));
+  async getUnmatchedHealthMarkers(userId: string): Promise<HealthMarker[]> {
+    return db
+      .select()
+      .from(healthMarkers)
+      .where(and(eq(healthMarkers.userId, userId), isNull(healthMarkers.canonicalCode)));
   }
 
-  async createHealthMarker(data: InsertHealthMarker): Promise<HealthMarker> {
-    const [created] = await db.insert(healthMarkers).values(data).returning();
+  async getHealthMarkerHistory(userId: string, canonicalCode: string): Promise<HealthMarkerWithDates[]> {
+    return db
+      .select({
+        marker: healthMarkers,
+        collectionDate: labResults.collectionDate,
+        uploadDate: labResults.uploadDate,
+      })
+      .from(healthMarkers)
+      .innerJoin(labResults, eq(healthMarkers.labResultId, labResults.id))
+      .where(and(eq(healthMarkers.userId, userId), eq(healthMarkers.canonicalCode, canonicalCode)));
+  }
+
+  async createHealthMarker(userId: string, data: InsertHealthMarker): Promise<HealthMarker> {
+    const [created] = await db.insert(healthMarkers).values({ ...data, userId }).returning();
     return created;
   }
 
-  async deleteHealthMarkersByLabResult(labResultId: number): Promise<void> {
-    await db.delete(healthMarkers).where(eq(healthMarkers.labResultId, labResultId));
+  async updateHealthMarker(userId: string, id: number, data: Partial<InsertHealthMarker>): Promise<HealthMarker | undefined> {
+    const [updated] = await db
+      .update(healthMarkers)
+      .set(data)
+      .where(and(eq(healthMarkers.userId, userId), eq(healthMarkers.id, id)))
+      .returning();
+    return updated;
+  }
+
+  // Marker Aliases
+  async getMarkerAliases(userId: string): Promise<MarkerAlias[]> {
+    return db.select().from(markerAliases).where(eq(markerAliases.userId, userId));
+  }
+
+  async upsertMarkerAlias(userId: string, alias: string, canonicalCode: string): Promise<MarkerAlias> {
+    const [saved] = await db
+      .insert(markerAliases)
+      .values({ userId, alias, canonicalCode })
+      .onConflictDoUpdate({
+        target: [markerAliases.userId, markerAliases.alias],
+        set: { canonicalCode },
+      })
+      .returning();
+    return saved;
   }
 
   // Medications
-  async getMedications(): Promise<Medication[]> {
-    return db.select().from(medications).orderBy(desc(medications.createdAt));
+  async getMedications(userId: string): Promise<Medication[]> {
+    return db.select().from(medications).where(eq(medications.userId, userId)).orderBy(desc(medications.createdAt));
   }
 
-  async getMedication(id: number): Promise<Medication | undefined> {
-    const [result] = await db.select().from(medications).where(eq(medications.id, id));
+  async getMedication(userId: string, id: number): Promise<Medication | undefined> {
+    const [result] = await db
+      .select()
+      .from(medications)
+      .where(and(eq(medications.userId, userId), eq(medications.id, id)));
     return result;
   }
 
-  async createMedication(data: InsertMedication): Promise<Medication> {
-    const [created] = await db.insert(medications).values(data).returning();
+  async createMedication(userId: string, data: InsertMedication): Promise<Medication> {
+    const [created] = await db.insert(medications).values({ ...withFirstSlot(data), userId }).returning();
     return created;
   }
 
-  async updateMedication(id: number, data: Partial<InsertMedication>): Promise<Medication | undefined> {
-    const [updated] = await db.update(medications).set(data).where(eq(medications.id, id)).returning();
-    return updated;
+  async updateMedication(userId: string, id: number, data: Partial<InsertMedication>): Promise<Medication | undefined> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(medications)
+        .where(and(eq(medications.userId, userId), eq(medications.id, id)))
+        .for("update");
+      if (!current) return undefined;
+
+      const [updated] = await tx
+        .update(medications)
+        .set(withScheduleChange(current, withFirstSlot(data)))
+        .where(and(eq(medications.userId, userId), eq(medications.id, id)))
+        .returning();
+      return updated;
+    });
   }
 
-  async deleteMedication(id: number): Promise<void> {
-    await db.delete(medications).where(eq(medications.id, id));
+  async deleteMedication(userId: string, id: number): Promise<void> {
+    await db.delete(medications).where(and(eq(medications.userId, userId), eq(medications.id, id)));
+    await this.deleteInteractionsForPill(userId, { type: "medication", id });
   }
 
   // Supplements
-  async getSupplements(): Promise<Supplement[]> {
-    return db.select().from(supplements).orderBy(desc(supplements.createdAt));
+  async getSupplements(userId: string): Promise<Supplement[]> {
+    return db.select().from(supplements).where(eq(supplements.userId, userId)).orderBy(desc(supplements.createdAt));
   }
 
-  async getSupplement(id: number): Promise<Supplement | undefined> {
-    const [result] = await db.select().from(supplements).where(eq(supplements.id, id));
+  async getSupplement(userId: string, id: number): Promise<Supplement | undefined> {
+    const [result] = await db
+      .select()
+      .from(supplements)
+      .where(and(eq(supplements.userId, userId), eq(supplements.id, id)));
     return result;
   }
 
-  async createSupplement(data: InsertSupplement): Promise<Supplement> {
-    const [created] = await db.insert(supplements).values(data).returning();
+  async createSupplement(userId: string, data: InsertSupplement): Promise<Supplement> {
+    const [created] = await db.insert(supplements).values({ ...withFirstSlot(data), userId }).returning();
     return created;
   }
 
-  async updateSupplement(id: number, data: Partial<InsertSupplement>): Promise<Supplement | undefined> {
-    const [updated] = await db.update(supplements).set(data).where(eq(supplements.id, id)).returning();
-    return updated;
+  async updateSupplement(userId: string, id: number, data: Partial<InsertSupplement>): Promise<Supplement | undefined> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(supplements)
+        .where(and(eq(supplements.userId, userId), eq(supplements.id, id)))
+        .for("update");
+      if (!current) return undefined;
+
+      const [updated] = await tx
+        .update(supplements)
+        .set(withScheduleChange(current, withFirstSlot(data)))
+        .where(and(eq(supplements.userId, userId), eq(supplements.id, id)))
+        .returning();
+      return updated;
+    });
   }
 
-  async deleteSupplement(id: number): Promise<void> {
-    await db.delete(supplements).where(eq(supplements.id, id));
+  async deleteSupplement(userId: string, id: number): Promise<void> {
+    await db.delete(supplements).where(and(eq(supplements.userId, userId), eq(supplements.id, id)));
+    await this.deleteInteractionsForPill(userId, { type: "supplement", id });
   }
 
-  // Recommendations
-  async getRecommendations(): Promise<Recommendation[]> {
-    return db.select().from(recommendations).orderBy(desc(recommendations.createdAt));
+  // Treatment courses
+  async deactivateEndedMedications(userId: string, today: string): Promise<Medication[]> {
+    return db
+      .update(medications)
+      .set({ active: false })
+      .where(and(eq(medications.userId, userId), eq(medications.active, true), lt(medications.courseEndDate, today)))
+      .returning();
   }
 
-  async getRecommendationsByLabResult(labResultId: number): Promise<Recommendation[]> {
-    return db.select().from(recommendations).where(eq(recommendations.labResultId, labResultId));
+  async deactivateEndedSupplements(userId: string, today: string): Promise<Supplement[]> {
+    return db
+      .update(supplements)
+      .set({ active: false })
+      .where(and(eq(supplements.userId, userId), eq(supplements.active, true), lt(supplements.courseEndDate, today)))
+      .returning();
   }
 
-  async createRecommendation(data: InsertRecommendation): Promise<Recommendation> {
-    const [created] = await db.insert(recommendations).values(data).returning();
-    return created;
+  // Interactions reference pills by type and id (no foreign key), so they are removed here
+  private async deleteInteractionsForPill(userId: string, pill: PillRef): Promise<void> {
+    await db
+      .delete(interactions)
+      .where(
+        and(
+          eq(interactions.userId, userId),
+          or(
+            and(eq(interactions.pillAType, pill.type), eq(interactions.pillAId, pill.id)),
+            and(eq(interactions.pillBType, pill.type), eq(interactions.pillBId, pill.id)),
+          ),
+        ),
+      );
   }
 
-  async deleteRecommendationsByLabResult(labResultId: number): Promise<void> {
-    await db.delete(recommendations).where(eq(recommendations.labResultId, labResultId));
+  // Recommendations
+  async getRecommendations(userId: string): Promise<Recommendation[]> {
+    return db
+      .select()
+      .from(recommendations)
+      .where(eq(recommendations.userId, userId))
+      .orderBy(desc(recommendations.createdAt));
+  }
+
+  async getRecommendationsByLabResult(userId: string, labResultId: number): Promise<Recommendation[]> {
+    return db
+      .select()
+      .from(recommendations)
+      .where(and(eq(recommendations.userId, userId), eq(recommendations.labResultId, labResultId)));
   }
 
   // Reminders
-  async getReminders(): Promise<Reminder[]> {
-    return db.select().from(reminders).orderBy(reminders.time);
+  async getReminders(userId: string): Promise<Reminder[]> {
+    return db.select().from(reminders).where(eq(reminders.userId, userId)).orderBy(reminders.time);
   }
 
-  async getReminder(id: number): Promise<Reminder | undefined> {
-    const [result] = await db.select().from(reminders).where(eq(reminders.id, id));
+  async getReminder(userId: string, id: number): Promise<Reminder | undefined> {
+    const [result] = await db
+      .select()
+      .from(reminders)
+      .where(and(eq(reminders.userId, userId), eq(reminders.id, id)));
     return result;
   }
 
-  async createReminder(data: InsertReminder): Promise<Reminder> {
-    const [created] = await db.insert(reminders).values(data).returning();
+  async createReminder(userId: string, data: InsertReminder): Promise<Reminder> {
+    const [created] = await db.insert(reminders).values({ ...data, userId }).returning();
     return created;
   }
 
-  async updateReminder(id: number, data: Partial<InsertReminder>): Promise<Reminder | undefined> {
-    const [updated] = await db.update(reminders).set(data).where(eq(reminders.id, id)).returning();
+  async updateReminder(userId: string, id: number, data: Partial<InsertReminder>): Promise<Reminder | undefined> {
+    const [updated] = await db
+      .update(reminders)
+      .set(data)
+      .where(and(eq(reminders.userId, userId), eq(reminders.id, id)))
+      .returning();
     return updated;
   }
 
-  async deleteReminder(id: number): Promise<void> {
-    await db.delete(reminders).where(eq(reminders.id, id));
+  async deleteReminder(userId: string, id: number): Promise<void> {
+    await db.delete(reminders).where(and(eq(reminders.userId, userId), eq(reminders.id, id)));
   }
 
   // Interactions
-  async getInteractions(): Promise<Interaction[]> {
-    return db.select().from(interactions);
+  async getInteractions(userId: string): Promise<Interaction[]> {
+    return db.select().from(interactions).where(eq(interactions.userId, userId));
   }
 
-  async createInteraction(data: InsertInteraction): Promise<Interaction> {
-    const [created] = await db.insert(interactions).values(data).returning();
+  async getInteraction(userId: string, id: number): Promise<Interaction | undefined> {
+    const [result] = await db
+      .select()
+      .from(interactions)
+      .where(and(eq(interactions.userId, userId), eq(interactions.id, id)));
+    return result;
+  }
+
+  async createInteraction(userId: string, data: InsertInteraction): Promise<Interaction> {
+    const [created] = await db.insert(interactions).values({ ...data, userId }).returning();
     return created;
   }
 
-  async deleteAllInteractions(): Promise<void> {
-    await db.delete(interactions);
+  async confirmInteraction(userId: string, id: number, data: InsertInteraction): Promise<Interaction | undefined> {
+    // Same row (id, firstSeenAt) as before; content refreshed and re-stamped.
+    const [updated] = await db
+      .update(interactions)
+      .set({ ...data, lastConfirmedAt: sql`now()` })
+      .where(and(eq(interactions.userId, userId), eq(interactions.id, id)))
+      .returning();
+    return updated;
+  }
+
+  async setInteractionStatus(
+    userId: string,
+    id: number,
+    status: InteractionStatus,
+    note: string | null,
+  ): Promise<Interaction | undefined> {
+    const [updated] = await db
+      .update(interactions)
+      .set({ status, statusNote: note, statusChangedAt: sql`now()` })
+      .where(and(eq(interactions.userId, userId), eq(interactions.id, id)))
+      .returning();
+    return updated;
+  }
+
+  async deleteInteraction(userId: string, id: number): Promise<void> {
+    await db.delete(interactions).where(and(eq(interactions.userId, userId), eq(interactions.id, id)));
+  }
+
+  async getInteractionPairChecks(userId: string, pairKeys: string[]): Promise<InteractionPairCheck[]> {
+    if (pairKeys.length === 0) return [];
+    return db
+      .select()
+      .from(interactionPairChecks)
+      .where(and(eq(interactionPairChecks.userId, userId), inArray(interactionPairChecks.pairKey, pairKeys)));
+  }
+
+  async saveInteractionPairCheck(userId: string, pairKey: string, result: CachedInteraction | null): Promise<void> {
+    await db
+      .insert(interactionPairChecks)
+      .values({ userId, pairKey, result })
+      .onConflictDoUpdate({
+        target: [interactionPairChecks.userId, interactionPairChecks.pairKey],
+        set: { result, checkedAt: sql`now()` },
+      });
   }
 
   // Pill Stacks
-  async getPillStacks(): Promise<PillStack[]> {
-    return db.select().from(pillStacks).orderBy(pillStacks.timeBlock);
+  async getPillStacks(userId: string): Promise<PillStack[]> {
+    return db.select().from(pillStacks).where(eq(pillStacks.userId, userId)).orderBy(pillStacks.timeBlock);
   }
 
-  async getPillStack(id: number): Promise<PillStack | undefined> {
-    const [result] = await db.select().from(pillStacks).where(eq(pillStacks.id, id));
+  async getPillStack(userId: string, id: number): Promise<PillStack | undefined> {
+    const [result] = await db
+      .select()
+      .from(pillStacks)
+      .where(and(eq(pillStacks.userId, userId), eq(pillStacks.id, id)));
     return result;
   }
 
-  async createPillStack(data: InsertPillStack): Promise<PillStack> {
-    const [created] = await db.insert(pillStacks).values(data).returning();
+  async createPillStack(userId: string, data: InsertPillStack): Promise<PillStack> {
+    const [created] = await db.insert(pillStacks).values({ ...data, userId }).returning();
     return created;
   }
 
-  async updatePillStack(id: number, data: Partial<InsertPillStack>): Promise<PillStack | undefined> {
-    const [updated] = await db.update(pillStacks).set(data).where(eq(pillStacks.id, id)).returning();
+  async updatePillStack(userId: string, id: number, data: Partial<InsertPillStack>): Promise<PillStack | undefined> {
+    const [updated] = await db
+      .update(pillStacks)
+      .set(data)
+      .where(and(eq(pillStacks.userId, userId), eq(pillStacks.id, id)))
+      .returning();
     return updated;
   }
 
-  async deletePillStack(id: number): Promise<void> {
-    await db.delete(pillStacks).where(eq(pillStacks.id, id));
+  async deletePillStack(userId: string, id: number): Promise<void> {
+    await db.delete(pillStacks).where(and(eq(pillStacks.userId, userId), eq(pillStacks.id, id)));
   }
 
   // Pill Doses
-  async getPillDoses(): Promise<PillDose[]> {
-    return db.select().from(pillDoses).orderBy(desc(pillDoses.scheduledDate));
+  async getPillDoses(userId: string): Promise<PillDose[]> {
+    return db
+      .select()
+      .from(pillDoses)
+      .where(eq(pillDoses.userId, userId))
+      .orderBy(desc(pillDoses.scheduledDate));
+  }
+
+  async getPillDosesByDate(userId: string, date: string): Promise<PillDose[]> {
+    return db
+      .select()
+      .from(pillDoses)
+      .where(and(eq(pillDoses.userId, userId), eq(pillDoses.scheduledDate, date)));
+  }
+
+  async getPillDose(userId: string, id: number): Promise<PillDose | undefined> {
+    const [result] = await db
+      .select()
+      .from(pillDoses)
+      .where(and(eq(pillDoses.userId, userId), eq(pillDoses.id, id)));
+    return result;
   }
 
-  async getPillDosesByDate(date: string): Promise<PillDose[]> {
-    return db.select().from(pillDoses).where(eq(pillDoses.scheduledDate, date));
+  async getPillDosesBetween(userId: string, from: string, to: string): Promise<PillDose[]> {
+    return db
+      .select()
+      .from(pillDoses)
+      .where(and(eq(pillDoses.userId, userId), gte(pillDoses.scheduledDate, from), lte(pillDoses.scheduledDate, to)))
+      .orderBy(asc(pillDoses.scheduledDate), asc(pillDoses.id));
   }
 
-  async createPillDose(data: InsertPillDose): Promise<PillDose> {
-    const [created] = await db.insert(pillDoses).values(data).returning();
+  async createPillDose(userId: string, data: InsertPillDose): Promise<PillDose> {
+    const [created] = await db.insert(pillDoses).values({ ...data, userId }).returning();
     return created;
   }
 
-  async updatePillDose(id: number, data: Partial<InsertPillDose>): Promise<PillDose | undefined> {
-    const [updated] = await db.update(pillDoses).set(data).where(eq(pillDoses.id, id)).returning();
+  async updatePillDose(userId: string, id: number, data: Partial<InsertPillDose>): Promise<PillDose | undefined> {
+    const [updated] = await db
+      .update(pillDoses)
+      .set(data)
+      .where(and(eq(pillDoses.userId, userId), eq(pillDoses.id, id)))
+      .returning();
+    return updated;
+  }
+
+  async updatePillDoseWithInventory(
+    userId: string,
+    id: number,
+    data: Partial<InsertPillDose>,
+  ): Promise<{ dose: PillDose; inventoryChanged: boolean } | undefined> {
+    return db.transaction(async (tx) => {
+      // Locking the dose serializes concurrent updates (a notification's "Taken" and a click in a
+      // tab), so the second one sees the first one's status and pillsDeducted
+      const [current] = await tx
+        .select()
+        .from(pillDoses)
+        .where(and(eq(pillDoses.userId, userId), eq(pillDoses.id, id)))
+        .for("update");
+      if (!current) return undefined;
+
+      const changes = { ...data };
+      delete changes.pillsDeducted;
+      const wasTaken = current.status === "taken";
+      const isTaken = (changes.status ?? current.status) === "taken";
+      const table = current.pillType === "medication" ? medications : supplements;
+      const ownPill = and(eq(table.userId, userId), eq(table.id, current.pillId));
+
+      let pillsDeducted = current.pillsDeducted;
+      if (isTaken && !wasTaken && pillsDeducted === null) {
+        const [pill] = await tx
+          .select({ pillsOnHand: table.pillsOnHand, pillsPerDose: table.pillsPerDose })
+          .from(table)
+          .where(ownPill)
+          .for("update");
+        if (pill && pill.pillsOnHand !== null) {
+          pillsDeducted = Math.min(pill.pillsPerDose, pill.pillsOnHand);
+          await tx.update(table).set({ pillsOnHand: pill.pillsOnHand - pillsDeducted }).where(ownPill);
+        }
+      } else if (!isTaken && wasTaken && pillsDeducted !== null) {
+        await tx
+          .update(table)
+          .set({ pillsOnHand: sql`coalesce(${table.pillsOnHand}, 0) + ${pillsDeducted}` })
+          .where(ownPill);
+        pillsDeducted = null;
+      }
+
+      const [dose] = await tx
+        .update(pillDoses)
+        .set({ ...changes, pillsDeducted })
+        .where(and(eq(pillDoses.userId, userId), eq(pillDoses.id, id)))
+        .returning();
+      return { dose, inventoryChanged: pillsDeducted !== current.pillsDeducted };
+    });
+  }
+
+  // Pending doses follow a pill to its new block; doses already taken/skipped stay where they were
+  async movePendingPillDoses(
+    userId: string,
+    pill: PillRef,
+    slotId: string,
+    fromDate: string,
+    timeBlock: string,
+  ): Promise<number> {
+    const moved = await db
+      .update(pillDoses)
+      .set({ scheduledTimeBlock: timeBlock })
+      .where(
+        and(
+          eq(pillDoses.userId, userId),
+          eq(pillDoses.pillType, pill.type),
+          eq(pillDoses.pillId, pill.id),
+          eq(pillDoses.slotId, slotId),
+          eq(pillDoses.status, "pending"),
+          gte(pillDoses.scheduledDate, fromDate),
+        ),
+      )
+      .returning({ id: pillDoses.id });
+    return moved.length;
+  }
+
+  async getOpenPillDosesFrom(userId: string, pill: PillRef, fromDate: string): Promise<PillDose[]> {
+    return db
+      .select()
+      .from(pillDoses)
+      .where(
+        and(
+          eq(pillDoses.userId, userId),
+          eq(pillDoses.pillType, pill.type),
+          eq(pillDoses.pillId, pill.id),
+          inArray(pillDoses.status, ["pending", "snoozed"]),
+          gte(pillDoses.scheduledDate, fromDate),
+        ),
+      );
+  }
+
+  async deleteOpenPillDoses(userId: string, ids: number[]): Promise<number> {
+    if (ids.length === 0) return 0;
+    // Only still-open doses, so one taken in the meantime is kept
+    const deleted = await db
+      .delete(pillDoses)
+      .where(
+        and(
+          eq(pillDoses.userId, userId),
+          inArray(pillDoses.id, ids),
+          inArray(pillDoses.status, ["pending", "snoozed"]),
+        ),
+      )
+      .returning({ id: pillDoses.id });
+    return deleted.length;
+  }
+
+  async markPillDosesMissed(userId: string, ids: number[]): Promise<number> {
+    if (ids.length === 0) return 0;
+    // Only still-open doses, so one taken in the meantime isn't overwritten
+    const missed = await db
+      .update(pillDoses)
+      .set({ status: "missed", snoozedUntil: null })
+      .where(
+        and(
+          eq(pillDoses.userId, userId),
+          inArray(pillDoses.id, ids),
+          inArray(pillDoses.status, ["pending", "snoozed"]),
+        ),
+      )
+      .returning({ id: pillDoses.id });
+    return missed.length;
+  }
+
+  async snoozePillDoses(userId: string, ids: number[], until: Date): Promise<PillDose[]> {
+    if (ids.length === 0) return [];
+    return db
+      .update(pillDoses)
+      .set({ status: "snoozed", snoozedUntil: until, snoozeCount: sql`${pillDoses.snoozeCount} + 1` })
+      .where(
+        and(
+          eq(pillDoses.userId, userId),
+          inArray(pillDoses.id, ids),
+          inArray(pillDoses.status, ["pending", "snoozed"]),
+        ),
+      )
+      .returning();
+  }
+
+  async deletePillDose(userId: string, id: number): Promise<void> {
+    await db.delete(pillDoses).where(and(eq(pillDoses.userId, userId), eq(pillDoses.id, id)));
+  }
+
+  // Pill Inventory
+  async adjustPillsOnHand(userId: string, pill: PillRef, delta: number): Promise<Medication | Supplement | undefined> {
+    // Never below zero; an untracked count stays untracked unless pills are added (a first refill starts tracking)
+    const table = pill.type === "medication" ? medications : supplements;
+    const [updated] = await db
+      .update(table)
+      .set({
+        pillsOnHand: sql`case when ${table.pillsOnHand} is null and ${delta} <= 0 then null else greatest(coalesce(${table.pillsOnHand}, 0) + ${delta}, 0) end`,
+      })
+      .where(and(eq(table.userId, userId), eq(table.id, pill.id)))
+      .returning();
     return updated;
   }
 
-  async deletePillDose(id: number): Promise<void> {
-    await db.delete(pillDoses).where(eq(pillDoses.id, id));
+  async getPillRefills(userId: string, pill?: PillRef): Promise<PillRefill[]> {
+    return db
+      .select()
+      .from(pillRefills)
+      .where(
+        pill
+          ? and(eq(pillRefills.userId, userId), eq(pillRefills.pillType, pill.type), eq(pillRefills.pillId, pill.id))
+          : eq(pillRefills.userId, userId),
+      )
+      .orderBy(desc(pillRefills.createdAt), desc(pillRefills.id));
+  }
+
+  async createPillRefill(userId: string, pill: PillRef, quantity: number, note: string | null): Promise<PillRefill> {
+    const [created] = await db
+      .insert(pillRefills)
+      .values({ userId, pillType: pill.type, pillId: pill.id, quantity, note })
+      .returning();
+    return created;
+  }
+
+  // Pill History
+  async getPillHistory(userId: string): Promise<PillHistoryEntry[]> {
+    return db
+      .select()
+      .from(pillHistory)
+      .where(eq(pillHistory.userId, userId))
+      .orderBy(desc(pillHistory.createdAt), desc(pillHistory.id));
+  }
+
+  async createPillHistoryEntry(userId: string, data: InsertPillHistory): Promise<PillHistoryEntry> {
+    const [created] = await db.insert(pillHistory).values({ ...data, userId }).returning();
+    return created;
+  }
+
+  // Push Subscriptions
+  async getPushSubscriptions(userId: string): Promise<PushSubscriptionRecord[]> {
+    return db.select().from(pushSubscriptions).where(eq(pushSubscriptions.userId, userId));
+  }
+
+  async savePushSubscription(
+    userId: string,
+    subscription: PushSubscriptionRequest,
+    userAgent: string | null,
+  ): Promise<PushSubscriptionRecord> {
+    const values = {
+      userId,
+      endpoint: subscription.endpoint,
+      p256dh: subscription.keys.p256dh,
+      auth: subscription.keys.auth,
+      userAgent,
+    };
+    // A browser re-subscribing (or another user logging in on it) takes over the endpoint
+    const [saved] = await db
+      .insert(pushSubscriptions)
+      .values(values)
+      .onConflictDoUpdate({ target: pushSubscriptions.endpoint, set: values })
+      .returning();
+    return saved;
+  }
+
+  async deletePushSubscription(userId: string, endpoint: string): Promise<void> {
+    await db
+      .delete(pushSubscriptions)
+      .where(and(eq(pushSubscriptions.userId, userId), eq(pushSubscriptions.endpoint, endpoint)));
+  }
+
+  async deleteExpiredPushSubscription(endpoint: string): Promise<void> {
+    await db.delete(pushSubscriptions).where(eq(pushSubscriptions.endpoint, endpoint));
+  }
+
+  // Notification Log
+  async logNotification(
+    userId: string,
+    entry: InsertNotificationLogEntry,
+  ): Promise<NotificationLogEntry | undefined> {
+    const [logged] = await db
+      .insert(notificationLog)
+      .values({ ...entry, userId })
+      .onConflictDoNothing({ target: [notificationLog.userId, notificationLog.idempotencyKey] })
+      .returning();
+    return logged;
+  }
+
+  async getNotificationLog(
+    userId: string,
+    afterId: number | undefined,
+    limit: number,
+  ): Promise<NotificationLogEntry[]> {
+    if (afterId !== undefined) {
+      return db
+        .select()
+        .from(notificationLog)
+        .where(and(eq(notificationLog.userId, userId), gt(notificationLog.id, afterId)))
+        .orderBy(asc(notificationLog.id))
+        .limit(limit);
+    }
+    // Without a cursor: the latest entries, still oldest first
+    const latest = await db
+      .select()
+      .from(notificationLog)
+      .where(eq(notificationLog.userId, userId))
+      .orderBy(desc(notificationLog.id))
+      .limit(limit);
+    return latest.reverse();
+  }
+
+  async markNotificationPushed(id: number): Promise<void> {
+    await db.update(notificationLog).set({ pushedAt: new Date() }).where(eq(notificationLog.id, id));
+  }
+
+  async deleteNotificationsBefore(before: Date): Promise<number> {
+    const deleted = await db
+      .delete(notificationLog)
+      .where(lt(notificationLog.createdAt, before))
+      .returning({ id: notificationLog.id });
+    return deleted.length;
   }
 }
 
@@ -0,0 +1,139 @@
+// server/units.ts
+import type { HealthMarker, NormalizedHealthMarker, UnitSystem } from "@shared/schema";
+
+/**
+ * How to convert one analyte between conventional (US) and SI units:
+ *   si = (conventional + offset) * factor
+ * offset is only non-zero for affine scales (HbA1c % -> mmol/mol).
+ */
+type AnalyteConversion = {
+  conventional: string;
+  si: string;
+  factor: number;
+  offset?: number;
+};
+
+// Keyed by marker registry code (server/markers.ts). Analytes missing here are shown as reported.
+const ANALYTE_CONVERSIONS: Record<string, AnalyteConversion> = {
+  vitamin_d: { conventional: "ng/mL", si: "nmol/L", factor: 2.496 },
+  vitamin_b12: { conventional: "pg/mL", si: "pmol/L", factor: 0.7378 },
+  folate: { conventional: "ng/mL", si: "nmol/L", factor: 2.266 },
+  ferritin: { conventional: "ng/mL", si: "µg/L", factor: 1 },
+  iron: { conventional: "µg/dL", si: "µmol/L", factor: 0.1791 },
+  tibc: { conventional: "µg/dL", si: "µmol/L", factor: 0.1791 },
+  magnesium: { conventional: "mg/dL", si: "mmol/L", factor: 0.4114 },
+  calcium: { conventional: "mg/dL", si: "mmol/L", factor: 0.2495 },
+  zinc: { conventional: "µg/dL", si: "µmol/L", factor: 0.153 },
+  hemoglobin: { conventional: "g/dL", si: "g/L", factor: 10 },
+  testosterone: { conventional: "ng/dL", si: "nmol/L", factor: 0.03467 },
+  free_t4: { conventional: "ng/dL", si: "pmol/L", factor: 12.87 },
+  free_t3: { conventional: "pg/mL", si: "pmol/L", factor: 1.536 },
+  cortisol: { conventional: "µg/dL", si: "nmol/L", factor: 27.59 },
+  total_cholesterol: { conventional: "mg/dL", si: "mmol/L", factor: 0.02586 },
+  ldl: { conventional: "mg/dL", si: "mmol/L", factor: 0.02586 },
+  hdl: { conventional: "mg/dL", si: "mmol/L", factor: 0.02586 },
+  triglycerides: { conventional: "mg/dL", si: "mmol/L", factor: 0.01129 },
+  glucose: { conventional: "mg/dL", si: "mmol/L", factor: 0.05551 },
+  hba1c: { conventional: "%", si: "mmol/mol", factor: 10.929, offset: -2.15 },
+  creatinine: { conventional: "mg/dL", si: "µmol/L", factor: 88.42 },
+  bun: { conventional: "mg/dL", si: "mmol/L", factor: 0.357 },
+};
+
+/**
+ * Reduce a unit string to a comparison key ("µg/dL", "ug/dl" and "mcg/dL" all match).
+ */
+function normalizeUnit(unit: string): string {
+  return unit
+    .trim()
+    .toLowerCase()
+    .replace(/[µμ]/g, "u")
+    .replace(/mcg/g, "ug")
+    .replace(/\s+/g, "");
+}
+
+/**
+ * Round converted values so 5.8275 mmol/L reads as 5.83.
+ */
+function roundForDisplay(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Convert a single value of a known analyte into the requested unit system.
+ *
+ * @param code - Marker registry code.
+ * @param value - Reported value.
+ * @param unit - Reported unit.
+ * @param target - Unit system to convert into.
+ * @returns Converted value and unit, or undefined when the analyte or reported unit is not recognised.
+ *
+ * Postconditions:
+ * - Returns the value unchanged (but relabelled) when it is already in the target system.
+ */
+export function convertMarkerValue(
+  code: string,
+  value: number,
+  unit: string,
+  target: UnitSystem,
+): { value: number; unit: string } | undefined {
+  const conversion = ANALYTE_CONVERSIONS[code];
+  if (!conversion) return undefined;
+
+  const offset = conversion.offset ?? 0;
+  const from = normalizeUnit(unit);
+
+  let conventionalValue: number;
+  if (from === normalizeUnit(conversion.conventional)) {
+    conventionalValue = value;
+  } else if (from === normalizeUnit(conversion.si)) {
+    conventionalValue = value / conversion.factor - offset;
+  } else {
+    return undefined;
+  }
+
+  return target === "si"
+    ? { value: roundForDisplay((conventionalValue + offset) * conversion.factor), unit: conversion.si }
+    : { value: roundForDisplay(conventionalValue), unit: conversion.conventional };
+}
+
+/**
+ * Attach display values in the user's preferred unit system to a stored marker.
+ *
+ * @param marker - Marker as stored (value/unit exactly as reported).
+ * @param target - The user's preferred unit system.
+ * @returns The marker plus display* fields; the stored fields are untouched.
+ *
+ * Postconditions:
+ * - Markers that can't be converted (no canonical code, unknown unit) display as reported.
+ */
+export function normalizeHealthMarker(marker: HealthMarker, target: UnitSystem): NormalizedHealthMarker {
+  const toNumber = (v: string | null) => (v == null ? null : Number(v));
+
+  const value = toNumber(marker.value);
+  const normalMin = toNumber(marker.normalMin);
+  const normalMax = toNumber(marker.normalMax);
+
+  const convert = (v: number | null) =>
+    v == null || !marker.canonicalCode || !marker.unit
+      ? undefined
+      : convertMarkerValue(marker.canonicalCode, v, marker.unit, target);
+
+  const convertedValue = convert(value);
+  if (!convertedValue) {
+    return {
+      ...marker,
+      displayValue: value,
+      displayUnit: marker.unit,
+      displayNormalMin: normalMin,
+      displayNormalMax: normalMax,
+    };
+  }
+
+  return {
+    ...marker,
+    displayValue: convertedValue.value,
+    displayUnit: convertedValue.unit,
+    displayNormalMin: convert(normalMin)?.value ?? null,
+    displayNormalMax: convert(normalMax)?.value ?? null,
+  };
+}
@@ -0,0 +1,249 @@
+// shared/pill-schedule.ts
+import {
+  timeBlocks,
+  timeBlockWindows,
+  type DoseSlot,
+  type Medication,
+  type PillCourse,
+  type PillDose,
+  type PillRef,
+  type PillSchedule,
+  type Supplement,
+  type TimeBlock,
+} from "./schema";
+
+const weekdayNames = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far ahead inventory is projected; a supply lasting longer doesn't need a refill yet
+const SUPPLY_HORIZON_DAYS = 366;
+
+/**
+ * Whole days from `from` to `to` (both YYYY-MM-DD); negative when `to` is earlier.
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * Whether a pill on this schedule is taken on a date.
+ *
+ * @param schedule - The pill's schedule
+ * @param date - Day to check, YYYY-MM-DD
+ * @returns False for as-needed pills, and for interval/cyclic days before the start date.
+ */
+export function isDueOn(schedule: PillSchedule, date: string): boolean {
+  switch (schedule.kind) {
+    case "daily":
+      return true;
+    case "weekdays":
+      return schedule.days.includes(new Date(`${date}T00:00:00Z`).getUTCDay());
+    case "interval": {
+      const days = daysBetween(schedule.startDate, date);
+      return days >= 0 && days % schedule.everyDays === 0;
+    }
+    case "cyclic": {
+      const days = daysBetween(schedule.startDate, date);
+      return days >= 0 && days % (schedule.onDays + schedule.offDays) < schedule.onDays;
+    }
+    case "as_needed":
+      return false;
+  }
+}
+
+/**
+ * The date `days` days after `date` (both YYYY-MM-DD).
+ */
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * The wall-clock date (YYYY-MM-DD) and minutes past midnight of an instant in a time zone.
+ *
+ * @param instant - The moment to read
+ * @param timeZone - IANA name; the runtime's own time zone when undefined
+ */
+export function localDateTime(instant: Date, timeZone: string | undefined): { date: string; minutes: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(instant)
+      .map((part) => [part.type, part.value]),
+  );
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, minutes: Number(parts.hour) * 60 + Number(parts.minute) };
+}
+
+/**
+ * Whether a date falls within a pill's treatment course; always true for pills without one.
+ */
+export function isInCourse(course: PillCourse, date: string): boolean {
+  if (course.courseStartDate && date < course.courseStartDate) return false;
+  if (course.courseEndDate && date > course.courseEndDate) return false;
+  return true;
+}
+
+/**
+ * Whether a pill is taken on a date: its schedule is due and the date is within its course.
+ */
+export function isPillDueOn(item: PillCourse & { schedule: PillSchedule }, date: string): boolean {
+  return isInCourse(item, date) && isDueOn(item.schedule, date);
+}
+
+/**
+ * How far into its course a pill is on a date, for "Day 4 of 10".
+ *
+ * @param course - The pill's course dates
+ * @param date - Day to check, YYYY-MM-DD
+ * @returns The day number (1 on the start date) and the course length in days (null when it has
+ *   no end date), or null when the pill has no start date or the date is outside the course.
+ */
+export function courseProgress(course: PillCourse, date: string): { day: number; totalDays: number | null } | null {
+  if (!course.courseStartDate || !isInCourse(course, date)) return null;
+  return {
+    day: daysBetween(course.courseStartDate, date) + 1,
+    totalDays: course.courseEndDate ? daysBetween(course.courseStartDate, course.courseEndDate) + 1 : null,
+  };
+}
+
+/**
+ * The time block an HH:MM time falls in; times before the first block count as morning.
+ */
+export function blockForTime(time: string): TimeBlock {
+  return timeBlocks.find((block) => time >= timeBlockWindows[block].start && time < timeBlockWindows[block].end) ?? "morning";
+}
+
+/**
+ * A pill's dose slots, in order.
+ *
+ * @param item - The medication or supplement
+ * @returns Its doseSlots; a pill saved without any has one dose in its timeBlock (slot id "1",
+ *   which is also what dose rows from before slots existed point at).
+ */
+export function doseSlotsOf(
+  item: Pick<Medication | Supplement, "doseSlots" | "timeBlock" | "scheduledTime">,
+): DoseSlot[] {
+  if (item.doseSlots && item.doseSlots.length > 0) return item.doseSlots;
+  const timeBlock = timeBlocks.includes(item.timeBlock as TimeBlock) ? (item.timeBlock as TimeBlock) : "morning";
+  return [{ id: "1", timeBlock, scheduledTime: item.scheduledTime ?? null, amount: null, foodRule: null }];
+}
+
+type InventoryItem = Pick<
+  Medication | Supplement,
+  | "pillsOnHand"
+  | "pillsPerDose"
+  | "schedule"
+  | "doseSlots"
+  | "timeBlock"
+  | "scheduledTime"
+  | "courseStartDate"
+  | "courseEndDate"
+>;
+
+/**
+ * How many of a pill's doses are settled (taken, skipped or missed), so they need no more pills.
+ *
+ * @param doses - Doses of one day, of any pills
+ * @param pill - Which pill to count
+ */
+export function settledDoseCount(doses: Pick<PillDose, "pillType" | "pillId" | "status">[], pill: PillRef): number {
+  return doses.filter(
+    (d) => d.pillType === pill.type && d.pillId === pill.id && ["taken", "skipped", "missed"].includes(d.status),
+  ).length;
+}
+
+/**
+ * How long a pill's inventory lasts on its schedule.
+ *
+ * @param item - The pill, with its count, schedule, dose slots and course
+ * @param today - First day to count, YYYY-MM-DD
+ * @param settledToday - How many of today's doses are taken, skipped or missed (see settledDoseCount);
+ *   only the rest of today's doses still need pills, since taken ones are already off pillsOnHand
+ * @returns Whole days the supply covers (0 = not enough for the rest of today) and the first day
+ *   it falls short, or null when inventory isn't tracked or the supply doesn't run out (as-needed
+ *   pills, a course that ends first, or more than a year's worth).
+ */
+export function daysOfSupply(
+  item: InventoryItem,
+  today: string,
+  settledToday = 0,
+): { days: number; runsOutOn: string } | null {
+  if (item.pillsOnHand === null || item.pillsOnHand === undefined) return null;
+
+  const dosesPerDay = doseSlotsOf(item).length;
+  let left = item.pillsOnHand;
+  for (let i = 0; i < SUPPLY_HORIZON_DAYS; i++) {
+    const date = addDays(today, i);
+    if (item.courseEndDate && date > item.courseEndDate) return null;
+    if (!isPillDueOn(item, date)) continue;
+    const needed = (i === 0 ? Math.max(0, dosesPerDay - settledToday) : dosesPerDay) * item.pillsPerDose;
+    if (left < needed) return { days: i, runsOutOn: date };
+    left -= needed;
+  }
+  return null;
+}
+
+/**
+ * Whether a pill's supply has dropped below its refill threshold.
+ *
+ * @param settledToday - As for daysOfSupply
+ */
+export function needsRefill(
+  item: InventoryItem & Pick<Medication | Supplement, "refillThresholdDays">,
+  today: string,
+  settledToday = 0,
+): boolean {
+  const supply = daysOfSupply(item, today, settledToday);
+  return supply !== null && supply.days < item.refillThresholdDays;
+}
+
+/**
+ * A short, human-readable label, e.g. "Twice a day, Mon/Wed/Fri" or "Once a day, 5 days on, 2 off".
+ *
+ * @param schedule - Which days the pill is taken
+ * @param dosesPerDay - How many dose slots it has
+ */
+export function describeSchedule(schedule: PillSchedule, dosesPerDay = 1): string {
+  if (schedule.kind === "as_needed") return "As needed";
+
+  const times = ["Once", "Twice"][dosesPerDay - 1] ?? `${dosesPerDay} times`;
+  switch (schedule.kind) {
+    case "daily":
+      return `${times} daily`;
+    case "weekdays":
+      return `${times} a day, ${[...schedule.days].sort().map((d) => weekdayNames[d]).join("/")}`;
+    case "interval":
+      return `${times} a day, every ${schedule.everyDays} days`;
+    case "cyclic":
+      return `${times} a day, ${schedule.onDays} days on, ${schedule.offDays} off`;
+  }
+}
+
+/**
+ * Format a YYYY-MM-DD date as e.g. "Oct 25".
+ */
+function shortDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+}
+
+/**
+ * Where a pill is in its treatment course on a date, e.g. "Day 4 of 10", "Starts Oct 25" or
+ * "Course ended Oct 18"; null for pills without a course.
+ */
+export function describeCourse(course: PillCourse, date: string): string | null {
+  const { courseStartDate, courseEndDate } = course;
+  if (courseStartDate && date < courseStartDate) return `Starts ${shortDate(courseStartDate)}`;
+  if (courseEndDate && date > courseEndDate) return `Course ended ${shortDate(courseEndDate)}`;
+
+  const progress = courseProgress(course, date);
+  if (progress) return progress.totalDays === null ? `Day ${progress.day}` : `Day ${progress.day} of ${progress.totalDays}`;
+  return courseEndDate ? `Until ${shortDate(courseEndDate)}` : null;
+}
@@ -1,5 +1,19 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, serial, integer, timestamp, boolean, jsonb, decimal, date } from "drizzle-orm/pg-core";
+import {
+  pgTable,
+  text,
+  varchar,
+  serial,
+  integer,
+  timestamp,
+  boolean,
+  jsonb,
+  decimal,
+  date,
+  uniqueIndex,
+  index,
+  customType,
+} from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -21,6 +35,35 @@ export type HealthProfileStatus = {
   lastUpdated?: string;
 };
 
+// Display preferences (kept apart from the health profile, which feeds AI prompts)
+export const unitSystems = ["conventional", "si"] as const;
+export type UnitSystem = (typeof unitSystems)[number];
+
+// When the user usually eats (HH:MM), so food rules can be scheduled around meals
+export type MealTimes = {
+  breakfast: string;
+  lunch: string;
+  dinner: string;
+};
+
+export const defaultMealTimes: MealTimes = { breakfast: "08:00", lunch: "12:30", dinner: "18:30" };
+
+// How long a pill reminder can be snoozed for, in minutes, and how often per dose
+export const snoozeDurations = [5, 10, 15, 30, 60] as const;
+export type SnoozeSettings = {
+  minutes: number; // one of snoozeDurations; the default when snoozing
+  maxCount: number; // snoozes allowed per dose before it has to be taken or skipped
+};
+
+export const defaultSnoozeSettings: SnoozeSettings = { minutes: 10, maxCount: 3 };
+
+export type UserPreferences = {
+  unitSystem?: UnitSystem; // conventional = US units (mg/dL, ng/mL), si = SI units (mmol/L, nmol/L)
+  mealTimes?: MealTimes; // defaultMealTimes when unset
+  timeZone?: string; // IANA name the planner's days and time blocks are in; the server's when unset
+  snooze?: SnoozeSettings; // defaultSnoozeSettings when unset
+};
+
 // Users table
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -28,6 +71,7 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   healthProfile: jsonb("health_profile").$type<HealthProfile>().default({}),
   healthProfileStatus: jsonb("health_profile_status").$type<HealthProfileStatus>().default({ isComplete: false }),
+  preferences: jsonb("preferences").$type<UserPreferences>().default({}),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -46,29 +90,142 @@ export const healthProfileSchema = z.object({
   activityLevel: z.enum(["low", "moderate", "high"]).optional(),
 });
 
+const clockTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM");
+
+const snoozeMinutesSchema = z
+  .number()
+  .int()
+  .refine((minutes) => (snoozeDurations as readonly number[]).includes(minutes), {
+    message: `Snooze for ${snoozeDurations.join(", ")} minutes`,
+  });
+
+// IANA time zone name, e.g. "Europe/Berlin"
+export const timeZoneSchema = z
+  .string()
+  .max(64)
+  .refine((timeZone) => {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }, "Unknown time zone");
+
+export const userPreferencesSchema = z.object({
+  unitSystem: z.enum(unitSystems).optional(),
+  mealTimes: z
+    .object({
+      breakfast: clockTimeSchema,
+      lunch: clockTimeSchema,
+      dinner: clockTimeSchema,
+    })
+    .optional(),
+  timeZone: timeZoneSchema.optional(),
+  snooze: z
+    .object({
+      minutes: snoozeMinutesSchema,
+      maxCount: z.number().int().min(1).max(10),
+    })
+    .optional(),
+});
+
+// Which AI provider the server is running with; provider is null when AI features are disabled
+export type AiStatus = {
+  enabled: boolean;
+  provider: string | null;
+};
+
+// Credentials accepted by signup/login (shared so the client form validates the same way)
+export const signupSchema = z.object({
+  username: z
+    .string()
+    .trim()
+    .min(3, "Username must be at least 3 characters")
+    .max(32, "Username must be at most 32 characters")
+    .regex(/^[a-zA-Z0-9_.-]+$/, "Use letters, numbers, dots, dashes or underscores"),
+  password: z
+    .string()
+    .min(8, "Password must be at least 8 characters")
+    .max(128, "Password must be at most 128 characters"),
+});
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "password">;
 
 // Lab Results table
 export const labResults = pgTable("lab_results", {
   id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   fileName: text("file_name").notNull(),
   uploadDate: timestamp("upload_date").default(sql`CURRENT_TIMESTAMP`).notNull(),
   rawText: text("raw_text"),
-  status: text("status").notNull().default("processing"), // processing, completed, error
+  status: text("status").notNull().default("queued"), // queued, parsing, extracting, saving, completed, error
+  source: text("source").notNull().default("upload"), // upload, manual
+  collectionDate: date("collection_date"), // when the sample was drawn, if known
+  processingError: text("processing_error"), // why the last processing attempt failed, cleared on success
 });
 
 export const insertLabResultSchema = createInsertSchema(labResults).omit({
   id: true,
+  userId: true,
   uploadDate: true,
 });
 
 export type InsertLabResult = z.infer<typeof insertLabResultSchema>;
 export type LabResult = typeof labResults.$inferSelect;
 
+// Lab result statuses while a job is pending or running ("processing" is the pre-queue legacy value)
+export const labResultActiveStatuses = ["queued", "parsing", "extracting", "saving", "processing"] as const;
+export type LabProcessingStage = "parsing" | "extracting" | "saving";
+
+const bytea = customType<{ data: Buffer; driverData: Buffer }>({
+  dataType() {
+    return "bytea";
+  },
+});
+
+// Durable background jobs that turn a lab result's file/text into markers + recommendations
+export const labJobs = pgTable(
+  "lab_jobs",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    labResultId: integer("lab_result_id").notNull().references(() => labResults.id, { onDelete: "cascade" }),
+    status: text("status").notNull().default("queued"), // queued, running, completed, failed
+    stage: text("stage"), // parsing, extracting, saving (while running)
+    attempts: integer("attempts").notNull().default(0),
+    maxAttempts: integer("max_attempts").notNull().default(3),
+    runAt: timestamp("run_at").default(sql`CURRENT_TIMESTAMP`).notNull(), // not picked up before this
+    lockedAt: timestamp("locked_at"), // when a worker claimed it
+    lastError: text("last_error"),
+    fileData: bytea("file_data"), // original upload, dropped once the job succeeds
+    fileKind: text("file_kind"), // pdf, image, heic
+    createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  // The worker polls for due queued jobs
+  (table) => [index("lab_jobs_status_run_at_idx").on(table.status, table.runAt)],
+);
+
+export const insertLabJobSchema = createInsertSchema(labJobs).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
+export type InsertLabJob = z.infer<typeof insertLabJobSchema>;
+export type LabJob = typeof labJobs.$inferSelect;
+
 // Health Markers extracted from lab results
 export const healthMarkers = pgTable("health_markers", {
   id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   labResultId: integer("lab_result_id").references(() => labResults.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
   value: decimal("value", { precision: 10, scale: 3 }),
@@ -77,15 +234,201 @@ export const healthMarkers = pgTable("health_markers", {
   normalMax: decimal("normal_max", { precision: 10, scale: 3 }),
   status: text("status").notNull(), // low, normal, high
   category: text("category").notNull(), // vitamins, minerals, blood, hormones, etc
+  canonicalCode: text("canonical_code"), // marker registry code; null until the label is recognised
 });
 
 export const insertHealthMarkerSchema = createInsertSchema(healthMarkers).omit({
   id: true,
+  userId: true,
 });
 
 export type InsertHealthMarker = z.infer<typeof insertHealthMarkerSchema>;
 export type HealthMarker = typeof healthMarkers.$inferSelect;
 
+// Marker as returned by the API: stored values untouched, display* converted to the user's unit system
+export type NormalizedHealthMarker = HealthMarker & {
+  displayValue: number | null;
+  displayUnit: string | null;
+  displayNormalMin: number | null;
+  displayNormalMax: number | null;
+};
+
+export const markerCategories = ["vitamins", "minerals", "blood", "hormones", "lipids", "metabolic", "other"] as const;
+
+export type MarkerCategory = (typeof markerCategories)[number];
+
+// Canonical marker registry entry (the registry itself lives in server/markers.ts)
+export type MarkerDefinition = {
+  code: string;
+  displayName: string;
+  aliases: string[];
+  defaultUnit: string;
+  category: MarkerCategory;
+};
+
+// User-confirmed mappings from an unrecognised marker label to a registry code
+export const markerAliases = pgTable(
+  "marker_aliases",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    alias: text("alias").notNull(), // normalized label (see normalizeMarkerLabel)
+    canonicalCode: text("canonical_code").notNull(),
+    createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => [uniqueIndex("marker_aliases_user_alias_idx").on(table.userId, table.alias)],
+);
+
+export type MarkerAlias = typeof markerAliases.$inferSelect;
+
+// Unrecognised marker labels waiting for the user to map them
+export type MarkerReviewItem = {
+  name: string;
+  occurrences: number;
+  labResultIds: number[];
+};
+
+// One lab result's reading of a marker, converted to the user's unit system
+export type MarkerHistoryPoint = {
+  markerId: number;
+  labResultId: number | null;
+  date: string; // YYYY-MM-DD: collection date, or upload date when unknown
+  reportedName: string;
+  value: number | null;
+  unit: string | null;
+  normalMin: number | null;
+  normalMax: number | null;
+  status: string;
+};
+
+export type MarkerHistory = {
+  code: string;
+  displayName: string;
+  unit: string | null; // unit most points share; points in other units can't be plotted together
+  points: MarkerHistoryPoint[];
+};
+
+export const markerReviewSchema = z.object({
+  name: z.string().trim().min(1, "Marker name is required"),
+  canonicalCode: z.string().trim().min(1, "Pick a marker"),
+});
+
+// Manual lab entry: one marker row as typed by the user (status is computed server-side)
+export const manualMarkerSchema = z
+  .object({
+    name: z.string().trim().min(1, "Marker name is required").max(120),
+    value: z.number().finite(),
+    unit: z.string().trim().max(32).nullable().optional(),
+    normalMin: z.number().finite().nullable().optional(),
+    normalMax: z.number().finite().nullable().optional(),
+    category: z.enum(markerCategories).default("other"),
+  })
+  .refine((m) => m.normalMin == null || m.normalMax == null || m.normalMin <= m.normalMax, {
+    message: "Reference range minimum must not exceed the maximum",
+    path: ["normalMax"],
+  });
+
+export const manualLabResultSchema = z.object({
+  title: z.string().trim().max(200).optional(),
+  collectionDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"),
+  markers: z.array(manualMarkerSchema).min(1, "Add at least one marker").max(100),
+});
+
+export type ManualMarker = z.infer<typeof manualMarkerSchema>;
+export type ManualLabResult = z.infer<typeof manualLabResultSchema>;
+
+export const pillTypes = ["medication", "supplement"] as const;
+export type PillType = (typeof pillTypes)[number];
+
+// A medication or supplement, by type + id (pills live in two tables)
+export type PillRef = { type: PillType; id: number };
+
+// Planner time blocks and the part of the day each covers (HH:MM, end exclusive)
+export const timeBlocks = ["morning", "midday", "evening", "bedtime"] as const;
+export type TimeBlock = (typeof timeBlocks)[number];
+
+export const timeBlockWindows: Record<TimeBlock, { start: string; end: string; defaultTime: string }> = {
+  morning: { start: "06:00", end: "11:00", defaultTime: "08:00" },
+  midday: { start: "11:00", end: "15:00", defaultTime: "12:00" },
+  evening: { start: "15:00", end: "20:00", defaultTime: "18:00" },
+  bedtime: { start: "20:00", end: "24:00", defaultTime: "21:00" },
+};
+
+export const foodRules = ["with_food", "empty_stomach", "either"] as const;
+export type FoodRule = (typeof foodRules)[number];
+
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+
+// Which days a pill is taken. Day counts for "interval" and "cyclic" run from startDate.
+export const pillScheduleSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("daily") }),
+  z.object({
+    kind: z.literal("weekdays"),
+    days: z.array(z.number().int().min(0).max(6)).min(1), // 0 = Sunday
+  }),
+  z.object({
+    kind: z.literal("interval"),
+    everyDays: z.number().int().min(2).max(365),
+    startDate: isoDateSchema,
+  }),
+  z.object({
+    kind: z.literal("cyclic"),
+    onDays: z.number().int().min(1).max(365),
+    offDays: z.number().int().min(1).max(365),
+    startDate: isoDateSchema,
+  }),
+  z.object({ kind: z.literal("as_needed") }),
+]);
+
+export type PillSchedule = z.infer<typeof pillScheduleSchema>;
+export type PillScheduleKind = PillSchedule["kind"];
+
+export const defaultPillSchedule: PillSchedule = { kind: "daily" };
+
+// One dose of a pill on the days it's taken. Unset amount/foodRule fall back to the pill's dosage/foodRule.
+export const doseSlotSchema = z.object({
+  id: z
+    .string()
+    .min(1)
+    .max(32)
+    .default(() => Math.random().toString(36).slice(2, 10)), // stable key for this slot's pill doses
+  timeBlock: z.enum(timeBlocks),
+  scheduledTime: clockTimeSchema.nullish(), // exact HH:MM within the block, if any
+  amount: z.string().max(100).nullish(), // e.g. "200mg" when splitting a dose
+  foodRule: z.enum(foodRules).nullish(),
+});
+
+export type DoseSlot = z.infer<typeof doseSlotSchema>;
+
+export const doseSlotsSchema = z
+  .array(doseSlotSchema)
+  .min(1)
+  .max(8)
+  .refine((slots) => new Set(slots.map((s) => s.id)).size === slots.length, "Dose slot ids must be unique");
+
+// A treatment course: the pill is only taken from courseStartDate through courseEndDate (either may be open).
+// Used to check create/update bodies, where the insert schemas only check each date's format.
+export const pillCourseSchema = z
+  .object({
+    courseStartDate: isoDateSchema.nullish(),
+    courseEndDate: isoDateSchema.nullish(),
+  })
+  .refine((c) => !c.courseStartDate || !c.courseEndDate || c.courseEndDate >= c.courseStartDate, {
+    message: "The course can't end before it starts",
+    path: ["courseEndDate"],
+  });
+
+export type PillCourse = z.infer<typeof pillCourseSchema>;
+
+const pillCountSchema = z.number().int().min(0).max(100000);
+
+// Inventory fields of a medication or supplement, as accepted on create and update
+export const pillInventorySchema = z.object({
+  pillsOnHand: pillCountSchema.nullish(),
+  pillsPerDose: z.number().int().min(1).max(50).optional(),
+  refillThresholdDays: z.number().int().min(0).max(365).optional(),
+});
+
 // Separation rule type for conflict tracking
 export type SeparationRule = {
   pillId: number;
@@ -98,27 +441,44 @@ export type SeparationRule = {
 // Medications table with enhanced pill planner fields
 export const medications = pgTable("medications", {
   id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
   dosage: text("dosage").notNull(),
-  frequency: text("frequency").notNull(),
+  schedule: jsonb("schedule").$type<PillSchedule>().notNull().default(defaultPillSchedule),
+  doseSlots: jsonb("dose_slots").$type<DoseSlot[]>().notNull().default([]), // the day's doses; empty = one at timeBlock
+  courseStartDate: date("course_start_date"), // first day of a treatment course, if it has one
+  courseEndDate: date("course_end_date"), // last day; the pill is deactivated once it has passed
+  pillsOnHand: integer("pills_on_hand"), // null = inventory not tracked
+  pillsPerDose: integer("pills_per_dose").notNull().default(1), // taken from pillsOnHand per dose
+  refillThresholdDays: integer("refill_threshold_days").notNull().default(7), // refill reminder below this many days of supply
   timeOfDay: text("time_of_day"), // legacy field
-  timeBlock: text("time_block").default("morning"), // morning, midday, evening, bedtime
-  scheduledTime: text("scheduled_time"), // specific HH:MM time if needed
+  timeBlock: text("time_block").default("morning"), // first dose slot's block (kept in sync by storage)
+  scheduledTime: text("scheduled_time"), // first dose slot's HH:MM time, if set
   foodRule: text("food_rule").default("either"), // with_food, empty_stomach, either
   withFood: boolean("with_food").default(false), // legacy field
   separationRules: jsonb("separation_rules").$type<SeparationRule[]>().default([]),
-  allowedTogetherWith: jsonb("allowed_together_with").$type<number[]>().default([]), // medication IDs
-  userOverride: boolean("user_override").default(false), // user chose to ignore conflicts
+  allowedTogetherWith: jsonb("allowed_together_with").$type<PillRef[]>().default([]), // pills taken together on purpose
+  userOverride: boolean("user_override").default(false), // user chose to ignore all of this pill's conflicts
+  fixedTiming: boolean("fixed_timing").default(true), // prescribed timing: the auto-scheduler never moves it
   stackId: integer("stack_id"), // reference to pill stack
   notes: text("notes"),
   whyTaking: text("why_taking"), // one-line explanation
   active: boolean("active").default(true),
+  scheduleChangedAt: timestamp("schedule_changed_at").default(sql`CURRENT_TIMESTAMP`).notNull(), // last change to its due days/slots, or reactivation
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
 export const insertMedicationSchema = createInsertSchema(medications).omit({
   id: true,
+  userId: true,
+  scheduleChangedAt: true,
   createdAt: true,
+}).extend({
+  schedule: pillScheduleSchema.optional(),
+  doseSlots: doseSlotsSchema.optional(),
+  courseStartDate: isoDateSchema.nullish(),
+  courseEndDate: isoDateSchema.nullish(),
+  ...pillInventorySchema.shape,
 });
 
 export type InsertMedication = z.infer<typeof insertMedicationSchema>;
@@ -127,28 +487,44 @@ export type Medication = typeof medications.$inferSelect;
 // Supplements table with enhanced pill planner fields
 export const supplements = pgTable("supplements", {
   id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
   dosage: text("dosage").notNull(),
-  frequency: text("frequency").notNull(),
+  schedule: jsonb("schedule").$type<PillSchedule>().notNull().default(defaultPillSchedule),
+  doseSlots: jsonb("dose_slots").$type<DoseSlot[]>().notNull().default([]), // the day's doses; empty = one at timeBlock
+  courseStartDate: date("course_start_date"), // first day of a treatment course, if it has one
+  courseEndDate: date("course_end_date"), // last day; the pill is deactivated once it has passed
+  pillsOnHand: integer("pills_on_hand"), // null = inventory not tracked
+  pillsPerDose: integer("pills_per_dose").notNull().default(1), // taken from pillsOnHand per dose
+  refillThresholdDays: integer("refill_threshold_days").notNull().default(7), // refill reminder below this many days of supply
   timeOfDay: text("time_of_day"), // legacy field
-  timeBlock: text("time_block").default("morning"), // morning, midday, evening, bedtime
-  scheduledTime: text("scheduled_time"), // specific HH:MM time if needed
+  timeBlock: text("time_block").default("morning"), // first dose slot's block (kept in sync by storage)
+  scheduledTime: text("scheduled_time"), // first dose slot's HH:MM time, if set
   foodRule: text("food_rule").default("either"), // with_food, empty_stomach, either
   withFood: boolean("with_food").default(false), // legacy field
   separationRules: jsonb("separation_rules").$type<SeparationRule[]>().default([]),
-  allowedTogetherWith: jsonb("allowed_together_with").$type<number[]>().default([]), // supplement IDs
-  userOverride: boolean("user_override").default(false), // user chose to ignore conflicts
+  allowedTogetherWith: jsonb("allowed_together_with").$type<PillRef[]>().default([]), // pills taken together on purpose
+  userOverride: boolean("user_override").default(false), // user chose to ignore all of this pill's conflicts
   stackId: integer("stack_id"), // reference to pill stack
   reason: text("reason"),
   whyTaking: text("why_taking"), // one-line explanation
   source: text("source"), // link to clinical guideline
   active: boolean("active").default(true),
+  scheduleChangedAt: timestamp("schedule_changed_at").default(sql`CURRENT_TIMESTAMP`).notNull(), // last change to its due days/slots, or reactivation
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
 export const insertSupplementSchema = createInsertSchema(supplements).omit({
   id: true,
+  userId: true,
+  scheduleChangedAt: true,
   createdAt: true,
+}).extend({
+  schedule: pillScheduleSchema.optional(),
+  doseSlots: doseSlotsSchema.optional(),
+  courseStartDate: isoDateSchema.nullish(),
+  courseEndDate: isoDateSchema.nullish(),
+  ...pillInventorySchema.shape,
 });
 
 export type InsertSupplement = z.infer<typeof insertSupplementSchema>;
@@ -157,6 +533,7 @@ export type Supplement = typeof supplements.$inferSelect;
 // Pill Stacks - groups of pills taken together
 export const pillStacks = pgTable("pill_stacks", {
   id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   name: text("name").notNull(), // e.g., "Morning Stack", "Evening Stack"
   timeBlock: text("time_block").notNull(), // morning, midday, evening, bedtime
   scheduledTime: text("scheduled_time"), // specific HH:MM time
@@ -166,6 +543,7 @@ export const pillStacks = pgTable("pill_stacks", {
 
 export const insertPillStackSchema = createInsertSchema(pillStacks).omit({
   id: true,
+  userId: true,
   createdAt: true,
 });
 
@@ -175,27 +553,198 @@ export type PillStack = typeof pillStacks.$inferSelect;
 // Pill Doses - tracks when pills were taken
 export const pillDoses = pgTable("pill_doses", {
   id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   pillType: text("pill_type").notNull(), // medication, supplement
   pillId: integer("pill_id").notNull(),
   scheduledDate: date("scheduled_date").notNull(),
   scheduledTimeBlock: text("scheduled_time_block").notNull(), // morning, midday, evening, bedtime
-  status: text("status").notNull().default("pending"), // pending, taken, skipped, snoozed
+  slotId: text("slot_id").notNull().default("1"), // which of the pill's dose slots
+  status: text("status").notNull().default("pending"), // pending, taken, skipped, snoozed, missed
   takenAt: timestamp("taken_at"),
   snoozedUntil: timestamp("snoozed_until"),
+  snoozeCount: integer("snooze_count").notNull().default(0), // times snoozed; capped by the user's snooze settings
+  pillsDeducted: integer("pills_deducted"), // taken from the pill's inventory when marked taken; restored on undo
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
 export const insertPillDoseSchema = createInsertSchema(pillDoses).omit({
   id: true,
+  userId: true,
   createdAt: true,
 });
 
 export type InsertPillDose = z.infer<typeof insertPillDoseSchema>;
 export type PillDose = typeof pillDoses.$inferSelect;
 
+// POST /api/pill-doses/snooze: snooze every open dose of a time block on a day
+export const snoozeRequestSchema = z.object({
+  date: isoDateSchema,
+  timeBlock: z.enum(timeBlocks),
+  minutes: snoozeMinutesSchema.optional(), // the user's default duration when left out
+});
+
+export type SnoozeRequest = z.infer<typeof snoozeRequestSchema>;
+
+// GET /api/adherence query: a date range (at most a year; the 30 days ending today when left out)
+// and the time zone doses were taken in
+export const adherenceQuerySchema = z
+  .object({
+    from: isoDateSchema.optional(),
+    to: isoDateSchema.optional(),
+    timeZone: timeZoneSchema.optional(), // defaults to the user's preference, then the server's
+  })
+  .refine((q) => !q.from || !q.to || q.from <= q.to, { message: "from must not be after to", path: ["from"] })
+  .refine((q) => !q.from || !q.to || Date.parse(q.to) - Date.parse(q.from) <= 366 * 24 * 60 * 60 * 1000, {
+    message: "Use a range of at most a year",
+    path: ["from"],
+  });
+
+export type AdherenceQuery = z.infer<typeof adherenceQuerySchema>;
+
+// How many due doses were taken; rate is null when nothing was due
+export type AdherenceRate = { due: number; taken: number; rate: number | null };
+
+// Minutes between the scheduled time and takenAt (negative = early)
+export type Lateness = { averageMinutes: number | null; samples: number };
+
+// Response of GET /api/adherence. A dose counts as due once its day has passed, or once it's
+// taken, skipped or missed; pending and snoozed doses from earlier days count as missed.
+export type AdherenceReport = {
+  from: string;
+  to: string;
+  overall: AdherenceRate;
+  byPill: (AdherenceRate & { pill: PillRef; name: string })[];
+  byTimeBlock: (AdherenceRate & Lateness & { timeBlock: TimeBlock })[];
+  byWeekday: (AdherenceRate & { weekday: number })[]; // 0 = Sunday
+  streaks: { current: number; longest: number }; // days in a row with every due dose taken
+  lateness: Lateness;
+  insights: string[]; // plain-language patterns, e.g. the time block most often missed
+};
+
+// Refill log: each restock of a pill, added to its pillsOnHand
+export const pillRefills = pgTable("pill_refills", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  pillType: text("pill_type").notNull(), // medication, supplement
+  pillId: integer("pill_id").notNull(),
+  quantity: integer("quantity").notNull(), // pills added
+  note: text("note"), // e.g. pharmacy or prescription number
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+export type PillRefill = typeof pillRefills.$inferSelect;
+
+export const pillRefillSchema = z.object({
+  pill: z.object({ type: z.enum(pillTypes), id: z.number().int() }),
+  quantity: pillCountSchema.min(1),
+  note: z.string().trim().max(500).optional(),
+});
+
+export type PillRefillRequest = z.infer<typeof pillRefillSchema>;
+
+// What happened to a pill over time; kept when the pill itself is deleted
+export const pillHistoryEvents = ["course_completed"] as const;
+export type PillHistoryEvent = (typeof pillHistoryEvents)[number];
+
+export const pillHistory = pgTable("pill_history", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  pillType: text("pill_type").notNull(), // medication, supplement
+  pillId: integer("pill_id").notNull(),
+  name: text("name").notNull(), // as it was at the time
+  dosage: text("dosage").notNull(),
+  event: text("event").notNull(), // course_completed
+  courseStartDate: date("course_start_date"),
+  courseEndDate: date("course_end_date"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+export const insertPillHistorySchema = createInsertSchema(pillHistory).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
+export type InsertPillHistory = z.infer<typeof insertPillHistorySchema>;
+export type PillHistoryEntry = typeof pillHistory.$inferSelect;
+
+// Where a pill sits in the daily plan
+export type ScheduleSlot = {
+  timeBlock: TimeBlock;
+  scheduledTime: string; // HH:MM
+};
+
+// One pill the auto-scheduler would move
+export type ScheduleChange = {
+  pill: PillRef;
+  slotId: string; // which of the pill's dose slots moves
+  name: string; // includes "dose N" for pills taken more than once a day
+  from: ScheduleSlot;
+  to: ScheduleSlot;
+  reasons: string[];
+};
+
+// A constraint the auto-scheduler could not satisfy (e.g. both pills have prescribed timings)
+export type ScheduleIssue = {
+  pills: PillRef[];
+  message: string;
+};
+
+// Response of POST /api/planner/auto-schedule; nothing is saved until the changes are applied
+export type AutoScheduleResult = {
+  changes: ScheduleChange[];
+  unresolved: ScheduleIssue[];
+  fixed: PillRef[]; // medications with prescribed timings, never moved
+};
+
+export const applyScheduleSchema = z.object({
+  changes: z
+    .array(
+      z.object({
+        pill: z.object({ type: z.enum(pillTypes), id: z.number().int() }),
+        slotId: z.string().min(1).optional(), // defaults to the pill's first dose
+        to: z.object({ timeBlock: z.enum(timeBlocks), scheduledTime: clockTimeSchema }),
+      }),
+    )
+    .min(1),
+  fromDate: isoDateSchema.optional(), // first day whose pending doses move
+});
+
+export type ApplySchedule = z.infer<typeof applyScheduleSchema>;
+
+// Something about a pill's schedule that clashes with another pill the user takes
+export type PillConflict = {
+  slotId: string; // which of this pill's doses clashes
+  slot: ScheduleSlot; // when that dose is taken
+  with: PillRef;
+  withName: string;
+  withSlot: ScheduleSlot; // when the other pill's clashing dose is taken
+  kind: "separate" | "avoid"; // separate: too close together; avoid: shouldn't be combined at all
+  minutesApart: number | null; // how far apart they should be (separate only)
+  severity: "mild" | "moderate" | "severe" | null; // null for the user's own separation rules
+  reason: string;
+};
+
+// Returned with a medication/supplement on create and update
+export type PillConflictReport = {
+  pill: PillRef;
+  conflicts: PillConflict[];
+  autoFix: ScheduleChange[] | null; // changes that fix every "separate" conflict; null if there are none
+};
+
+// "I'm taking these together on purpose"
+export const allowTogetherSchema = z.object({
+  pill: z.object({ type: z.enum(pillTypes), id: z.number().int() }),
+  with: z.array(z.object({ type: z.enum(pillTypes), id: z.number().int() })).min(1),
+  note: z.string().trim().max(500).nullable().optional(),
+});
+
+export type AllowTogether = z.infer<typeof allowTogetherSchema>;
+
 // Recommendations table
 export const recommendations = pgTable("recommendations", {
   id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   labResultId: integer("lab_result_id").references(() => labResults.id, { onDelete: "cascade" }),
   type: text("type").notNull(), // supplement, dietary, physical
   title: text("title").notNull(),
@@ -208,6 +757,7 @@ export const recommendations = pgTable("recommendations", {
 
 export const insertRecommendationSchema = createInsertSchema(recommendations).omit({
   id: true,
+  userId: true,
   createdAt: true,
 });
 
@@ -217,42 +767,216 @@ export type Recommendation = typeof recommendations.$inferSelect;
 // Reminders table
 export const reminders = pgTable("reminders", {
   id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   title: text("title").notNull(),
   time: text("time").notNull(), // HH:MM format
   days: jsonb("days").$type<string[]>().default([]), // ['monday', 'tuesday', etc]
-  type: text("type").notNull(), // medication, supplement, activity
+  type: text("type").notNull(), // medication, supplement, activity, refill
   relatedId: integer("related_id"), // id of medication or supplement
+  relatedType: text("related_type"), // medication or supplement: which table relatedId points at
   enabled: boolean("enabled").default(true),
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
 export const insertReminderSchema = createInsertSchema(reminders).omit({
   id: true,
+  userId: true,
   createdAt: true,
 });
 
 export type InsertReminder = z.infer<typeof insertReminderSchema>;
 export type Reminder = typeof reminders.$inferSelect;
 
-// Interactions table (medication-supplement conflicts)
-export const interactions = pgTable("interactions", {
+// Web Push subscriptions: one per browser the user turned push notifications on in
+export const pushSubscriptions = pgTable("push_subscriptions", {
   id: serial("id").primaryKey(),
-  medicationId: integer("medication_id").references(() => medications.id, { onDelete: "cascade" }),
-  supplementId: integer("supplement_id").references(() => supplements.id, { onDelete: "cascade" }),
-  severity: text("severity").notNull(), // mild, moderate, severe
-  description: text("description").notNull(),
-  recommendation: text("recommendation").notNull(),
-  separationMinutes: integer("separation_minutes"), // how many minutes apart if applicable
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  endpoint: text("endpoint").notNull().unique(), // the push service URL; identifies the browser
+  p256dh: text("p256dh").notNull(), // the browser's public key
+  auth: text("auth").notNull(), // the browser's auth secret
+  userAgent: text("user_agent"),
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
+export type PushSubscriptionRecord = typeof pushSubscriptions.$inferSelect;
+
+// Body of POST /api/push/subscriptions: PushSubscription.toJSON() from the browser
+export const pushSubscriptionSchema = z.object({
+  endpoint: z.string().url().max(1000),
+  keys: z.object({
+    p256dh: z.string().min(1).max(200),
+    auth: z.string().min(1).max(100),
+  }),
+});
+
+export type PushSubscriptionRequest = z.infer<typeof pushSubscriptionSchema>;
+
+// Whether the server can send push notifications; publicKey is the VAPID key browsers subscribe with
+export type PushStatus = {
+  enabled: boolean;
+  publicKey: string | null;
+};
+
+// What the service worker shows for a push
+export type PushPayload = {
+  title: string;
+  body: string;
+  tag: string; // a newer push with the same tag replaces the notification
+  url: string; // opened when the notification is clicked
+  actionToken?: string; // pill pushes: lets "Taken" and "Snooze" update the doses without a session
+};
+
+// Body of POST /api/push/actions, sent by the service worker
+export const pushActionSchema = z.object({
+  token: z.string().min(1).max(2000),
+  action: z.enum(["taken", "snooze"]),
+});
+
+export type PushAction = z.infer<typeof pushActionSchema>;
+
+export const notificationKinds = ["pills", "snooze", "reminder"] as const;
+export type NotificationKind = (typeof notificationKinds)[number];
+
+// The open doses a pill notification is about, so channels can offer "Taken" and "Snooze"
+export type NotificationDoses = {
+  date: string; // YYYY-MM-DD
+  timeBlock: TimeBlock;
+  doseIds: number[];
+};
+
+// Every notification the server scheduler decided to send. The idempotency key names the occasion
+// ("pills:2026-10-19:morning", "reminder:7:2026-10-19"), so each one is logged, and delivered, once
+export const notificationLog = pgTable(
+  "notification_log",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    idempotencyKey: text("idempotency_key").notNull(),
+    kind: text("kind").notNull(), // pills, snooze or reminder
+    title: text("title").notNull(),
+    body: text("body").notNull(),
+    url: text("url").notNull(), // opened when the notification is clicked
+    doses: jsonb("doses").$type<NotificationDoses>(), // pill notifications only
+    dueAt: timestamp("due_at").notNull(), // when the notification was meant to go out
+    pushedAt: timestamp("pushed_at"), // when Web Push reached at least one of the user's browsers
+    createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => [uniqueIndex("notification_log_user_key_idx").on(table.userId, table.idempotencyKey)],
+);
+
+export const insertNotificationLogSchema = createInsertSchema(notificationLog).omit({
+  id: true,
+  userId: true,
+  pushedAt: true,
+  createdAt: true,
+});
+
+export type InsertNotificationLogEntry = z.infer<typeof insertNotificationLogSchema>;
+export type NotificationLogEntry = typeof notificationLog.$inferSelect;
+
+// Interactions table (medication-supplement conflicts)
+export const interactions = pgTable(
+  "interactions",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    // The two pills involved, in canonical order: medications before supplements, then by id
+    pillAType: text("pill_a_type").notNull(), // medication, supplement
+    pillAId: integer("pill_a_id").notNull(),
+    pillBType: text("pill_b_type").notNull(), // medication, supplement
+    pillBId: integer("pill_b_id").notNull(),
+    severity: text("severity").notNull(), // mild, moderate, severe
+    description: text("description").notNull(),
+    recommendation: text("recommendation").notNull(),
+    separationMinutes: integer("separation_minutes"), // how many minutes apart if applicable
+    source: text("source").notNull().default("ai"), // curated (local rules) or ai
+    mechanism: text("mechanism"), // why the interaction happens (curated rules)
+    citation: text("citation"), // reference backing a curated rule
+    ruleId: text("rule_id"), // curated rule that matched, e.g. "thyroid-hormone-minerals"
+    rulesVersion: text("rules_version"), // version of the curated rules that produced the row
+    status: text("status").notNull().default("new"), // new, acknowledged, dismissed, resolved (kept across checks)
+    statusNote: text("status_note"), // the user's note for the current status, e.g. "Dr. Lee okayed this"
+    statusChangedAt: timestamp("status_changed_at"), // null while still new
+    firstSeenAt: timestamp("first_seen_at").default(sql`CURRENT_TIMESTAMP`).notNull(), // first check that found it
+    lastConfirmedAt: timestamp("last_confirmed_at").default(sql`CURRENT_TIMESTAMP`).notNull(), // latest check that still found it
+    createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  // One row per pair, kept (same id) across checks
+  (table) => [
+    uniqueIndex("interactions_user_pair_idx").on(
+      table.userId,
+      table.pillAType,
+      table.pillAId,
+      table.pillBType,
+      table.pillBId,
+    ),
+  ],
+);
+
+// Status fields are the user's, so checks never write them
 export const insertInteractionSchema = createInsertSchema(interactions).omit({
   id: true,
+  userId: true,
+  status: true,
+  statusNote: true,
+  statusChangedAt: true,
+  firstSeenAt: true,
+  lastConfirmedAt: true,
   createdAt: true,
 });
 
 export type InsertInteraction = z.infer<typeof insertInteractionSchema>;
 export type Interaction = typeof interactions.$inferSelect;
 
+// What kind of pills an interaction is between: `${pillAType}-${pillBType}` (pills are stored in order)
+export const interactionPairKinds = ["medication-supplement", "medication-medication", "supplement-supplement"] as const;
+export type InteractionPairKind = (typeof interactionPairKinds)[number];
+
+export const interactionSources = ["curated", "ai"] as const;
+export type InteractionSource = (typeof interactionSources)[number];
+
+// What the user has done about an interaction. "dismissed" means taking them together on purpose
+// (the pills are then allowed together in the planner); "resolved" means it no longer applies.
+export const interactionStatuses = ["new", "acknowledged", "dismissed", "resolved"] as const;
+export type InteractionStatus = (typeof interactionStatuses)[number];
+
+export const interactionStatusUpdateSchema = z.object({
+  status: z.enum(interactionStatuses),
+  note: z.string().trim().max(500).nullable().optional(),
+});
+
+export type InteractionStatusUpdate = z.infer<typeof interactionStatusUpdateSchema>;
+
+// Cached AI verdict for one pair of pills; result is null when the AI found nothing
+export type CachedInteraction = {
+  severity: "mild" | "moderate" | "severe";
+  description: string;
+  recommendation: string;
+};
+
+export const interactionPairChecks = pgTable(
+  "interaction_pair_checks",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    pairKey: text("pair_key").notNull(), // provider + normalized names and dosages of both items
+    result: jsonb("result").$type<CachedInteraction | null>(),
+    checkedAt: timestamp("checked_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => [uniqueIndex("interaction_pair_checks_user_key_idx").on(table.userId, table.pairKey)],
+);
+
+export type InteractionPairCheck = typeof interactionPairChecks.$inferSelect;
+
+// Response of POST /api/interactions/check; curated rules always run, the AI check may not have
+export type InteractionCheckResult = {
+  interactions: Interaction[];
+  rulesVersion: string;
+  ai: "ok" | "disabled" | "failed";
+  aiError?: string;
+  pairsChecked: number; // pairs sent to the AI this time
+  pairsCached: number; // pairs answered from earlier checks
+};
+
 // Chat models for AI integration
 export * from "./models/chat";